@@ -1,10 +1,28 @@
 
-import { defineComponent, ref, computed, onUnmounted, watch } from 'vue';
+import { defineComponent, ref, shallowRef, computed, onUnmounted, watch } from 'vue';
 import AetherCanvas from './components/AetherCanvas';
-import { getSpatialInsight, evaluateModel } from './services/geminiService';
-import { LabContent, CustomMeshBuffer, CustomMeshUVs, BenchmarkResult } from './types';
+import { getSpatialInsight, evaluateModel } from './services/insightService';
+import { importModelFiles, readDroppedFiles, toSourceFiles, MissingResourcesError, MODEL_EXTENSIONS, COMPANION_EXTENSIONS, ImportPhase, ImportProgress, SourceFile } from './services/modelImporter';
+import { exportModel, downloadFiles, EXPORT_FORMATS, ExportFormat } from './services/modelExporter';
+import { geometryToMeshBuffer } from './services/meshBuffer';
+import { POINT_BUDGET_STEPS, DEFAULT_POINT_BUDGET } from './services/surfaceSampler';
+import { MORPH_EASINGS, DEFAULT_MORPH_OPTIONS, MorphEasing } from './services/particleMorph';
+import { createPrimitiveGeometry, isPrimitiveModel } from './services/primitiveGeometry';
+import { validateTopology, countTopologyIssues, listTopologyIssues, TOPOLOGY_ISSUES, TopologyIssueKind, TopologyIssueEntry } from './services/topologyValidator';
+import { getTriangleCount, getVertexCount } from './services/meshBuffer';
+import { repairMesh, REPAIR_OPERATIONS, RepairOperation, RepairResult, WELD_TOLERANCES, DEFAULT_WELD_TOLERANCE, HOLE_SIZES, DEFAULT_HOLE_SIZE } from './services/meshRepair';
+import { buildLodChain, LodLevel, LOD_RATIO_RANGE, DEFAULT_LOD_RATIO } from './services/meshDecimator';
+import { generateUVs, UV_PROJECTIONS, UvProjection } from './services/uvUnwrap';
+import { analyzeUVs, UV_HEATMAPS, UvHeatmapKind, TEXTURE_RESOLUTIONS, DEFAULT_TEXTURE_RESOLUTION } from './services/uvAnalyzer';
+import { createSectionPlane, moveSectionPlane, SECTION_AXES, SECTION_COLORS, MAX_SECTION_PLANES, SECTION_OFFSET_RANGE } from './services/sectionPlanes';
+import { measureMesh, measureDistance, measureAngle, getUnitFactor, formatMeasure, MEASURE_TOOLS, MeasureTool, LENGTH_UNITS, LengthUnit, DEFAULT_SOURCE_UNITS, PRIMITIVE_SOURCE_UNIT } from './services/measurement';
+import { listAnimationClips, listMorphTargets, hasSkeleton, ANIMATION_SPEEDS, DEFAULT_ANIMATION_SPEED } from './services/sceneAnimation';
+import { listSceneMaterials, inspectMaterial, isPbrMaterial, getAlphaMode, setAlphaMode, toPbrMaterial, promoteSceneMaterials, ALPHA_MODES, MaterialEntry } from './services/pbrMaterial';
+import { isTextureFile, guessTextureSlots, guessNormalConvention, loadTextureFile, assignTexture, NORMAL_CONVENTIONS, NormalConvention } from './services/textureFiles';
+import { loadEnvironmentMap, LIGHTING_PRESETS, LightingPreset, TONE_MAPPINGS, ToneMappingId, DEFAULT_TONE_MAPPING, EXPOSURE_STOPS, ENVIRONMENT_EXTENSIONS } from './services/lightingRig';
+import type { ModelFormat } from './services/modelParser';
+import { LabContent, CustomMeshBuffer, BenchmarkResult, TopologyReport, RenderMode, SectionPlane } from './types';
 import * as THREE from 'three';
-import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
 
 export default defineComponent({
   name: 'App',
@@ -17,25 +35,103 @@ export default defineComponent({
 
     // Custom Model State
     const fileInput = ref<HTMLInputElement | null>(null);
-    const customMesh = ref<CustomMeshBuffer | null>(null);
-    const customUVs = ref<CustomMeshUVs | null>(null);
-    const customTexture = ref<THREE.Texture | null>(null); 
-    const customNormalMap = ref<THREE.Texture | null>(null); // New: Store normal map
-    const isProcessingGLB = ref(false);
+    const aetherCanvas = ref<{
+      frameObject: () => void;
+      createExportObject: () => THREE.Object3D | null;
+      focusAt: (point: [number, number, number]) => void;
+      seekAnimation: (time: number) => void;
+    } | null>(null);
+    const customFileName = ref('model');
+    const customFormat = ref<ModelFormat | null>(null);
+    const customScene = shallowRef<THREE.Object3D | null>(null); // Full imported node tree
+    const customMesh = shallowRef<CustomMeshBuffer | null>(null);
+    const customMaterial = shallowRef<THREE.Material | null>(null); // Authored look of the buffers once the node tree is gone
+    const isProcessingModel = ref(false);
+    const importProgress = ref<ImportProgress | null>(null);
+    const missingResources = ref<string[]>([]); // Files the last import referenced but was not given
+    const isDraggingFiles = ref(false);
+    let importController: AbortController | null = null;
     
     // Toggles
     const isUVMode = ref(false); 
     const isNormalMapEnabled = ref(false); 
     const normalIntensity = ref(1.0); // New: Intensity Slider
+    const normalConvention = ref<NormalConvention>('opengl');
+    const pointBudgetStep = ref(POINT_BUDGET_STEPS.indexOf(DEFAULT_POINT_BUDGET)); // Index into POINT_BUDGET_STEPS
+    const pointBudget = computed(() => POINT_BUDGET_STEPS[pointBudgetStep.value]);
+    const isPointTextureColor = ref(false);
+
+    // Particle Morph
+    const morphSpeed = ref(DEFAULT_MORPH_OPTIONS.speed);
+    const morphEasing = ref<MorphEasing>(DEFAULT_MORPH_OPTIONS.easing);
+    const morphEasingLabel = computed(() => MORPH_EASINGS.find((e) => e.id === morphEasing.value)?.label ?? '');
+    const cycleMorphEasing = () => {
+      const index = MORPH_EASINGS.findIndex((e) => e.id === morphEasing.value);
+      morphEasing.value = MORPH_EASINGS[(index + 1) % MORPH_EASINGS.length].id;
+    };
     
     // Rendering Mode ('point' | 'line' | 'surface' | 'texture')
-    const renderMode = ref<'point' | 'line' | 'surface' | 'texture'>('point');
+    const renderMode = ref<RenderMode>('point');
 
     // Benchmark State
     const isBenchmarking = ref(false);
     const benchmarkResult = ref<BenchmarkResult | null>(null);
     const animatedScore = ref(0);
 
+    // Topology Validation
+    const topologyReport = shallowRef<TopologyReport | null>(null);
+    const topologyLayers = ref<TopologyIssueKind[]>(TOPOLOGY_ISSUES.map((issue) => issue.id));
+    const expandedTopologyIssue = ref<TopologyIssueKind | null>(null);
+
+    // Mesh Repair
+    const weldToleranceStep = ref(WELD_TOLERANCES.indexOf(DEFAULT_WELD_TOLERANCE));
+    const holeSizeStep = ref(HOLE_SIZES.indexOf(DEFAULT_HOLE_SIZE));
+    const repairLog = ref<Array<Omit<RepairResult, 'mesh'> & { label: string }>>([]); // Most recent first
+
+    // UV Quality
+    const uvHeatmap = ref<UvHeatmapKind>('area');
+    const textureResolutionStep = ref(TEXTURE_RESOLUTIONS.indexOf(DEFAULT_TEXTURE_RESOLUTION));
+
+    // UV Unwrap
+    const unwrapProjection = ref<UvProjection | null>(null); // Last layout applied to the current mesh
+
+    // Level of Detail
+    const lodRatio = ref(DEFAULT_LOD_RATIO);
+    const lodChain = shallowRef<LodLevel[] | null>(null);
+    const activeLod = ref(0);
+    let lodSourceScene: THREE.Object3D | null = null; // Node tree LOD0 renders with, if the import had one
+
+    // Measurement
+    const isMeasureOpen = ref(false);
+    const measureTool = ref<MeasureTool | null>(null);
+    const measurePoints = ref<Array<[number, number, number]>>([]); // Scene space, in pick order
+    const sourceScale = ref(1); // Source file units per scene unit
+    const sourceUnit = ref<LengthUnit>(PRIMITIVE_SOURCE_UNIT);
+    const displayUnit = ref<LengthUnit>(PRIMITIVE_SOURCE_UNIT);
+
+    // Animation of the imported node tree
+    const animationClip = ref<number | null>(null); // Index into the scene's clips
+    const isAnimationPlaying = ref(false);
+    const animationSpeedStep = ref(ANIMATION_SPEEDS.indexOf(DEFAULT_ANIMATION_SPEED));
+    const animationTime = ref(0); // seconds, as last reported by the canvas
+    const showSkeleton = ref(false);
+    const morphWeights = ref<number[]>([]); // One per entry of morphTargets
+
+    // Lighting
+    const lightingPreset = ref<LightingPreset>('lab');
+    const environmentInput = ref<HTMLInputElement | null>(null);
+    const environmentMap = shallowRef<THREE.DataTexture | null>(null); // Equirectangular, as loaded
+    const isLoadingEnvironment = ref(false);
+    const toneMapping = ref<ToneMappingId>(DEFAULT_TONE_MAPPING);
+    const exposure = ref(0); // stops
+    const showEnvironmentBackground = ref(false);
+    const isShadowEnabled = ref(false);
+
+    // Material inspector
+    const isMaterialOpen = ref(false);
+    const materialIndex = ref(0);
+    const materialRevision = ref(0); // Materials are edited in place; this tells everyone they changed
+
     // Watcher for score animation
     let scoreAnimFrame: number | null = null;
     watch(benchmarkResult, (newVal) => {
@@ -141,6 +237,12 @@ export default defineComponent({
       isNormalMapEnabled.value = false;
       renderMode.value = 'point';
       benchmarkResult.value = null;
+      topologyReport.value = null;
+      repairLog.value = [];
+      unwrapProjection.value = null;
+      sectionPlanes.value = [];
+      resetMeasurements(1, PRIMITIVE_SOURCE_UNIT);
+      resetLods();
     };
 
     const setModel = (model: string) => {
@@ -148,6 +250,10 @@ export default defineComponent({
       // Keep Normal Map enabled if user prefers, or reset? Let's reset for fresh experience.
       isNormalMapEnabled.value = false;
       benchmarkResult.value = null;
+      topologyReport.value = null;
+      repairLog.value = [];
+      unwrapProjection.value = null;
+      resetLods();
       
       if (model === 'custom') {
         fileInput.value?.click();
@@ -159,6 +265,7 @@ export default defineComponent({
         fetchContent("Cartesian Coordinate System origin");
       } else {
         currentModel.value = model;
+        resetMeasurements(1, PRIMITIVE_SOURCE_UNIT);
         let topic = "";
         switch(model) {
             case 'cube': topic = "Geometric Cube topology and vertices"; break;
@@ -169,9 +276,11 @@ export default defineComponent({
       }
     };
 
+    // The layout can be flattened wherever it is drawn: the texture grid or a UV heatmap
+    const canFlattenUV = computed(() => !!currentModel.value && (renderMode.value === 'texture' || renderMode.value === 'heatmap'));
+
     const toggleUV = () => {
-        if (!currentModel.value) return;
-        if (renderMode.value !== 'texture') return;
+        if (!canFlattenUV.value) return;
         isUVMode.value = !isUVMode.value;
     };
 
@@ -182,32 +291,65 @@ export default defineComponent({
         isNormalMapEnabled.value = !isNormalMapEnabled.value;
     };
 
-    const setRenderMode = (mode: 'point' | 'line' | 'surface' | 'texture') => {
+    const setRenderMode = (mode: RenderMode) => {
         renderMode.value = mode;
-        if (mode !== 'texture') isUVMode.value = false;
-        // Disable normal map if switching to point/line
-        if (mode === 'point' || mode === 'line') isNormalMapEnabled.value = false;
+        if (mode !== 'texture' && mode !== 'heatmap') isUVMode.value = false;
+        // Normal maps only apply to the shaded Surface and Texture modes
+        if (mode !== 'surface' && mode !== 'texture') isNormalMapEnabled.value = false;
+    };
+
+    // Hedgehog lines drawn over whatever render mode is active
+    const showVertexNormals = ref(false);
+    const showFaceNormals = ref(false);
+
+    // Section Planes
+    const sectionPlanes = ref<SectionPlane[]>([]);
+    const canSection = computed(() => !!currentModel.value && renderMode.value !== 'point' && !isUVMode.value);
+
+    const addSectionPlane = () => {
+        if (!canSection.value || sectionPlanes.value.length >= MAX_SECTION_PLANES) return;
+        sectionPlanes.value.push(createSectionPlane(sectionPlanes.value));
+    };
+
+    const removeSectionPlane = (index: number) => {
+        sectionPlanes.value.splice(index, 1);
+    };
+
+    // Typed values, slider moves and handle drags all land here
+    const setSectionOffset = (index: number, offset: number) => {
+        const plane = sectionPlanes.value[index];
+        if (!plane || !Number.isFinite(offset)) return;
+        sectionPlanes.value[index] = moveSectionPlane(plane, offset);
+    };
+
+    const cycleSectionAxis = (index: number) => {
+        const plane = sectionPlanes.value[index];
+        if (!plane) return;
+        const i = SECTION_AXES.findIndex((axis) => axis.id === plane.axis);
+        plane.axis = SECTION_AXES[(i + 1) % SECTION_AXES.length].id;
+    };
+
+    // Buffers of whatever is on stage; procedural shapes are rebuilt in their solid form
+    const getCurrentMeshBuffer = (): CustomMeshBuffer | null => {
+        if (currentModel.value === 'custom') return customMesh.value;
+        if (!isPrimitiveModel(currentModel.value)) return null;
+        const geometry = createPrimitiveGeometry(currentModel.value, true);
+        const mesh = geometryToMeshBuffer(geometry);
+        geometry.dispose();
+        return mesh;
     };
 
     const runBenchmark = async () => {
         if (!currentModel.value || isBenchmarking.value) return;
 
+        const mesh = getCurrentMeshBuffer();
+        if (!mesh) return;
+
         isBenchmarking.value = true;
         benchmarkResult.value = null;
 
-        let vertexCount = 0;
-        let hasUVs = true;
-
-        if (currentModel.value === 'cube') vertexCount = 24; 
-        else if (currentModel.value === 'sphere') vertexCount = 3600; 
-        else if (currentModel.value === 'helix') vertexCount = 3000;
-        else if (currentModel.value === 'custom' && customMesh.value) {
-            vertexCount = customMesh.value.length / 3;
-            hasUVs = !!customUVs.value;
-        }
-
         try {
-            const result = await evaluateModel(currentModel.value, vertexCount, hasUVs);
+            const result = await evaluateModel(currentModel.value, mesh, textureResolution.value);
             benchmarkResult.value = result;
         } catch (e) {
             console.error("Benchmark error", e);
@@ -216,101 +358,545 @@ export default defineComponent({
         }
     };
 
-    // --- GLB Processing Logic ---
-    const handleFileUpload = async (event: Event) => {
-      const target = event.target as HTMLInputElement;
-      if (!target.files || target.files.length === 0) return;
+    const runTopologyCheck = () => {
+        const mesh = getCurrentMeshBuffer();
+        if (!mesh) return;
+        expandedTopologyIssue.value = null;
+        topologyReport.value = validateTopology(mesh);
+    };
 
-      const file = target.files[0];
-      isProcessingGLB.value = true;
-      loadingText.value = true;
-      benchmarkResult.value = null;
-      customTexture.value = null; 
-      customNormalMap.value = null; // Reset normal map
+    const topologySummary = computed(() => {
+        const report = topologyReport.value;
+        if (!report) return null;
+        const counts = countTopologyIssues(report);
+        return {
+            vertices: getVertexCount(report.mesh),
+            triangles: getTriangleCount(report.mesh),
+            islands: report.islandSizes.length,
+            total: Object.values(counts).reduce((sum, count) => sum + count, 0),
+            rows: TOPOLOGY_ISSUES.map((issue) => ({ ...issue, count: counts[issue.id], visible: topologyLayers.value.includes(issue.id) }))
+        };
+    });
 
-      try {
-        const arrayBuffer = await file.arrayBuffer();
-        const loader = new GLTFLoader();
-        
-        loader.parse(arrayBuffer, '', (gltf) => {
-          let biggestGeometry: THREE.BufferGeometry | null = null;
-          let maxCount = 0;
-          let foundTexture: THREE.Texture | null = null;
-          let foundNormalMap: THREE.Texture | null = null;
-
-          gltf.scene.traverse((child) => {
-            if ((child as THREE.Mesh).isMesh) {
-              const mesh = child as THREE.Mesh;
-              
-              if (mesh.geometry) {
-                   if (mesh.geometry.index) {
-                       mesh.geometry = mesh.geometry.toNonIndexed();
-                   }
-                   
-                   const count = mesh.geometry.attributes.position.count;
-                   if (count > maxCount) {
-                      maxCount = count;
-                      biggestGeometry = mesh.geometry.clone();
-                      
-                      // Capture Materials
-                      const mat = Array.isArray(mesh.material) ? mesh.material[0] : mesh.material;
-                      if (mat) {
-                          const stdMat = mat as THREE.MeshStandardMaterial;
-                          if (stdMat.map) foundTexture = stdMat.map;
-                          if (stdMat.normalMap) foundNormalMap = stdMat.normalMap;
-                      }
-
-                      mesh.updateMatrixWorld();
-                      biggestGeometry.applyMatrix4(mesh.matrixWorld);
-                   }
-              }
+    // Long lists are capped; the overlay still shows every finding
+    const TOPOLOGY_LIST_LIMIT = 50;
+    const topologyEntries = computed(() => {
+        const report = topologyReport.value;
+        const kind = expandedTopologyIssue.value;
+        return report && kind ? listTopologyIssues(report, kind, TOPOLOGY_LIST_LIMIT) : [];
+    });
+
+    const toggleTopologyLayer = (kind: TopologyIssueKind) => {
+        const layers = topologyLayers.value;
+        topologyLayers.value = layers.includes(kind) ? layers.filter((id) => id !== kind) : [...layers, kind];
+    };
+
+    const toggleTopologyList = (kind: TopologyIssueKind) => {
+        expandedTopologyIssue.value = expandedTopologyIssue.value === kind ? null : kind;
+    };
+
+    const focusTopologyIssue = (entry: TopologyIssueEntry) => aetherCanvas.value?.focusAt(entry.position);
+
+    const textureResolution = computed(() => TEXTURE_RESOLUTIONS[textureResolutionStep.value]);
+    const cycleTextureResolution = () => { textureResolutionStep.value = (textureResolutionStep.value + 1) % TEXTURE_RESOLUTIONS.length; };
+
+    // Only measured while the heatmap is up; follows the current buffer and resolution
+    const uvAnalysis = computed(() => {
+        if (renderMode.value !== 'heatmap') return null;
+        const mesh = getCurrentMeshBuffer();
+        return mesh ? analyzeUVs(mesh, textureResolution.value) : null;
+    });
+    const uvHeatmapLegend = computed(() => UV_HEATMAPS.find((heatmap) => heatmap.id === uvHeatmap.value)?.legend ?? '');
+
+    const canRepair = computed(() => currentModel.value === 'custom' && !!customMesh.value);
+    const weldTolerance = computed(() => WELD_TOLERANCES[weldToleranceStep.value]);
+    const holeSize = computed(() => HOLE_SIZES[holeSizeStep.value]);
+    const cycleWeldTolerance = () => { weldToleranceStep.value = (weldToleranceStep.value + 1) % WELD_TOLERANCES.length; };
+    const cycleHoleSize = () => { holeSizeStep.value = (holeSizeStep.value + 1) % HOLE_SIZES.length; };
+
+    // Repairs, unwraps and LODs work on the merged buffer and drop the node tree; say what goes with it
+    const flattenWarning = computed(() => {
+        if (!customScene.value) return '';
+        let meshes = 0;
+        const materials = new Set<THREE.Material>();
+        customScene.value.traverse((child) => {
+            const mesh = child as THREE.Mesh;
+            if (!mesh.isMesh) return;
+            meshes++;
+            (Array.isArray(mesh.material) ? mesh.material : [mesh.material]).forEach((material) => { if (material) materials.add(material); });
+        });
+        const lost = [
+            meshes > 1 ? `${meshes} MESHES` : '',
+            materials.size > 1 ? `${materials.size} MATERIALS` : '',
+            isSkinned.value ? 'SKIN' : '',
+            morphTargets.value.length ? 'MORPHS' : '',
+            animationClips.value.length ? `${animationClips.value.length} CLIPS` : ''
+        ].filter(Boolean);
+        return lost.length ? `EDITS FLATTEN ${lost.join(' // ')} INTO ONE MESH` : '';
+    });
+
+    // A new model starts in the units its file was written in
+    const resetMeasurements = (scale: number, unit: LengthUnit) => {
+        sourceScale.value = scale;
+        sourceUnit.value = unit;
+        displayUnit.value = unit;
+        measurePoints.value = [];
+    };
+
+    const nextUnit = (unit: LengthUnit) => LENGTH_UNITS[(LENGTH_UNITS.findIndex((u) => u.id === unit) + 1) % LENGTH_UNITS.length].id;
+    const cycleSourceUnit = () => { sourceUnit.value = nextUnit(sourceUnit.value); };
+    const cycleDisplayUnit = () => { displayUnit.value = nextUnit(displayUnit.value); };
+    const unitFactor = computed(() => getUnitFactor(sourceScale.value, sourceUnit.value, displayUnit.value));
+
+    const toggleMeasure = () => {
+        isMeasureOpen.value = !isMeasureOpen.value;
+        if (!isMeasureOpen.value) measureTool.value = null;
+    };
+
+    const setMeasureTool = (tool: MeasureTool) => {
+        measureTool.value = measureTool.value === tool ? null : tool;
+        measurePoints.value = [];
+    };
+
+    // Once the tool has all its points, the next pick starts a new measurement
+    const pickMeasurePoint = (point: [number, number, number]) => {
+        const needed = MEASURE_TOOLS.find((t) => t.id === measureTool.value)?.points;
+        if (!needed) return;
+        measurePoints.value = measurePoints.value.length >= needed ? [point] : [...measurePoints.value, point];
+    };
+
+    const isMeasureComplete = computed(() => {
+        const tool = MEASURE_TOOLS.find((t) => t.id === measureTool.value);
+        return !!tool && measurePoints.value.length >= tool.points;
+    });
+
+    const measureReadout = computed(() => {
+        const tool = MEASURE_TOOLS.find((t) => t.id === measureTool.value);
+        if (!tool) return 'PICK A TOOL';
+        const points = measurePoints.value;
+        if (!isMeasureComplete.value) return `CLICK POINT ${points.length + 1} OF ${tool.points}`;
+        if (tool.id === 'angle') return `${measureAngle(points[0], points[1], points[2]).toFixed(1)}°`;
+        return formatMeasure(measureDistance(points[0], points[1]), unitFactor.value, displayUnit.value);
+    });
+
+    // Whole-model figures; only worked out while the panel is open
+    const modelMeasurements = computed(() => {
+        if (!isMeasureOpen.value || !currentModel.value) return null;
+        const mesh = getCurrentMeshBuffer();
+        if (!mesh) return null;
+        const { size, area, volume, closed } = measureMesh(mesh);
+        const factor = unitFactor.value, unit = displayUnit.value;
+        return {
+            size: size.map((v) => formatMeasure(v, factor, unit)).join(' × '),
+            area: formatMeasure(area, factor, unit, 2),
+            volume: formatMeasure(volume, factor, unit, 3),
+            closed
+        };
+    });
+
+    const animationClips = computed(() => listAnimationClips(customScene.value));
+    const morphTargets = computed(() => listMorphTargets(customScene.value));
+    const isSkinned = computed(() => hasSkeleton(customScene.value));
+    const animationSpeed = computed(() => ANIMATION_SPEEDS[animationSpeedStep.value]);
+    const animationDuration = computed(() => animationClips.value.find((c) => c.index === animationClip.value)?.duration ?? 0);
+
+    // Every node tree starts at rest, in its authored morph weights
+    watch(customScene, () => {
+        animationClip.value = null;
+        isAnimationPlaying.value = false;
+        animationTime.value = 0;
+        morphWeights.value = morphTargets.value.map((t) => t.weight);
+    });
+
+    // Picking the running clip again stops it
+    const selectAnimationClip = (index: number) => {
+        const isSame = animationClip.value === index;
+        animationClip.value = isSame ? null : index;
+        isAnimationPlaying.value = !isSame;
+        animationTime.value = 0;
+    };
+
+    const toggleAnimationPlaying = () => {
+        if (animationClip.value === null) return;
+        isAnimationPlaying.value = !isAnimationPlaying.value;
+    };
+
+    const cycleAnimationSpeed = () => { animationSpeedStep.value = (animationSpeedStep.value + 1) % ANIMATION_SPEEDS.length; };
+
+    // Scrubbing holds the clip where it is dropped
+    const scrubAnimation = (time: number) => {
+        isAnimationPlaying.value = false;
+        animationTime.value = time;
+        aetherCanvas.value?.seekAnimation(time);
+    };
+
+    const setMorphWeight = (index: number, weight: number) => {
+        const weights = [...morphWeights.value];
+        weights[index] = weight;
+        morphWeights.value = weights;
+    };
+
+    // The HDRI rig needs a panorama first; picking it without one asks for a file
+    const setLightingPreset = (preset: LightingPreset) => {
+        if (preset === 'hdri' && !environmentMap.value) {
+            environmentInput.value?.click();
+            return;
+        }
+        lightingPreset.value = preset;
+    };
+
+    const handleEnvironmentUpload = async (event: Event) => {
+        const target = event.target as HTMLInputElement;
+        const file = target.files?.[0];
+        target.value = '';
+        if (!file) return;
+        isLoadingEnvironment.value = true;
+        try {
+            const texture = await loadEnvironmentMap(file);
+            environmentMap.value?.dispose();
+            environmentMap.value = texture;
+            lightingPreset.value = 'hdri';
+        } catch (e) {
+            console.error("Failed to load environment map", e);
+        } finally {
+            isLoadingEnvironment.value = false;
+        }
+    };
+
+    const toneMappingLabel = computed(() => TONE_MAPPINGS.find((t) => t.id === toneMapping.value)?.label ?? '');
+    const cycleToneMapping = () => {
+        toneMapping.value = TONE_MAPPINGS[(TONE_MAPPINGS.findIndex((t) => t.id === toneMapping.value) + 1) % TONE_MAPPINGS.length].id;
+    };
+
+    // The node tree's materials, or the one its buffers inherited after an edit
+    const editableMaterials = computed((): MaterialEntry[] => {
+        // Promoting plain materials swaps them inside the same tree
+        void materialRevision.value;
+        if (customScene.value) return listSceneMaterials(customScene.value);
+        const material = customMaterial.value;
+        return currentModel.value === 'custom' && isPbrMaterial(material) ? [{ material, name: material.name || 'MATERIAL 1', meshCount: 1 }] : [];
+    });
+    const selectedMaterial = computed(() => editableMaterials.value[materialIndex.value] ?? null);
+
+    // Only read while the panel is open; thumbnails are drawn on first look
+    const materialInspection = computed(() => {
+        void materialRevision.value;
+        if (!isMaterialOpen.value || !selectedMaterial.value) return null;
+        return inspectMaterial(selectedMaterial.value.material);
+    });
+
+    watch(customScene, () => { materialIndex.value = 0; });
+
+    const toggleMaterialInspector = () => { isMaterialOpen.value = !isMaterialOpen.value; };
+    const cycleMaterial = () => {
+        if (editableMaterials.value.length) materialIndex.value = (materialIndex.value + 1) % editableMaterials.value.length;
+    };
+
+    const editMaterial = (edit: (material: THREE.MeshStandardMaterial) => void) => {
+        if (!selectedMaterial.value) return;
+        edit(selectedMaterial.value.material);
+        materialRevision.value++;
+    };
+    const setMaterialFactor = (id: string, value: number) => editMaterial((material) => {
+        (material as unknown as Record<string, number>)[id] = value;
+    });
+    const setMaterialColor = (id: string, hex: string) => editMaterial((material) => {
+        (material as unknown as Record<string, THREE.Color>)[id].set(hex);
+    });
+    const cycleAlphaMode = () => editMaterial((material) => {
+        setAlphaMode(material, ALPHA_MODES[(ALPHA_MODES.indexOf(getAlphaMode(material)) + 1) % ALPHA_MODES.length]);
+    });
+
+    const normalConventionLabel = computed(() => NORMAL_CONVENTIONS.find((c) => c.id === normalConvention.value)?.label ?? '');
+    const cycleNormalConvention = () => {
+        normalConvention.value = NORMAL_CONVENTIONS[(NORMAL_CONVENTIONS.findIndex((c) => c.id === normalConvention.value) + 1) % NORMAL_CONVENTIONS.length].id;
+    };
+
+    // Plain OBJ, STL and PLY materials have no PBR slots; they get standard stand-ins first
+    const promoteMaterials = () => {
+        if (customScene.value) {
+            if (promoteSceneMaterials(customScene.value)) materialRevision.value++;
+        } else if (!isPbrMaterial(customMaterial.value)) {
+            customMaterial.value = toPbrMaterial(customMaterial.value);
+        }
+    };
+
+    /**
+     * Applies loose texture files to the selected material. Each goes where its name says;
+     * a single file dropped on a slot goes there regardless, and unnamed ones go to the
+     * slot they were dropped on, or base color when dropped on the canvas.
+     */
+    const applyTextureFiles = async (files: File[], dropSlot: string | null) => {
+        const textures = files.filter((file) => isTextureFile(file.name));
+        if (!textures.length || currentModel.value !== 'custom') return;
+        promoteMaterials();
+        const target = selectedMaterial.value?.material;
+        if (!target) return;
+
+        // glTF UVs expect unflipped images; OBJ, STL and PLY the opposite. Textures already
+        // on the material say best what its UVs were authored for.
+        const existing = (['map', 'normalMap', 'roughnessMap', 'aoMap'] as const).map((slot) => target[slot]).find(Boolean);
+        const flipY = existing ? existing.flipY : customFormat.value !== 'glb' && customFormat.value !== 'gltf';
+
+        try {
+            for (const file of textures) {
+                const guessed = guessTextureSlots(file.name);
+                const slots = dropSlot && textures.length === 1 ? [dropSlot] : guessed.length ? guessed : [dropSlot ?? 'map'];
+                const texture = await loadTextureFile(file, slots[0], flipY);
+                assignTexture(target, slots, texture);
+                if (slots.includes('normalMap')) normalConvention.value = guessNormalConvention(file.name) ?? normalConvention.value;
             }
-          });
+        } catch (e) {
+            console.error("Failed to load texture", e);
+        }
+        isMaterialOpen.value = true;
+        materialRevision.value++;
+    };
 
-          if (!biggestGeometry) {
-            throw new Error("No geometry found in model");
-          }
+    const handleSlotDragOver = (event: DragEvent) => {
+        if (!event.dataTransfer?.types.includes('Files')) return;
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'copy';
+    };
 
-          biggestGeometry.computeBoundingBox();
-          const center = new THREE.Vector3();
-          if (biggestGeometry.boundingBox) {
-              biggestGeometry.boundingBox.getCenter(center);
-              biggestGeometry.translate(-center.x, -center.y, -center.z);
-
-              const size = new THREE.Vector3();
-              biggestGeometry.boundingBox.getSize(size);
-              const maxDim = Math.max(size.x, size.y, size.z);
-              const scale = 400 / (maxDim || 1);
-              biggestGeometry.scale(scale, scale, scale);
-          }
+    const handleSlotDrop = (slot: string, event: DragEvent) => {
+        if (!event.dataTransfer?.types.includes('Files')) return;
+        event.preventDefault();
+        // The lab-wide drop would otherwise take these as an import
+        event.stopPropagation();
+        endFileDrag();
+        applyTextureFiles(Array.from(event.dataTransfer.files), slot);
+    };
 
-          const posAttribute = biggestGeometry.attributes.position;
-          customMesh.value = posAttribute.array as Float32Array;
+    // The first authored material stands in for the node tree's materials once it is dropped,
+    // with every channel and any edits made in the inspector
+    const adoptSceneMaterial = (root: THREE.Object3D) => {
+        if (customMaterial.value) return;
+        const materials: THREE.Material[] = [];
+        root.traverse((child) => {
+            const material = (child as THREE.Mesh).material;
+            if ((child as THREE.Mesh).isMesh && material) materials.push(...(Array.isArray(material) ? material : [material]));
+        });
+        customMaterial.value = materials.find(isPbrMaterial) ?? materials[0] ?? null;
+    };
 
-          const uvAttribute = biggestGeometry.attributes.uv;
-          customUVs.value = uvAttribute ? (uvAttribute.array as Float32Array) : null;
-          
-          if (foundTexture) {
-              foundTexture.colorSpace = THREE.SRGBColorSpace;
-              customTexture.value = foundTexture;
-          }
-          if (foundNormalMap) {
-              customNormalMap.value = foundNormalMap;
-          }
+    // Swaps in an edited buffer. The node tree no longer matches it, so the lab renders
+    // the buffers from here on; whichever LOD was showing becomes the new source.
+    const replaceCustomMesh = (mesh: CustomMeshBuffer) => {
+        if (customScene.value) {
+            adoptSceneMaterial(customScene.value);
+            customScene.value = null;
+        }
+        customMesh.value = mesh;
+        benchmarkResult.value = null;
+        resetLods();
+        if (topologyReport.value) topologyReport.value = validateTopology(mesh);
+    };
+
+    const applyRepair = (operation: RepairOperation) => {
+        const mesh = customMesh.value;
+        if (!canRepair.value || !mesh) return;
+        const { mesh: repaired, before, after } = repairMesh(mesh, operation, { tolerance: weldTolerance.value, maxHoleEdges: holeSize.value });
+        replaceCustomMesh(repaired);
+
+        const label = REPAIR_OPERATIONS.find((op) => op.id === operation)?.label ?? operation;
+        repairLog.value = [{ operation, label, before, after }, ...repairLog.value].slice(0, 4);
+    };
+
+    const applyUnwrap = (projection: UvProjection) => {
+        const mesh = customMesh.value;
+        if (!canRepair.value || !mesh) return;
+        replaceCustomMesh(generateUVs(mesh, projection));
+        unwrapProjection.value = projection;
+    };
+
+    const resetLods = () => {
+        lodChain.value = null;
+        activeLod.value = 0;
+        lodSourceScene = null;
+    };
+
+    // Shows one level; LOD0 brings back the imported node tree, the others render their buffers
+    const showLod = (chain: LodLevel[], level: number) => {
+        if (level === 0) {
+            customScene.value = lodSourceScene;
+        } else if (customScene.value) {
+            adoptSceneMaterial(customScene.value);
+            customScene.value = null;
+        }
+        customMesh.value = chain[level].mesh;
+        activeLod.value = level;
+        benchmarkResult.value = null;
+        if (topologyReport.value) topologyReport.value = validateTopology(chain[level].mesh);
+    };
+
+    const selectLod = (level: number) => {
+        if (lodChain.value && level !== activeLod.value) showLod(lodChain.value, level);
+    };
+
+    // Always decimates from LOD0, so changing the ratio and rebuilding never compounds
+    const buildLods = () => {
+        const source = lodChain.value ? lodChain.value[0].mesh : customMesh.value;
+        if (!canRepair.value || !source) return;
+        if (!lodChain.value) lodSourceScene = customScene.value;
+        const chain = buildLodChain(source, lodRatio.value);
+        lodChain.value = chain;
+        // The level on screen was replaced, so show its rebuilt mesh
+        if (activeLod.value > 0) showLod(chain, activeLod.value);
+    };
+
+    // --- Model Import Logic ---
+    const importAccept = [...MODEL_EXTENSIONS, ...COMPANION_EXTENSIONS].join(',');
+
+    const importFiles = async (files: SourceFile[]) => {
+      // A new selection supersedes any import still running
+      importController?.abort();
+      const controller = new AbortController();
+      importController = controller;
 
-          currentModel.value = 'custom';
-          fetchContent(`User imported High-Poly Model: ${file.name} (${maxCount.toLocaleString()} vertices)`);
-        }, (err) => {
-          console.error(err);
+      isProcessingModel.value = true;
+      loadingText.value = true;
+      importProgress.value = null;
+      missingResources.value = [];
+
+      try {
+        const imported = await importModelFiles(files, {
+          signal: controller.signal,
+          onProgress: (progress) => { importProgress.value = progress; }
         });
 
+        benchmarkResult.value = null;
+        topologyReport.value = null;
+        repairLog.value = [];
+        unwrapProjection.value = null;
+        resetLods();
+        customMaterial.value = null;
+        customScene.value = imported.scene;
+        customMesh.value = imported.mesh;
+        customFileName.value = imported.fileName;
+        customFormat.value = imported.format;
+        normalConvention.value = 'opengl';
+        missingResources.value = imported.missingResources;
+        resetMeasurements(imported.sourceScale, DEFAULT_SOURCE_UNITS[imported.format]);
+
+        currentModel.value = 'custom';
+        fetchContent(`User imported ${imported.format.toUpperCase()} Model: ${imported.fileName} (${imported.vertexCount.toLocaleString()} vertices)`);
       } catch (e) {
-        console.error("Failed to load GLB", e);
+        // Cancelled imports leave the current model untouched
+        if ((e as DOMException)?.name === 'AbortError') return;
+        if (e instanceof MissingResourcesError) missingResources.value = e.resources;
+        console.error("Failed to import model", e);
         fetchContent("Error loading spatial data");
       } finally {
-        isProcessingGLB.value = false;
-        loadingText.value = false;
-        target.value = '';
+        if (importController === controller) {
+          importController = null;
+          isProcessingModel.value = false;
+          loadingText.value = false;
+          importProgress.value = null;
+        }
+      }
+    };
+
+    const handleFileUpload = (event: Event) => {
+      const target = event.target as HTMLInputElement;
+      if (!target.files || target.files.length === 0) return;
+
+      const files = toSourceFiles(Array.from(target.files));
+      target.value = '';
+      importFiles(files);
+    };
+
+    // Drops land anywhere in the lab; enter/leave fire per child element, so count them
+    let dragDepth = 0;
+    const isFileDrag = (event: DragEvent) => step.value === 1 && !!event.dataTransfer?.types.includes('Files');
+
+    const handleDragEnter = (event: DragEvent) => {
+      if (!isFileDrag(event)) return;
+      dragDepth++;
+      isDraggingFiles.value = true;
+    };
+
+    const handleDragLeave = (event: DragEvent) => {
+      if (!isFileDrag(event)) return;
+      dragDepth = Math.max(0, dragDepth - 1);
+      if (dragDepth === 0) isDraggingFiles.value = false;
+    };
+
+    const handleDragOver = (event: DragEvent) => {
+      if (!isFileDrag(event)) return;
+      event.preventDefault();
+      event.dataTransfer!.dropEffect = 'copy';
+    };
+
+    const endFileDrag = () => {
+      dragDepth = 0;
+      isDraggingFiles.value = false;
+    };
+
+    const handleDrop = async (event: DragEvent) => {
+      if (!isFileDrag(event)) return;
+      event.preventDefault();
+      endFileDrag();
+      let files: SourceFile[];
+      try {
+        files = await readDroppedFiles(event.dataTransfer!);
+      } catch (e) {
+        // Directory readers can fail mid-walk (permissions, files moved away)
+        console.error("Failed to read dropped files", e);
+        fetchContent("Error loading spatial data");
+        return;
+      }
+      if (!files.length) return;
+      // Textures on their own dress the loaded model; anything else is a new import
+      if (currentModel.value === 'custom' && files.every(({ file }) => isTextureFile(file.name))) {
+        applyTextureFiles(files.map(({ file }) => file), null);
+      } else {
+        importFiles(files);
+      }
+    };
+
+    const cancelImport = () => importController?.abort();
+
+    // Where each phase starts on the overall bar; reading fills its span by bytes
+    const IMPORT_PHASES: Record<ImportPhase, { label: string; start: number; end: number }> = {
+      read: { label: 'READING', start: 0, end: 40 },
+      parse: { label: 'PARSING', start: 40, end: 75 },
+      normalize: { label: 'NORMALIZING', start: 75, end: 82 },
+      merge: { label: 'MERGING', start: 82, end: 92 },
+      transfer: { label: 'TRANSFERRING', start: 92, end: 97 },
+      materials: { label: 'BINDING MATERIALS', start: 97, end: 100 },
+    };
+
+    const importStatus = computed(() => {
+      const progress = importProgress.value;
+      if (!progress) return { label: 'STARTING', percent: 0, bytes: '' };
+      const phase = IMPORT_PHASES[progress.phase];
+      const fraction = progress.phase === 'read' && progress.bytesTotal ? progress.bytesLoaded / progress.bytesTotal : 0;
+      const mb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+      return {
+        label: phase.label,
+        percent: Math.round(phase.start + (phase.end - phase.start) * fraction),
+        bytes: `${mb(progress.bytesLoaded)} / ${mb(progress.bytesTotal)} MB`
+      };
+    });
+
+    const frameView = () => aetherCanvas.value?.frameObject();
+
+    // --- Export Logic ---
+    const exportingFormat = ref<ExportFormat | null>(null);
+
+    const exportCurrentModel = async (format: ExportFormat) => {
+      const object = aetherCanvas.value?.createExportObject();
+      if (!object || exportingFormat.value) return;
+
+      exportingFormat.value = format;
+      try {
+        const name = currentModel.value === 'custom' ? customFileName.value : `aether_${currentModel.value}`;
+        downloadFiles(await exportModel(object, format, name));
+      } catch (e) {
+        console.error("Failed to export model", e);
+      } finally {
+        exportingFormat.value = null;
       }
     };
 
@@ -325,9 +911,17 @@ export default defineComponent({
         { id: 'line', label: 'WIREFRAME', icon: '☖' },
         { id: 'surface', label: 'SURFACE', icon: '◼' },
         { id: 'texture', label: 'TEXTURE', icon: '▩' },
-    ];
+        { id: 'heatmap', label: 'UV HEATMAP', icon: '▦' },
+        { id: 'normals', label: 'NORMALS', icon: '⇡' },
+        { id: 'matcap', label: 'MATCAP', icon: '◐' },
+        { id: 'depth', label: 'DEPTH', icon: '▤' },
+        { id: 'vertexColor', label: 'VERTEX COLOR', icon: '◈' },
+        { id: 'tangent', label: 'TANGENTS', icon: '⟂' },
+        { id: 'orientation', label: 'FACE ORIENTATION', icon: '◧' },
+    ] as Array<{ id: RenderMode; label: string; icon: string }>;
 
     onUnmounted(() => {
+      importController?.abort();
       if (animationFrame) cancelAnimationFrame(animationFrame);
       if (scoreAnimFrame) cancelAnimationFrame(scoreAnimFrame);
     });
@@ -344,19 +938,111 @@ export default defineComponent({
       renderModes,
       loadingText,
       fileInput,
+      aetherCanvas,
+      frameView,
+      exportFormats: EXPORT_FORMATS,
+      exportingFormat,
+      exportCurrentModel,
+      importAccept,
       handleFileUpload,
+      customScene,
       customMesh,
-      customUVs,
-      customTexture,
-      customNormalMap,
-      isProcessingGLB,
+      customMaterial,
+      isProcessingModel,
+      importStatus,
+      missingResources,
+      isDraggingFiles,
+      normalConvention,
+      normalConventionLabel,
+      cycleNormalConvention,
+      handleSlotDragOver,
+      handleSlotDrop,
+      handleDragEnter,
+      handleDragLeave,
+      handleDragOver,
+      handleDrop,
+      cancelImport,
       isUVMode,
       isNormalMapEnabled,
       renderMode,
       normalIntensity,
+      pointBudgetStep,
+      pointBudget,
+      pointBudgetMax: POINT_BUDGET_STEPS.length - 1,
+      isPointTextureColor,
+      morphSpeed,
+      morphEasing,
+      morphEasingLabel,
+      cycleMorphEasing,
       toggleUV,
+      canFlattenUV,
       toggleNormalMap,
       setRenderMode,
+      showVertexNormals,
+      showFaceNormals,
+      sectionPlanes,
+      canSection,
+      isMeasureOpen,
+      measureTool,
+      measurePoints,
+      measureTools: MEASURE_TOOLS,
+      sourceUnit,
+      displayUnit,
+      cycleSourceUnit,
+      cycleDisplayUnit,
+      toggleMeasure,
+      setMeasureTool,
+      pickMeasurePoint,
+      measureReadout,
+      isMeasureComplete,
+      modelMeasurements,
+      lightingPresets: LIGHTING_PRESETS,
+      lightingPreset,
+      setLightingPreset,
+      environmentInput,
+      environmentAccept: ENVIRONMENT_EXTENSIONS.join(','),
+      environmentMap,
+      isLoadingEnvironment,
+      handleEnvironmentUpload,
+      toneMapping,
+      toneMappingLabel,
+      cycleToneMapping,
+      exposure,
+      exposureStops: EXPOSURE_STOPS,
+      showEnvironmentBackground,
+      isShadowEnabled,
+      isMaterialOpen,
+      editableMaterials,
+      materialIndex,
+      materialRevision,
+      materialInspection,
+      toggleMaterialInspector,
+      cycleMaterial,
+      setMaterialFactor,
+      setMaterialColor,
+      cycleAlphaMode,
+      animationClip,
+      animationClips,
+      isAnimationPlaying,
+      animationSpeed,
+      animationTime,
+      animationDuration,
+      showSkeleton,
+      isSkinned,
+      morphTargets,
+      morphWeights,
+      selectAnimationClip,
+      toggleAnimationPlaying,
+      cycleAnimationSpeed,
+      scrubAnimation,
+      setMorphWeight,
+      addSectionPlane,
+      removeSectionPlane,
+      setSectionOffset,
+      cycleSectionAxis,
+      sectionColors: SECTION_COLORS,
+      sectionOffsetRange: SECTION_OFFSET_RANGE,
+      maxSectionPlanes: MAX_SECTION_PLANES,
       startHold,
       endHold,
       enterLab,
@@ -365,20 +1051,77 @@ export default defineComponent({
       runBenchmark,
       isBenchmarking,
       benchmarkResult,
-      animatedScore
+      animatedScore,
+      topologyReport,
+      topologyLayers,
+      topologySummary,
+      topologyEntries,
+      topologyListLimit: TOPOLOGY_LIST_LIMIT,
+      expandedTopologyIssue,
+      runTopologyCheck,
+      toggleTopologyLayer,
+      toggleTopologyList,
+      focusTopologyIssue,
+      repairOperations: REPAIR_OPERATIONS,
+      canRepair,
+      flattenWarning,
+      weldTolerance,
+      holeSize,
+      cycleWeldTolerance,
+      cycleHoleSize,
+      applyRepair,
+      repairLog,
+      lodRatio,
+      lodRatioRange: LOD_RATIO_RANGE,
+      lodChain,
+      activeLod,
+      buildLods,
+      selectLod,
+      uvHeatmaps: UV_HEATMAPS,
+      uvHeatmap,
+      uvHeatmapLegend,
+      uvAnalysis,
+      textureResolution,
+      cycleTextureResolution,
+      uvProjections: UV_PROJECTIONS,
+      unwrapProjection,
+      applyUnwrap
     };
   },
   template: `
-    <div class="relative min-h-screen w-full overflow-hidden text-white selection:bg-white selection:text-black font-['Inter']">
+    <div
+      class="relative min-h-screen w-full overflow-hidden text-white selection:bg-white selection:text-black font-['Inter']"
+      @dragenter="handleDragEnter"
+      @dragleave="handleDragLeave"
+      @dragover="handleDragOver"
+      @drop="handleDrop"
+    >
       
       <!-- Hidden File Input -->
       <input 
         type="file" 
         ref="fileInput" 
-        accept=".glb,.gltf" 
+        :accept="importAccept" 
+        multiple
         class="hidden" 
         @change="handleFileUpload" 
       />
+      <input 
+        type="file" 
+        ref="environmentInput" 
+        :accept="environmentAccept" 
+        class="hidden" 
+        @change="handleEnvironmentUpload" 
+      />
+
+      <!-- Drop Overlay -->
+      <div v-if="isDraggingFiles" class="fixed inset-4 z-[60] pointer-events-none flex items-start justify-center border border-dashed border-yellow-500/60 bg-black/20">
+        <div class="mt-6 px-6 py-3 bg-[#050505]/80 text-center">
+          <p class="text-[10px] uppercase tracking-[0.3em] font-mono text-yellow-500">DROP TO IMPORT</p>
+          <p class="text-[9px] font-mono text-gray-400 mt-2">MODEL, FOLDER OR MODEL WITH ITS BUFFERS AND TEXTURES</p>
+          <p class="text-[9px] font-mono text-gray-500 mt-1">LOOSE TEXTURES GO ONTO THE MODEL, OR A MATERIAL SLOT</p>
+        </div>
+      </div>
 
       <!-- CSS Injection for Glitch Effect (unchanged) -->
       <style>
@@ -412,16 +1155,45 @@ export default defineComponent({
       </style>
 
       <AetherCanvas 
+        ref="aetherCanvas"
         :mode="step === 0 ? 'chaos' : 'axis'" 
         :model="currentModel"
+        :customScene="customScene"
         :customMesh="customMesh"
-        :customUVs="customUVs"
-        :customTexture="customTexture"
-        :customNormalMap="customNormalMap"
+        :customMaterial="customMaterial"
         :uvMode="isUVMode"
         :useNormalMap="isNormalMapEnabled"
         :normalScale="normalIntensity"
+        :normalConvention="normalConvention"
+        :pointBudget="pointBudget"
+        :pointTextureColor="isPointTextureColor"
+        :morphSpeed="morphSpeed"
+        :morphEasing="morphEasing"
+        :topologyReport="topologyReport"
+        :topologyLayers="topologyLayers"
+        :uvAnalysis="uvAnalysis"
+        :uvHeatmap="uvHeatmap"
         :renderMode="renderMode"
+        :showVertexNormals="showVertexNormals"
+        :showFaceNormals="showFaceNormals"
+        :sectionPlanes="sectionPlanes"
+        @sectionPlaneMove="setSectionOffset"
+        :measureTool="measureTool"
+        :measurePoints="measurePoints"
+        @measurePick="pickMeasurePoint"
+        :animationClip="animationClip"
+        :animationPlaying="isAnimationPlaying"
+        :animationSpeed="animationSpeed"
+        :showSkeleton="showSkeleton"
+        :morphWeights="morphWeights"
+        @animationTime="animationTime = $event"
+        :materialRevision="materialRevision"
+        :lightingPreset="lightingPreset"
+        :environmentMap="environmentMap"
+        :toneMapping="toneMapping"
+        :exposure="exposure"
+        :showEnvironmentBackground="showEnvironmentBackground"
+        :shadows="isShadowEnabled"
       />
 
       <!-- Cinematic Overlay -->
@@ -430,7 +1202,7 @@ export default defineComponent({
         <div class="absolute inset-0 bg-[radial-gradient(circle_at_center,transparent_0%,rgba(0,0,0,0.6)_100%)]"></div>
       </div>
 
-      <div class="relative z-10 flex flex-col min-h-screen p-6 md:p-10 transition-all duration-1000">
+      <div class="relative z-10 flex flex-col min-h-screen p-6 md:p-10 transition-all duration-1000 pointer-events-none">
         
         <!-- Header -->
         <header class="flex justify-between items-start pointer-events-none select-none relative z-20">
@@ -465,15 +1237,15 @@ export default defineComponent({
                   <!-- UV Button -->
                   <button 
                       @click="toggleUV"
-                      :disabled="!currentModel || renderMode !== 'texture'"
+                      :disabled="!canFlattenUV"
                       class="flex items-center gap-3 px-3 py-2 border-l-2 transition-all pl-4 group backdrop-blur-sm w-full"
                       :class="[
                           isUVMode ? 'border-purple-400 bg-purple-900/10' : 'border-white/20',
-                          (!currentModel || renderMode !== 'texture') ? 'opacity-30 cursor-not-allowed grayscale' : 'hover:bg-white/5 cursor-pointer'
+                          !canFlattenUV ? 'opacity-30 cursor-not-allowed grayscale' : 'hover:bg-white/5 cursor-pointer'
                       ]"
                   >
                       <div class="flex flex-col items-start gap-1">
-                          <span class="text-[9px] uppercase tracking-widest transition-colors" :class="[isUVMode ? 'text-purple-300' : 'text-gray-400', (!currentModel || renderMode !== 'texture') ? '' : 'group-hover:text-white']">
+                          <span class="text-[9px] uppercase tracking-widest transition-colors" :class="[isUVMode ? 'text-purple-300' : 'text-gray-400', !canFlattenUV ? '' : 'group-hover:text-white']">
                               PROJECTION MAP
                           </span>
                           <div class="flex items-center gap-2">
@@ -522,9 +1294,369 @@ export default defineComponent({
                               v-model.number="normalIntensity"
                               class="w-full"
                           />
+                          <button @click="cycleNormalConvention" class="flex items-center gap-1 mt-1 text-[8px] uppercase font-mono tracking-widest text-cyan-500/80 hover:text-white transition-colors">
+                              <span>GREEN //</span>
+                              <span class="text-cyan-300">{{ normalConventionLabel }}</span>
+                          </button>
+                      </div>
+                  </div>
+
+                  <!-- Lighting -->
+                  <div class="w-full flex flex-col gap-1 px-3 py-2 pl-4 border-l-2 backdrop-blur-sm transition-all" :class="lightingPreset !== 'lab' || isShadowEnabled ? 'border-orange-400/60 bg-orange-900/10' : 'border-white/20'">
+                      <div class="flex justify-between items-end">
+                          <span class="text-[9px] uppercase tracking-widest" :class="lightingPreset !== 'lab' || isShadowEnabled ? 'text-orange-300' : 'text-gray-400'">LIGHTING</span>
+                          <span v-if="isLoadingEnvironment" class="text-[8px] font-mono text-orange-300 animate-pulse">LOADING HDRI</span>
+                          <span v-else-if="environmentMap" class="text-[8px] font-mono text-gray-500 truncate max-w-[8rem]" :title="environmentMap.name">{{ environmentMap.name }}</span>
+                      </div>
+                      <div class="flex gap-1">
+                          <button 
+                              v-for="preset in lightingPresets" 
+                              :key="preset.id" 
+                              @click="setLightingPreset(preset.id)"
+                              class="px-2 py-0.5 border text-[9px] font-mono tracking-widest transition-all hover:text-white cursor-pointer"
+                              :class="lightingPreset === preset.id ? 'border-orange-400/60 text-orange-200' : 'border-white/20 text-gray-400 hover:border-orange-400/50'"
+                          >{{ preset.label }}</button>
+                          <button 
+                              v-if="environmentMap"
+                              @click="environmentInput?.click()"
+                              class="px-2 py-0.5 border border-white/20 text-[9px] font-mono tracking-widest text-gray-400 hover:text-white hover:border-orange-400/50 transition-all"
+                              title="Load another .hdr or .exr panorama"
+                          >…</button>
+                      </div>
+                      <div class="flex gap-3">
+                          <button @click="cycleToneMapping" class="flex items-center gap-1 text-[8px] uppercase font-mono tracking-widest text-gray-500 hover:text-white transition-colors">
+                              <span>TONE //</span>
+                              <span class="text-gray-300">{{ toneMappingLabel }}</span>
+                          </button>
+                          <button 
+                              @click="showEnvironmentBackground = !showEnvironmentBackground"
+                              :disabled="lightingPreset === 'lab'"
+                              class="flex items-center gap-2 text-[8px] uppercase font-mono tracking-widest transition-colors"
+                              :class="lightingPreset === 'lab' ? 'text-gray-600 cursor-not-allowed' : showEnvironmentBackground ? 'text-orange-300' : 'text-gray-500 hover:text-white'"
+                          >
+                              <div class="w-1.5 h-1.5 rounded-full" :class="showEnvironmentBackground && lightingPreset !== 'lab' ? 'bg-orange-400 shadow-[0_0_8px_rgba(251,146,60,0.8)]' : 'bg-white/20'"></div>
+                              BACKDROP
+                          </button>
+                          <button 
+                              @click="isShadowEnabled = !isShadowEnabled"
+                              class="flex items-center gap-2 text-[8px] uppercase font-mono tracking-widest transition-colors"
+                              :class="isShadowEnabled ? 'text-orange-300' : 'text-gray-500 hover:text-white'"
+                          >
+                              <div class="w-1.5 h-1.5 rounded-full" :class="isShadowEnabled ? 'bg-orange-400 shadow-[0_0_8px_rgba(251,146,60,0.8)]' : 'bg-white/20'"></div>
+                              SHADOWS
+                          </button>
+                      </div>
+                      <div class="flex items-center gap-2 text-[8px] font-mono tracking-widest" :class="toneMapping === 'none' ? 'opacity-30' : ''" :title="toneMapping === 'none' ? 'Exposure applies through a tone mapping' : ''">
+                          <span class="text-gray-400">EXPOSURE</span>
+                          <input 
+                              type="range" 
+                              :min="-exposureStops" 
+                              :max="exposureStops" 
+                              step="0.1" 
+                              v-model.number="exposure"
+                              :disabled="toneMapping === 'none'"
+                              class="flex-1"
+                          />
+                          <span class="w-10 text-right text-gray-300">{{ exposure > 0 ? '+' : '' }}{{ exposure.toFixed(1) }} EV</span>
+                      </div>
+                  </div>
+
+                  <!-- Normal Hedgehogs -->
+                  <div class="w-full flex flex-col gap-1 px-3 py-2 pl-4 border-l-2 backdrop-blur-sm transition-all" :class="[showVertexNormals || showFaceNormals ? 'border-pink-400/60 bg-pink-900/10' : 'border-white/20', !currentModel ? 'opacity-30 grayscale' : '']">
+                      <span class="text-[9px] uppercase tracking-widest" :class="showVertexNormals || showFaceNormals ? 'text-pink-300' : 'text-gray-400'">NORMAL HEDGEHOG</span>
+                      <div class="flex gap-3">
+                          <button 
+                              @click="showVertexNormals = !showVertexNormals"
+                              :disabled="!currentModel"
+                              class="flex items-center gap-2 text-[8px] uppercase font-mono tracking-widest transition-colors"
+                              :class="showVertexNormals ? 'text-cyan-300' : 'text-gray-500 hover:text-white'"
+                          >
+                              <div class="w-1.5 h-1.5 rounded-full" :class="showVertexNormals ? 'bg-cyan-400 shadow-[0_0_8px_rgba(34,211,238,0.8)]' : 'bg-white/20'"></div>
+                              VERTEX
+                          </button>
+                          <button 
+                              @click="showFaceNormals = !showFaceNormals"
+                              :disabled="!currentModel"
+                              class="flex items-center gap-2 text-[8px] uppercase font-mono tracking-widest transition-colors"
+                              :class="showFaceNormals ? 'text-pink-300' : 'text-gray-500 hover:text-white'"
+                          >
+                              <div class="w-1.5 h-1.5 rounded-full" :class="showFaceNormals ? 'bg-pink-400 shadow-[0_0_8px_rgba(244,114,182,0.8)]' : 'bg-white/20'"></div>
+                              FACE
+                          </button>
+                      </div>
+                  </div>
+
+                  <!-- Section Planes -->
+                  <div class="w-full flex flex-col gap-1 px-3 py-2 pl-4 border-l-2 backdrop-blur-sm transition-all" :class="[sectionPlanes.length ? 'border-red-400/60 bg-red-900/10' : 'border-white/20', !canSection ? 'opacity-30 grayscale' : '']">
+                      <div class="flex justify-between items-end">
+                          <span class="text-[9px] uppercase tracking-widest" :class="sectionPlanes.length ? 'text-red-300' : 'text-gray-400'">SECTION PLANES</span>
+                          <button 
+                              @click="addSectionPlane"
+                              :disabled="!canSection || sectionPlanes.length >= maxSectionPlanes"
+                              class="px-2 py-0.5 border border-white/20 text-[9px] font-mono tracking-widest text-gray-400 transition-all"
+                              :class="canSection && sectionPlanes.length < maxSectionPlanes ? 'hover:border-red-400/50 hover:text-white cursor-pointer' : 'cursor-not-allowed'"
+                          >+ PLANE</button>
+                      </div>
+                      <div v-for="(plane, index) in sectionPlanes" :key="index" class="flex flex-col gap-1">
+                          <div class="flex items-center gap-2 text-[8px] uppercase font-mono tracking-widest">
+                              <button @click="plane.enabled = !plane.enabled" :disabled="!canSection" class="w-2 h-2 rounded-full border transition-opacity" :class="plane.enabled ? 'opacity-100' : 'opacity-30'" :style="{ backgroundColor: plane.enabled ? sectionColors[index] : 'transparent', borderColor: sectionColors[index] }" :title="plane.enabled ? 'Disable plane' : 'Enable plane'"></button>
+                              <button @click="cycleSectionAxis(index)" :disabled="!canSection" class="text-gray-300 hover:text-white transition-colors">AXIS {{ plane.axis.toUpperCase() }}</button>
+                              <button @click="plane.flipped = !plane.flipped" :disabled="!canSection" class="transition-colors" :class="plane.flipped ? 'text-red-300' : 'text-gray-500 hover:text-white'">FLIP</button>
+                              <input 
+                                  type="number" 
+                                  :min="-sectionOffsetRange" 
+                                  :max="sectionOffsetRange" 
+                                  step="1" 
+                                  :value="plane.offset" 
+                                  @change="setSectionOffset(index, Number($event.target.value))"
+                                  :disabled="!canSection"
+                                  class="w-14 bg-black/40 border border-white/10 px-1 text-right text-gray-300"
+                              />
+                              <button @click="removeSectionPlane(index)" class="ml-auto text-gray-500 hover:text-white transition-colors">✕</button>
+                          </div>
+                          <input 
+                              type="range" 
+                              :min="-sectionOffsetRange" 
+                              :max="sectionOffsetRange" 
+                              step="1" 
+                              :value="plane.offset" 
+                              @input="setSectionOffset(index, Number($event.target.value))"
+                              :disabled="!canSection"
+                              class="w-full"
+                          />
+                      </div>
+                  </div>
+
+                  <!-- Measurement -->
+                  <div class="w-full flex flex-col gap-0 backdrop-blur-sm border-l-2 transition-all" :class="[isMeasureOpen ? 'border-yellow-300/60 bg-yellow-900/10' : 'border-white/20', !currentModel ? 'opacity-30 grayscale' : '']">
+                      <button @click="toggleMeasure" :disabled="!currentModel" class="flex justify-between items-end px-3 py-2 pl-4 w-full text-left" :class="currentModel ? 'hover:bg-white/5 cursor-pointer' : 'cursor-not-allowed'">
+                          <span class="text-[9px] uppercase tracking-widest" :class="isMeasureOpen ? 'text-yellow-200' : 'text-gray-400'">MEASURE</span>
+                          <span class="text-[8px] font-mono text-gray-300">{{ isMeasureOpen ? '▾' : '▸' }}</span>
+                      </button>
+                      <div v-if="isMeasureOpen && currentModel" class="flex flex-col gap-1 px-3 pb-2 pl-4 animate-in slide-in-from-top-2 duration-300">
+                          <div class="flex gap-3">
+                              <button @click="cycleSourceUnit" class="flex items-center gap-1 text-[8px] uppercase font-mono tracking-widest text-gray-500 hover:text-white transition-colors">
+                                  <span>FILE //</span>
+                                  <span class="text-gray-300">{{ sourceUnit }}</span>
+                              </button>
+                              <button @click="cycleDisplayUnit" class="flex items-center gap-1 text-[8px] uppercase font-mono tracking-widest text-gray-500 hover:text-white transition-colors">
+                                  <span>SHOW //</span>
+                                  <span class="text-gray-300">{{ displayUnit }}</span>
+                              </button>
+                          </div>
+                          <div v-if="modelMeasurements" class="flex flex-col text-[8px] font-mono tracking-widest">
+                              <div class="flex justify-between gap-4"><span class="text-gray-500">BOUNDS</span><span class="text-gray-300">{{ modelMeasurements.size }}</span></div>
+                              <div class="flex justify-between gap-4"><span class="text-gray-500">AREA</span><span class="text-gray-300">{{ modelMeasurements.area }}</span></div>
+                              <div class="flex justify-between gap-4"><span class="text-gray-500">VOLUME</span><span :class="modelMeasurements.closed ? 'text-gray-300' : 'text-amber-300'">{{ modelMeasurements.closed ? '' : '≈ ' }}{{ modelMeasurements.volume }}</span></div>
+                              <span v-if="!modelMeasurements.closed" class="text-amber-300/70">OPEN SURFACE // VOLUME IS APPROXIMATE</span>
+                          </div>
+                          <div class="flex gap-1">
+                              <button 
+                                  v-for="tool in measureTools" 
+                                  :key="tool.id" 
+                                  @click="setMeasureTool(tool.id)"
+                                  class="px-2 py-0.5 border text-[9px] font-mono tracking-widest transition-all hover:text-white cursor-pointer"
+                                  :class="measureTool === tool.id ? 'border-yellow-300/60 text-yellow-200' : 'border-white/20 text-gray-400 hover:border-yellow-300/50'"
+                              >{{ tool.label }}</button>
+                          </div>
+                          <span class="text-[8px] font-mono tracking-widest" :class="isMeasureComplete ? 'text-yellow-200' : 'text-gray-500'">{{ measureReadout }}</span>
+                      </div>
+                  </div>
+
+                  <!-- Material Inspector -->
+                  <div class="w-full flex flex-col gap-0 backdrop-blur-sm border-l-2 transition-all" :class="[isMaterialOpen ? 'border-sky-300/60 bg-sky-900/10' : 'border-white/20', !editableMaterials.length ? 'opacity-30 grayscale' : '']">
+                      <button @click="toggleMaterialInspector" :disabled="!editableMaterials.length" class="flex justify-between items-end px-3 py-2 pl-4 w-full text-left" :class="editableMaterials.length ? 'hover:bg-white/5 cursor-pointer' : 'cursor-not-allowed'">
+                          <span class="text-[9px] uppercase tracking-widest" :class="isMaterialOpen ? 'text-sky-200' : 'text-gray-400'">MATERIAL</span>
+                          <span class="text-[8px] font-mono text-gray-300">{{ isMaterialOpen ? '▾' : '▸' }}</span>
+                      </button>
+                      <div v-if="isMaterialOpen && materialInspection" class="flex flex-col gap-1 px-3 pb-2 pl-4 max-h-96 overflow-y-auto animate-in slide-in-from-top-2 duration-300">
+                          <div class="flex gap-3">
+                              <button @click="cycleMaterial" class="flex items-center gap-1 text-[8px] uppercase font-mono tracking-widest text-gray-500 hover:text-white transition-colors min-w-0" :title="materialInspection.name">
+                                  <span>MAT {{ materialIndex + 1 }}/{{ editableMaterials.length }} //</span>
+                                  <span class="text-gray-300 truncate">{{ materialInspection.name }}</span>
+                              </button>
+                              <button @click="cycleAlphaMode" class="flex items-center gap-1 text-[8px] uppercase font-mono tracking-widest text-gray-500 hover:text-white transition-colors">
+                                  <span>ALPHA //</span>
+                                  <span class="text-gray-300">{{ materialInspection.alphaMode }}</span>
+                              </button>
+                          </div>
+                          <span class="text-[8px] font-mono tracking-widest text-gray-500">{{ materialInspection.type }} // {{ editableMaterials[materialIndex].meshCount }} MESH{{ editableMaterials[materialIndex].meshCount === 1 ? '' : 'ES' }}</span>
+                          <div v-for="group in materialInspection.groups" :key="group.id" class="flex flex-col gap-1">
+                              <span class="text-[8px] uppercase font-mono tracking-widest text-sky-300/80 mt-1">{{ group.label }}</span>
+                              <div class="grid grid-cols-3 gap-1">
+                                  <div 
+                                      v-for="slot in group.slots" 
+                                      :key="slot.id" 
+                                      @dragover="handleSlotDragOver"
+                                      @drop="handleSlotDrop(slot.id, $event)"
+                                      class="flex flex-col items-center gap-0.5" 
+                                      :title="(slot.size ? slot.label + ' // ' + slot.size : slot.label + ' // EMPTY') + ' // DROP A TEXTURE'"
+                                  >
+                                      <img v-if="slot.thumbnail" :src="slot.thumbnail" class="w-10 h-10 border border-white/20 object-cover" />
+                                      <div v-else class="w-10 h-10 border border-dashed flex items-center justify-center text-[8px] font-mono" :class="slot.size ? 'border-sky-300/40 text-sky-300/60' : 'border-white/10 text-gray-600'">{{ slot.size ? '?' : '—' }}</div>
+                                      <span class="text-[7px] font-mono tracking-widest text-center leading-tight" :class="slot.size ? 'text-gray-300' : 'text-gray-600'">{{ slot.label }}</span>
+                                  </div>
+                              </div>
+                              <div v-for="color in group.colors" :key="color.id" class="flex items-center gap-2 text-[8px] font-mono tracking-widest">
+                                  <span class="w-20 text-gray-400">{{ color.label }}</span>
+                                  <input type="color" :value="color.hex" @input="setMaterialColor(color.id, $event.target.value)" class="w-6 h-4 bg-transparent border-0 cursor-pointer" />
+                                  <span class="text-gray-300">{{ color.hex }}</span>
+                              </div>
+                              <div v-for="factor in group.factors" :key="factor.id" class="flex items-center gap-2 text-[8px] font-mono tracking-widest">
+                                  <span class="w-20 text-gray-400">{{ factor.label }}</span>
+                                  <input 
+                                      type="range" 
+                                      :min="factor.min" 
+                                      :max="factor.max" 
+                                      :step="factor.step" 
+                                      :value="factor.value"
+                                      @input="setMaterialFactor(factor.id, Number($event.target.value))"
+                                      class="flex-1"
+                                  />
+                                  <span class="w-8 text-right text-gray-300">{{ factor.value.toFixed(2) }}</span>
+                              </div>
+                          </div>
                       </div>
                   </div>
 
+                  <!-- Animation -->
+                  <div v-if="animationClips.length || morphTargets.length || isSkinned" class="w-full flex flex-col gap-1 px-3 py-2 pl-4 border-l-2 border-emerald-400/60 bg-emerald-900/10 backdrop-blur-sm animate-in slide-in-from-top-2 duration-300">
+                      <div class="flex justify-between items-end">
+                          <span class="text-[9px] uppercase tracking-widest text-emerald-300">ANIMATION</span>
+                          <span class="text-[8px] font-mono text-emerald-300">{{ animationClip === null ? 'REST POSE' : animationTime.toFixed(2) + ' / ' + animationDuration.toFixed(2) + 'S' }}</span>
+                      </div>
+                      <div v-if="animationClips.length" class="flex flex-col max-h-24 overflow-y-auto">
+                          <button 
+                              v-for="clip in animationClips" 
+                              :key="clip.index" 
+                              @click="selectAnimationClip(clip.index)"
+                              class="flex justify-between gap-4 text-[8px] font-mono tracking-widest text-left transition-colors"
+                              :class="animationClip === clip.index ? 'text-emerald-200' : 'text-gray-400 hover:text-white'"
+                          >
+                              <span class="truncate">{{ clip.name }}</span>
+                              <span class="text-gray-500">{{ clip.duration.toFixed(2) }}S</span>
+                          </button>
+                      </div>
+                      <div v-if="animationClip !== null" class="flex items-center gap-2">
+                          <button 
+                              @click="toggleAnimationPlaying"
+                              class="px-2 py-0.5 border text-[9px] font-mono tracking-widest transition-all border-emerald-400/60 text-emerald-200 hover:text-white"
+                          >{{ isAnimationPlaying ? 'PAUSE' : 'PLAY' }}</button>
+                          <input 
+                              type="range" 
+                              min="0" 
+                              :max="animationDuration" 
+                              step="0.01" 
+                              :value="animationTime"
+                              @input="scrubAnimation(Number($event.target.value))"
+                              class="flex-1"
+                          />
+                      </div>
+                      <div class="flex gap-3">
+                          <button v-if="animationClip !== null" @click="cycleAnimationSpeed" class="flex items-center gap-1 text-[8px] uppercase font-mono tracking-widest text-gray-500 hover:text-white transition-colors">
+                              <span>SPEED //</span>
+                              <span class="text-gray-300">{{ animationSpeed }}×</span>
+                          </button>
+                          <button 
+                              v-if="isSkinned"
+                              @click="showSkeleton = !showSkeleton"
+                              class="flex items-center gap-2 text-[8px] uppercase font-mono tracking-widest transition-colors"
+                              :class="showSkeleton ? 'text-emerald-300' : 'text-gray-500 hover:text-white'"
+                          >
+                              <div class="w-1.5 h-1.5 rounded-full" :class="showSkeleton ? 'bg-emerald-400 shadow-[0_0_8px_rgba(52,211,153,0.8)]' : 'bg-white/20'"></div>
+                              SKELETON
+                          </button>
+                      </div>
+                      <div v-if="morphTargets.length" class="flex flex-col gap-0.5 max-h-32 overflow-y-auto">
+                          <span class="text-[8px] uppercase font-mono tracking-widest text-gray-500">MORPH TARGETS</span>
+                          <div v-for="(target, i) in morphTargets" :key="i" class="flex items-center gap-2 text-[8px] font-mono tracking-widest">
+                              <span class="w-20 truncate text-gray-400" :title="target.name">{{ target.name }}</span>
+                              <input 
+                                  type="range" 
+                                  min="0" 
+                                  max="1" 
+                                  step="0.01" 
+                                  :value="morphWeights[i]"
+                                  @input="setMorphWeight(i, Number($event.target.value))"
+                                  class="flex-1"
+                              />
+                              <span class="w-6 text-right text-gray-300">{{ (morphWeights[i] ?? 0).toFixed(2) }}</span>
+                          </div>
+                      </div>
+                  </div>
+
+                  <!-- Point Budget -->
+                  <div v-if="renderMode === 'point'" class="w-full flex flex-col gap-1 px-3 py-2 pl-4 border-l-2 border-blue-400/60 bg-blue-900/10 backdrop-blur-sm animate-in slide-in-from-top-2 duration-300" :class="!currentModel ? 'opacity-30 grayscale' : ''">
+                      <div class="flex justify-between items-end">
+                          <span class="text-[9px] uppercase tracking-widest text-blue-300">POINT BUDGET</span>
+                          <span class="text-[8px] font-mono text-blue-300">{{ (pointBudget / 1000).toLocaleString() }}K PTS</span>
+                      </div>
+                      <input 
+                          type="range" 
+                          min="0" 
+                          :max="pointBudgetMax" 
+                          step="1" 
+                          v-model.lazy.number="pointBudgetStep"
+                          :disabled="!currentModel"
+                          class="w-full"
+                      />
+                      <button 
+                          @click="isPointTextureColor = !isPointTextureColor"
+                          :disabled="!currentModel"
+                          class="flex items-center gap-2 text-[8px] uppercase font-mono tracking-widest transition-colors"
+                          :class="isPointTextureColor ? 'text-blue-300' : 'text-gray-500 hover:text-white'"
+                      >
+                          <div class="w-1.5 h-1.5 rounded-full" :class="isPointTextureColor ? 'bg-blue-400 shadow-[0_0_8px_rgba(96,165,250,0.8)]' : 'bg-white/20'"></div>
+                          TEXTURE COLOR
+                      </button>
+                  </div>
+
+                  <!-- UV Quality -->
+                  <div v-if="renderMode === 'heatmap'" class="w-full flex flex-col gap-1 px-3 py-2 pl-4 border-l-2 border-amber-400/60 bg-amber-900/10 backdrop-blur-sm animate-in slide-in-from-top-2 duration-300" :class="!currentModel ? 'opacity-30 grayscale' : ''">
+                      <div class="flex justify-between items-end">
+                          <span class="text-[9px] uppercase tracking-widest text-amber-300">UV QUALITY</span>
+                          <button @click="cycleTextureResolution" class="text-[8px] font-mono text-amber-300 hover:text-white transition-colors">{{ textureResolution }}PX</button>
+                      </div>
+                      <div class="flex flex-wrap gap-1">
+                          <button 
+                              v-for="heatmap in uvHeatmaps" 
+                              :key="heatmap.id" 
+                              @click="uvHeatmap = heatmap.id"
+                              class="px-2 py-0.5 border text-[9px] font-mono tracking-widest transition-all"
+                              :class="uvHeatmap === heatmap.id ? 'border-amber-400/60 text-amber-200' : 'border-white/20 text-gray-400 hover:border-amber-400/50 hover:text-white'"
+                          >{{ heatmap.label }}</button>
+                      </div>
+                      <span class="text-[8px] font-mono tracking-widest text-gray-500">{{ uvAnalysis ? uvHeatmapLegend : 'NO UVS TO GRADE' }}</span>
+                      <div v-if="uvAnalysis" class="flex flex-col gap-0.5 text-[8px] font-mono tracking-widest text-gray-400">
+                          <div class="flex justify-between"><span>COVERAGE</span><span class="text-gray-300">{{ (uvAnalysis.summary.coverage * 100).toFixed(1) }}%</span></div>
+                          <div class="flex justify-between"><span>OVERLAP</span><span class="text-gray-300">{{ (uvAnalysis.summary.overlap * 100).toFixed(1) }}% // {{ uvAnalysis.summary.overlappingFaces.toLocaleString() }} F</span></div>
+                          <div class="flex justify-between"><span>AREA STRETCH</span><span class="text-gray-300">{{ Math.pow(2, uvAnalysis.summary.areaDistortion).toFixed(2) }}x</span></div>
+                          <div class="flex justify-between"><span>ANGLE STRETCH</span><span class="text-gray-300">{{ uvAnalysis.summary.angleDistortion.toFixed(2) }} : 1</span></div>
+                          <div class="flex justify-between"><span>OUT OF 0-1</span><span class="text-gray-300">{{ uvAnalysis.summary.outOfBoundsFaces.toLocaleString() }} F</span></div>
+                          <div class="flex justify-between"><span>TEXEL DENSITY</span><span class="text-gray-300">{{ uvAnalysis.summary.texelDensity.toFixed(1) }} PX/U // {{ uvAnalysis.summary.densitySpread.toFixed(1) }}x SPREAD</span></div>
+                      </div>
+                  </div>
+
+                  <!-- Particle Morph -->
+                  <div class="w-full flex flex-col gap-1 px-3 py-2 pl-4 border-l-2 border-white/20 backdrop-blur-sm">
+                      <div class="flex justify-between items-end">
+                          <span class="text-[9px] uppercase tracking-widest text-gray-400">PARTICLE MORPH</span>
+                          <span class="text-[8px] font-mono text-gray-300">{{ morphSpeed.toFixed(2) }}x</span>
+                      </div>
+                      <input 
+                          type="range" 
+                          min="0.25" 
+                          max="3" 
+                          step="0.25" 
+                          v-model.number="morphSpeed"
+                          class="w-full"
+                      />
+                      <button @click="cycleMorphEasing" class="flex items-center gap-2 text-[8px] uppercase font-mono tracking-widest text-gray-500 hover:text-white transition-colors">
+                          <span>EASING //</span>
+                          <span class="text-gray-300">{{ morphEasingLabel }}</span>
+                      </button>
+                  </div>
+
                   <!-- Benchmark Button & Wrapper -->
                   <div class="relative w-full">
                       <button 
@@ -561,6 +1693,14 @@ export default defineComponent({
                                   <span class="text-5xl font-['Playfair_Display'] italic leading-none" :class="benchmarkResult.score >= 80 ? 'text-emerald-400' : (benchmarkResult.score >= 50 ? 'text-amber-400' : 'text-red-400')">{{ animatedScore }}</span>
                                   <div class="flex flex-col">
                                       <span class="text-[10px] font-bold font-mono px-2 py-0.5 border" :class="benchmarkResult.score >= 80 ? 'border-emerald-500/30 text-emerald-400 bg-emerald-900/20' : (benchmarkResult.score >= 50 ? 'border-amber-500/30 text-amber-400 bg-amber-900/20' : 'border-red-500/30 text-red-400 bg-red-900/20')">Rank {{ benchmarkResult.grade }}</span>
+                                      <span v-if="benchmarkResult.source !== 'ai'" class="mt-1 text-[8px] font-mono px-2 py-0.5 border border-white/20 text-gray-400 text-center">LOCAL ONLY</span>
+                                  </div>
+                              </div>
+                              <div class="space-y-1.5 mb-4">
+                                  <div v-for="criterion in benchmarkResult.criteria" :key="criterion.id" class="flex items-center gap-2 text-[9px] font-mono">
+                                      <span class="w-24 uppercase tracking-widest text-gray-500 truncate">{{ criterion.label }}</span>
+                                      <div class="flex-1 h-[2px] bg-white/10"><div class="h-full" :class="criterion.score >= 80 ? 'bg-emerald-400' : (criterion.score >= 50 ? 'bg-amber-400' : 'bg-red-400')" :style="{ width: criterion.score + '%' }"></div></div>
+                                      <span class="w-20 text-right text-gray-400 truncate">{{ criterion.measured }}</span>
                                   </div>
                               </div>
                               <div class="space-y-4">
@@ -574,12 +1714,184 @@ export default defineComponent({
                                   </div>
                               </div>
                               <div class="mt-6 pt-2 border-t border-white/5 flex justify-between items-center opacity-30">
-                                  <span class="text-[8px] uppercase tracking-widest">System v3.0</span>
+                                  <span class="text-[8px] uppercase tracking-widest">{{ benchmarkResult.source === 'ai' ? 'AI PROSE // ' + benchmarkResult.provider : (benchmarkResult.source === 'fixture' ? 'FIXTURE PROSE // NO AI CONSULTED' : 'LOCAL ANALYZER // NO AI CONSULTED') }}</span>
                                   <span class="text-[8px] font-mono">ID: {{ Math.floor(Math.random() * 9000) + 1000 }}</span>
                               </div>
                           </div>
                       </div>
                   </div>
+
+                  <!-- Topology Button & Report -->
+                  <div class="relative w-full">
+                      <button 
+                          @click="runTopologyCheck"
+                          :disabled="!currentModel"
+                          class="flex items-center gap-3 px-3 py-2 border-l-2 transition-all pl-4 group backdrop-blur-sm w-full"
+                          :class="[
+                              topologySummary ? 'border-rose-400/60 bg-rose-900/10' : 'border-white/20',
+                              !currentModel ? 'opacity-30 cursor-not-allowed' : 'hover:bg-white/5 cursor-pointer hover:border-rose-500/50'
+                          ]"
+                      >
+                          <div class="flex flex-col items-start gap-1">
+                              <span class="text-[9px] uppercase tracking-widest transition-colors text-gray-400 group-hover:text-rose-300">
+                                  TOPOLOGY
+                              </span>
+                              <div class="flex items-center gap-2">
+                                  <div class="w-1.5 h-1.5 rounded-full transition-all duration-300" :class="topologySummary ? (topologySummary.total ? 'bg-rose-400' : 'bg-emerald-400') : 'bg-white/10'"></div>
+                                  <span class="text-[10px] font-bold tracking-widest transition-colors text-gray-600 group-hover:text-white">
+                                      {{ topologySummary ? (topologySummary.total ? topologySummary.total.toLocaleString() + ' ISSUES' : 'CLEAN') : 'VALIDATE' }}
+                                  </span>
+                              </div>
+                          </div>
+                      </button>
+
+                      <!-- Topology Report Panel: sits beside the benchmark panel when both are open -->
+                      <div v-if="topologySummary" class="absolute left-full top-0 z-50 w-72 pointer-events-auto" :class="benchmarkResult && !isBenchmarking ? 'ml-[20.5rem]' : 'ml-6'">
+                          <div class="bg-[#050505]/90 backdrop-blur-xl border border-white/20 p-5 shadow-[0_0_30px_rgba(255,255,255,0.05)] relative overflow-hidden animate-in slide-in-from-left-4 fade-in duration-500">
+                              <div class="flex justify-between items-start mb-3">
+                                  <span class="text-[9px] uppercase tracking-widest text-rose-400/80">Topology //</span>
+                                  <button @click="topologyReport = null" class="text-gray-500 hover:text-white transition-colors">✕</button>
+                              </div>
+                              <div class="text-[9px] font-mono text-gray-500 mb-4 border-b border-white/10 pb-3">
+                                  {{ topologySummary.vertices.toLocaleString() }} VERTS // {{ topologySummary.triangles.toLocaleString() }} TRIS // {{ topologySummary.islands }} {{ topologySummary.islands === 1 ? 'ISLAND' : 'ISLANDS' }}
+                              </div>
+                              <div class="space-y-1">
+                                  <div v-for="row in topologySummary.rows" :key="row.id">
+                                      <div class="flex items-center gap-2 text-[9px] font-mono">
+                                          <button @click="toggleTopologyLayer(row.id)" class="w-2 h-2 rounded-full border transition-opacity" :class="row.visible ? 'opacity-100' : 'opacity-30'" :style="{ backgroundColor: row.visible ? row.color : 'transparent', borderColor: row.color }" :title="row.visible ? 'Hide overlay' : 'Show overlay'"></button>
+                                          <button 
+                                              @click="toggleTopologyList(row.id)"
+                                              :disabled="!row.count"
+                                              class="flex-1 flex justify-between uppercase tracking-widest text-left transition-colors"
+                                              :class="row.count ? 'text-gray-300 hover:text-white' : 'text-gray-600 cursor-default'"
+                                          >
+                                              <span>{{ row.label }}</span>
+                                              <span :class="row.count ? 'text-rose-300' : ''">{{ row.count.toLocaleString() }}</span>
+                                          </button>
+                                      </div>
+                                      <div v-if="expandedTopologyIssue === row.id" class="ml-4 mt-1 mb-2 max-h-40 overflow-y-auto border-l border-white/10 pl-2 space-y-0.5">
+                                          <button 
+                                              v-for="(entry, i) in topologyEntries" 
+                                              :key="i" 
+                                              @click="focusTopologyIssue(entry)"
+                                              class="block w-full text-left text-[8px] font-mono tracking-widest text-gray-500 hover:text-white transition-colors"
+                                          >> {{ entry.label }}</button>
+                                          <span v-if="row.count > topologyListLimit" class="block text-[8px] font-mono text-gray-600">+{{ (row.count - topologyListLimit).toLocaleString() }} MORE</span>
+                                      </div>
+                                  </div>
+                              </div>
+                              <div class="mt-4 pt-2 border-t border-white/5 opacity-30">
+                                  <span class="text-[8px] uppercase tracking-widest">CLICK A FINDING TO FOCUS // DOT TOGGLES OVERLAY</span>
+                              </div>
+                          </div>
+                      </div>
+                  </div>
+
+                  <!-- Mesh Repair -->
+                  <div class="w-full flex flex-col gap-1 px-3 py-2 pl-4 border-l-2 border-white/20 backdrop-blur-sm" :class="!canRepair ? 'opacity-30 grayscale' : ''">
+                      <span class="text-[9px] uppercase tracking-widest text-gray-400">REPAIR</span>
+                      <span v-if="canRepair && flattenWarning" class="text-[8px] font-mono tracking-widest text-amber-300/70">{{ flattenWarning }}</span>
+                      <div class="flex flex-wrap gap-1">
+                          <button 
+                              v-for="op in repairOperations" 
+                              :key="op.id" 
+                              @click="applyRepair(op.id)"
+                              :disabled="!canRepair"
+                              class="px-2 py-0.5 border border-white/20 text-[9px] font-mono tracking-widest text-gray-400 transition-all"
+                              :class="canRepair ? 'hover:border-rose-400/50 hover:text-white cursor-pointer' : 'cursor-not-allowed'"
+                          >{{ op.label }}</button>
+                      </div>
+                      <div class="flex gap-3">
+                          <button @click="cycleWeldTolerance" :disabled="!canRepair" class="flex items-center gap-1 text-[8px] uppercase font-mono tracking-widest text-gray-500 hover:text-white transition-colors">
+                              <span>WELD //</span>
+                              <span class="text-gray-300">{{ weldTolerance }}</span>
+                          </button>
+                          <button @click="cycleHoleSize" :disabled="!canRepair" class="flex items-center gap-1 text-[8px] uppercase font-mono tracking-widest text-gray-500 hover:text-white transition-colors">
+                              <span>HOLES ≤</span>
+                              <span class="text-gray-300">{{ holeSize }} EDGES</span>
+                          </button>
+                      </div>
+                      <div v-for="(entry, i) in repairLog" :key="repairLog.length - i" class="flex justify-between text-[8px] font-mono tracking-widest" :class="i === 0 ? 'text-rose-200/80' : 'text-gray-600'">
+                          <span>{{ entry.label }}</span>
+                          <span>{{ entry.before.vertices.toLocaleString() }} → {{ entry.after.vertices.toLocaleString() }} V // {{ entry.before.faces.toLocaleString() }} → {{ entry.after.faces.toLocaleString() }} F</span>
+                      </div>
+                  </div>
+
+                  <!-- UV Unwrap -->
+                  <div class="w-full flex flex-col gap-1 px-3 py-2 pl-4 border-l-2 border-white/20 backdrop-blur-sm" :class="!canRepair ? 'opacity-30 grayscale' : ''">
+                      <div class="flex justify-between items-end">
+                          <span class="text-[9px] uppercase tracking-widest text-gray-400">UV UNWRAP</span>
+                          <span class="text-[8px] font-mono text-gray-300">{{ !canRepair ? '' : (unwrapProjection ? 'GENERATED' : (customMesh && customMesh.uvs ? 'AUTHORED' : 'NONE // AUTO CHARTS')) }}</span>
+                      </div>
+                      <span v-if="canRepair && flattenWarning" class="text-[8px] font-mono tracking-widest text-amber-300/70">{{ flattenWarning }}</span>
+                      <div class="flex flex-wrap gap-1">
+                          <button 
+                              v-for="projection in uvProjections" 
+                              :key="projection.id" 
+                              @click="applyUnwrap(projection.id)"
+                              :disabled="!canRepair"
+                              class="px-2 py-0.5 border text-[9px] font-mono tracking-widest transition-all"
+                              :class="[
+                                  unwrapProjection === projection.id ? 'border-rose-400/60 text-rose-200' : 'border-white/20 text-gray-400',
+                                  canRepair ? 'hover:border-rose-400/50 hover:text-white cursor-pointer' : 'cursor-not-allowed'
+                              ]"
+                          >{{ projection.label }}</button>
+                      </div>
+                  </div>
+
+                  <!-- Decimation & LOD -->
+                  <div class="w-full flex flex-col gap-1 px-3 py-2 pl-4 border-l-2 border-white/20 backdrop-blur-sm" :class="!canRepair ? 'opacity-30 grayscale' : ''">
+                      <div class="flex justify-between items-end">
+                          <span class="text-[9px] uppercase tracking-widest text-gray-400">DECIMATE</span>
+                          <span class="text-[8px] font-mono text-gray-300">{{ Math.round(lodRatio * 100) }}% PER LEVEL</span>
+                      </div>
+                      <span v-if="canRepair && flattenWarning" class="text-[8px] font-mono tracking-widest text-amber-300/70">{{ flattenWarning }}</span>
+                      <input 
+                          type="range" 
+                          :min="lodRatioRange.min" 
+                          :max="lodRatioRange.max" 
+                          :step="lodRatioRange.step" 
+                          v-model.number="lodRatio"
+                          :disabled="!canRepair"
+                          class="w-full"
+                      />
+                      <button 
+                          @click="buildLods"
+                          :disabled="!canRepair"
+                          class="px-2 py-0.5 border border-white/20 text-[9px] font-mono tracking-widest text-gray-400 transition-all self-start"
+                          :class="canRepair ? 'hover:border-rose-400/50 hover:text-white cursor-pointer' : 'cursor-not-allowed'"
+                      >{{ lodChain ? 'REBUILD LODS' : 'BUILD LODS' }}</button>
+                      <button 
+                          v-for="lod in (lodChain || [])" 
+                          :key="lod.level" 
+                          @click="selectLod(lod.level)"
+                          class="flex justify-between text-[8px] font-mono tracking-widest transition-colors"
+                          :class="activeLod === lod.level ? 'text-rose-200/80' : 'text-gray-600 hover:text-white'"
+                      >
+                          <span>{{ activeLod === lod.level ? '▸ ' : '' }}LOD{{ lod.level }}</span>
+                          <span>{{ lod.triangles.toLocaleString() }} TRIS // ERR {{ lod.error.toFixed(3) }}</span>
+                      </button>
+                  </div>
+
+                  <!-- Export Formats -->
+                  <div class="w-full flex flex-col gap-1 px-3 py-2 pl-4 border-l-2 border-white/20 backdrop-blur-sm" :class="!currentModel ? 'opacity-30 grayscale' : ''">
+                      <span class="text-[9px] uppercase tracking-widest text-gray-400">
+                          {{ exportingFormat ? 'EXPORTING ' + exportingFormat.toUpperCase() + '...' : 'EXPORT' }}
+                      </span>
+                      <div class="flex gap-1">
+                          <button 
+                              v-for="format in exportFormats" 
+                              :key="format.id" 
+                              @click="exportCurrentModel(format.id)"
+                              :disabled="!currentModel || !!exportingFormat"
+                              class="px-2 py-0.5 border text-[9px] font-mono tracking-widest transition-all"
+                              :class="[
+                                  exportingFormat === format.id ? 'border-emerald-400 text-emerald-300 bg-emerald-900/10 cursor-wait' : 'border-white/20 text-gray-400',
+                                  (!currentModel || exportingFormat) ? 'cursor-not-allowed' : 'hover:border-emerald-400/50 hover:text-white cursor-pointer'
+                              ]"
+                          >{{ format.label }}</button>
+                      </div>
+                  </div>
             </div>
 
           </div>
@@ -588,7 +1900,7 @@ export default defineComponent({
           <div class="text-right hidden md:block opacity-50">
             <p class="text-[9px] font-mono tracking-widest">FPS: UNLOCKED</p>
             <p class="text-[9px] font-mono tracking-widest uppercase">
-                {{ step === 0 ? 'MODE: IDLE' : (isUVMode ? 'MODE: 2D UV MAP' : 'MODE: ' + renderMode) }}
+                {{ step === 0 ? 'MODE: IDLE' : (isUVMode ? 'MODE: 2D UV MAP' : 'MODE: ' + renderModes.find((m) => m.id === renderMode)?.label) }}
             </p>
             <p v-if="step === 1 && isNormalMapEnabled" class="text-[9px] font-mono tracking-widest uppercase text-cyan-400/80">
                 >> NORMAL BUMP ACTIVE: {{ normalIntensity.toFixed(1) }}
@@ -641,9 +1953,9 @@ export default defineComponent({
                  </button>
                  <div class="w-12 flex justify-center opacity-10 py-1"><div class="w-2 h-[1px] bg-white"></div></div>
                  <button @click="setModel('custom')" class="w-12 h-12 border border-yellow-500/80 text-yellow-500 flex items-center justify-center transition-all duration-300 relative group backdrop-blur-sm hover:bg-yellow-500/10 hover:shadow-[0_0_15px_rgba(255,215,0,0.3)]">
-                    <svg v-if="!isProcessingGLB" xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="17 8 12 3 7 8"/><line x1="12" y1="3" x2="12" y2="15"/></svg>
+                    <svg v-if="!isProcessingModel" xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="17 8 12 3 7 8"/><line x1="12" y1="3" x2="12" y2="15"/></svg>
                     <div v-else class="w-4 h-4 border-2 border-yellow-500/30 border-t-yellow-500 rounded-full animate-spin"></div>
-                    <span class="absolute left-full ml-4 text-[9px] uppercase tracking-widest transition-all duration-300 whitespace-nowrap text-yellow-500 font-bold opacity-0 group-hover:opacity-100">IMPORT_GLB</span>
+                    <span class="absolute left-full ml-4 text-[9px] uppercase tracking-widest transition-all duration-300 whitespace-nowrap text-yellow-500 font-bold opacity-0 group-hover:opacity-100">IMPORT_MODEL</span>
                  </button>
               </div>
               <div class="w-12 flex justify-center opacity-20"><div class="w-6 h-[1px] bg-white"></div></div>
@@ -670,10 +1982,45 @@ export default defineComponent({
               </div>
            </div>
 
-           <!-- Zoom Hint -->
-           <div class="absolute right-0 top-1/2 -translate-y-1/2 pointer-events-none opacity-30 animate-in fade-in">
-              <div class="flex items-center gap-4">
-                 <span class="text-[9px] vertical-text font-mono tracking-widest">SCROLL_ZOOM</span>
+           <!-- Import Progress -->
+           <div v-if="isProcessingModel" class="absolute bottom-12 left-1/2 -translate-x-1/2 w-72 pointer-events-auto animate-in fade-in duration-300">
+              <div class="bg-[#050505]/80 backdrop-blur-xl border border-yellow-500/30 px-4 py-3">
+                 <div class="flex justify-between items-center mb-2">
+                    <span class="text-[9px] uppercase tracking-widest font-mono text-yellow-500">{{ importStatus.label }}</span>
+                    <span class="text-[9px] font-mono text-gray-400">{{ importStatus.percent }}%</span>
+                 </div>
+                 <div class="h-[2px] bg-white/10 mb-2"><div class="h-full bg-yellow-500 transition-all duration-200" :style="{ width: importStatus.percent + '%' }"></div></div>
+                 <div class="flex justify-between items-center">
+                    <span class="text-[8px] font-mono text-gray-500">{{ importStatus.bytes }}</span>
+                    <button @click="cancelImport" class="text-[9px] font-mono tracking-widest text-gray-400 hover:text-red-400 transition-colors">✕ CANCEL</button>
+                 </div>
+              </div>
+           </div>
+
+           <!-- Missing Resources -->
+           <div v-if="missingResources.length && !isProcessingModel" class="absolute bottom-12 left-1/2 -translate-x-1/2 w-72 pointer-events-auto animate-in fade-in duration-300">
+              <div class="bg-[#050505]/80 backdrop-blur-xl border border-red-500/30 px-4 py-3">
+                 <div class="flex justify-between items-center mb-2">
+                    <span class="text-[9px] uppercase tracking-widest font-mono text-red-400">MISSING // {{ missingResources.length }}</span>
+                    <button @click="missingResources = []" class="text-[9px] font-mono tracking-widest text-gray-400 hover:text-white transition-colors">✕</button>
+                 </div>
+                 <div class="max-h-24 overflow-y-auto space-y-0.5">
+                    <div v-for="name in missingResources" :key="name" class="text-[9px] font-mono text-gray-400 truncate" :title="name">{{ name }}</div>
+                 </div>
+                 <p class="text-[8px] font-mono text-gray-600 mt-2">DROP THE MODEL'S FOLDER TO INCLUDE THEM</p>
+              </div>
+           </div>
+
+           <!-- Navigation Hint -->
+           <div class="absolute right-0 top-1/2 -translate-y-1/2 flex flex-col items-end gap-3 animate-in fade-in">
+              <button @click="frameView" :disabled="!currentModel" class="pointer-events-auto px-3 py-1.5 border text-[9px] font-mono tracking-widest backdrop-blur-sm transition-all" :class="currentModel ? 'border-white/30 text-gray-300 hover:bg-white/10 hover:text-white cursor-pointer' : 'border-white/10 text-gray-600 cursor-not-allowed'">⌖ FRAME [F]</button>
+              <div class="flex items-center gap-4 pointer-events-none opacity-30">
+                 <div class="text-[9px] font-mono tracking-widest text-right space-y-1">
+                    <p>DRAG_ORBIT</p>
+                    <p>RMB_PAN</p>
+                    <p>SCROLL_DOLLY</p>
+                    <p>DBLCLICK_FOCUS</p>
+                 </div>
                  <div class="w-[1px] h-12 bg-white"></div>
               </div>
            </div>
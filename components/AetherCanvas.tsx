@@ -1,47 +1,110 @@
 
 import { defineComponent, h, ref, onMounted, onUnmounted, watch } from 'vue';
 import * as THREE from 'three';
-import { CustomMeshBuffer, CustomMeshUVs } from '../types';
+import { TransformControls } from 'three/addons/controls/TransformControls.js';
+import { geometryToMeshBuffer, meshBufferToGeometry } from '../services/meshBuffer';
+import { createPrimitiveGeometry, isPrimitiveModel } from '../services/primitiveGeometry';
+import { createCameraNavigation, CameraNavigation, HOME_POSITION } from '../services/cameraNavigation';
+import { sampleSurface, getSurfaceArea, distributeBudget, DEFAULT_POINT_BUDGET } from '../services/surfaceSampler';
+import { createParticleField, createParticleMorph, ParticleMorph } from '../services/particleMorph';
+import { createFluidCursor } from '../services/fluidField';
+import { createFluidSimulation, FluidSimulation } from '../services/fluidSimulation';
+import { getLooseIslandFaces, TOPOLOGY_ISSUES, TopologyIssueKind } from '../services/topologyValidator';
+import { cornerIndex } from '../services/meshBuffer';
+import { generateUVs, DEFAULT_UV_PROJECTION } from '../services/uvUnwrap';
+import { getUvHeat, UvHeatmapKind } from '../services/uvAnalyzer';
+import { getSectionEquation, sliceTriangles, MAX_SECTION_PLANES, SECTION_COLORS } from '../services/sectionPlanes';
+import { listMorphTargets, getMorphDrivenNodes } from '../services/sceneAnimation';
+import type { SurfaceAnchors } from '../services/surfaceSampler';
+import { applyPbrChannels, isPbrMaterial } from '../services/pbrMaterial';
+import { createLightingRig, fitShadowCameras, LightingRig, TONE_MAPPINGS } from '../services/lightingRig';
+import { detectTextureSupport, disposeTextureSupport } from '../services/textureFiles';
+import { CustomMeshBuffer, SectionPlane, TopologyReport, UvAnalysis } from '../types';
 
 export default defineComponent({
   name: 'AetherCanvas',
-  props: ['mode', 'model', 'customMesh', 'customUVs', 'uvMode', 'renderMode', 'customTexture', 'customNormalMap', 'useNormalMap', 'normalScale'],
-  setup(props) {
+  props: ['mode', 'model', 'customScene', 'customMesh', 'uvMode', 'renderMode', 'customMaterial', 'useNormalMap', 'normalScale', 'normalConvention', 'pointBudget', 'pointTextureColor', 'morphSpeed', 'morphEasing', 'topologyReport', 'topologyLayers', 'uvAnalysis', 'uvHeatmap', 'showVertexNormals', 'showFaceNormals', 'sectionPlanes', 'measureTool', 'measurePoints', 'animationClip', 'animationPlaying', 'animationSpeed', 'showSkeleton', 'morphWeights', 'materialRevision', 'lightingPreset', 'environmentMap', 'toneMapping', 'exposure', 'showEnvironmentBackground', 'shadows'],
+  emits: ['sectionPlaneMove', 'measurePick', 'animationTime'],
+  setup(props, { expose, emit }) {
     const canvasContainer = ref<HTMLDivElement | null>(null);
     
     // Three.js instances
     let renderer: THREE.WebGLRenderer | null = null;
     let scene: THREE.Scene | null = null;
     let camera: THREE.PerspectiveCamera | null = null;
+    let navigation: CameraNavigation | null = null;
     let animationId: number | null = null;
     let time = 0;
+    const clock = new THREE.Clock();
+    const raycaster = new THREE.Raycaster();
+    raycaster.params.Points.threshold = 3;
 
     // Objects
     let chaosParticles: THREE.Points | null = null;
+    let particleMorph: ParticleMorph | null = null;
+    let fluid: FluidSimulation | null = null;
+    // True while the fluid, not the morph, owns the particle state
+    let fluidActive = false;
+    const fluidCursor = createFluidCursor();
     let axisGroup: THREE.Group | null = null;
     let currentObject: THREE.Object3D | null = null; 
+    let topologyOverlay: THREE.Group | null = null;
+    let normalsOverlay: THREE.Group | null = null;
+    let sectionOverlay: THREE.Group | null = null;
+    let measureOverlay: THREE.Group | null = null;
+
+    // Animation of the imported scene, bound to the mirrored tree on screen
+    let mixer: THREE.AnimationMixer | null = null;
+    let activeAction: THREE.AnimationAction | null = null;
+    let skeletonHelper: THREE.SkeletonHelper | null = null;
+    // Source node → its renderable, for the current imported scene
+    let renderSources = new Map<THREE.Object3D, THREE.Object3D>();
+    // Sampled clouds re-placed from a hidden copy of the deforming mesh they came from
+    let animatedPoints: Array<{ points: THREE.Points; driver: THREE.Mesh; vertices: Uint32Array; deformed: Float32Array }> = [];
+    let isPoseDirty = false;
+    let clipTime = 0; // Where the clip resumes after a rebuild or the UV layout
+    let clipScene: unknown = null; // The import clipTime belongs to
+    let lastTimeEmit = 0;
+    // Clipping planes of the current object's materials, refilled in place as sections change
+    const clipPlanes: THREE.Plane[] = [];
+    // One translate gizmo per plane slot, kept across rebuilds so a drag survives them
+    const sectionHandles: Array<{ controls: TransformControls; anchor: THREE.Object3D }> = [];
+    // World-space bounds of the current object, for the depth range and hedgehog length
+    const modelBounds = new THREE.Sphere();
+    const modelBox = new THREE.Box3();
 
     // Lights
-    let ambientLight: THREE.AmbientLight | null = null;
-    let dirLight: THREE.DirectionalLight | null = null;
-    let pointLight: THREE.PointLight | null = null;
+    let lightingRig: LightingRig | null = null;
+    let shadowCatcher: THREE.Mesh | null = null;
+
+    // Root transform of the current object; the UV morph flattens into its local space
+    const rootMatrixUniform = { value: new THREE.Matrix4() };
 
     // Shader Uniforms (Points)
     const pointUniforms = {
         uTime: { value: 0 },
         uMix: { value: 0 }, 
         uColor: { value: new THREE.Color(0xeeeeff) },
-        uPointSize: { value: 1.5 }
+        uPointSize: { value: 1.5 },
+        uRootMatrix: rootMatrixUniform
     };
 
     // Shader Uniforms (Surface)
     const surfaceUniforms = {
-        uMix: { value: 0 }
+        uMix: { value: 0 },
+        uRootMatrix: rootMatrixUniform
+    };
+
+    // Shader Uniforms (Depth): view distances mapped to white and black, kept around the model
+    const depthUniforms = {
+        uDepthNear: { value: 1 },
+        uDepthFar: { value: 1000 }
     };
 
     // Texture Cache
     let uvGridTexture: THREE.Texture | null = null;
     let proceduralNormalMap: THREE.Texture | null = null;
+    let matcapTexture: THREE.Texture | null = null;
 
     const getUVGridTexture = () => {
         if (uvGridTexture) return uvGridTexture;
@@ -177,9 +240,40 @@ export default defineComponent({
         return proceduralNormalMap;
     };
 
+    // Soft clay sphere lit from the upper left
+    const getMatcapTexture = () => {
+        if (matcapTexture) return matcapTexture;
+
+        const size = 256;
+        const canvas = document.createElement('canvas');
+        canvas.width = size;
+        canvas.height = size;
+        const ctx = canvas.getContext('2d');
+        if (ctx) {
+            ctx.fillStyle = '#1a1a1a';
+            ctx.fillRect(0, 0, size, size);
+            const gradient = ctx.createRadialGradient(size * 0.38, size * 0.32, size * 0.02, size / 2, size / 2, size / 2);
+            gradient.addColorStop(0, '#f4f1ec');
+            gradient.addColorStop(0.45, '#a39e96');
+            gradient.addColorStop(0.85, '#3b3935');
+            gradient.addColorStop(1, '#55524d');
+            ctx.fillStyle = gradient;
+            ctx.beginPath();
+            ctx.arc(size / 2, size / 2, size / 2, 0, Math.PI * 2);
+            ctx.fill();
+        }
+
+        matcapTexture = new THREE.CanvasTexture(canvas);
+        matcapTexture.colorSpace = THREE.SRGBColorSpace;
+        return matcapTexture;
+    };
+
     // State
+    // 'attract' mode (intro) drives the view from mouse parallax; the lab uses orbit navigation
     const mouse = { x: 0, y: 0, targetX: 0, targetY: 0 };
-    let zoom = 1;
+    // Pointer in normalized device coordinates; null until the mouse first moves
+    let pointerNdc: THREE.Vector2 | null = null;
+    const isAttractMode = () => props.mode === 'chaos';
 
     // --- SETUP FUNCTIONS (unchanged) ---
 
@@ -194,38 +288,46 @@ export default defineComponent({
         const width = window.innerWidth;
         const height = window.innerHeight;
         camera = new THREE.PerspectiveCamera(60, width / height, 1, 3000);
-        camera.position.z = 800;
+        camera.position.copy(HOME_POSITION);
         camera.lookAt(0, 0, 0);
 
         // Renderer
         renderer = new THREE.WebGLRenderer({ 
             alpha: true, 
             antialias: true, 
-            powerPreference: 'high-performance' 
+            powerPreference: 'high-performance',
+            stencil: true // Section caps are masked by the stencil buffer
         });
+        renderer.localClippingEnabled = true;
         renderer.setSize(width, height);
         renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
         canvasContainer.value.appendChild(renderer.domElement);
+        detectTextureSupport(renderer);
 
-        // Lights
-        ambientLight = new THREE.AmbientLight(0xffffff, 0.4); 
-        scene.add(ambientLight);
-
-        dirLight = new THREE.DirectionalLight(0xffffff, 1.5);
-        dirLight.position.set(200, 500, 500);
-        scene.add(dirLight);
+        navigation = createCameraNavigation(camera, renderer.domElement);
+        navigation.setEnabled(!isAttractMode());
 
-        pointLight = new THREE.PointLight(0xaaccff, 1, 1000); 
-        pointLight.position.set(-200, 100, 200);
-        scene.add(pointLight);
+        // Lights, plus a ground that only shows the shadows they cast
+        renderer.shadowMap.type = THREE.PCFShadowMap;
+        shadowCatcher = new THREE.Mesh(new THREE.PlaneGeometry(1, 1), new THREE.ShadowMaterial({ opacity: 0.35 }));
+        shadowCatcher.rotation.x = -Math.PI / 2;
+        shadowCatcher.receiveShadow = true;
+        scene.add(shadowCatcher);
+        updateLighting();
+        updateToneMapping();
+        updateShadows();
 
         // Events
         window.addEventListener('resize', handleResize);
         window.addEventListener('mousemove', handleMouseMove);
-        window.addEventListener('wheel', handleWheel);
+        window.addEventListener('keydown', handleKeyDown);
+        renderer.domElement.addEventListener('dblclick', handleDoubleClick);
+        renderer.domElement.addEventListener('pointerdown', handlePointerDown);
+        renderer.domElement.addEventListener('click', handleClick);
 
         createChaosParticles();
         createAxisSystem();
+        createSectionHandles();
         updateVisibility();
         animate();
     };
@@ -242,12 +344,54 @@ export default defineComponent({
     const handleMouseMove = (e: MouseEvent) => {
         mouse.targetX = (e.clientX - window.innerWidth / 2) * 0.5;
         mouse.targetY = (e.clientY - window.innerHeight / 2) * 0.5;
+        pointerNdc = (pointerNdc ?? new THREE.Vector2()).set(
+            (e.clientX / window.innerWidth) * 2 - 1,
+            -(e.clientY / window.innerHeight) * 2 + 1
+        );
+    };
+
+    // Double-click a surface to orbit around that point
+    const handleDoubleClick = (e: MouseEvent) => {
+        if (isAttractMode() || !camera || !navigation || !currentObject || !renderer) return;
+        const rect = renderer.domElement.getBoundingClientRect();
+        const ndc = new THREE.Vector2(
+            ((e.clientX - rect.left) / rect.width) * 2 - 1,
+            -((e.clientY - rect.top) / rect.height) * 2 + 1
+        );
+        raycaster.setFromCamera(ndc, camera);
+        const hit = raycaster.intersectObject(currentObject, true)[0];
+        if (hit) navigation.focusAt(hit.point);
     };
 
-    const handleWheel = (e: WheelEvent) => {
-        if (props.mode === 'chaos') return;
-        zoom += e.deltaY * 0.001;
-        zoom = Math.max(0.2, Math.min(zoom, 5.0));
+    // A click that did not drag the view picks a measurement point on the visible surface
+    const pointerDownAt = new THREE.Vector2();
+    const handlePointerDown = (e: PointerEvent) => pointerDownAt.set(e.clientX, e.clientY);
+
+    const handleClick = (e: MouseEvent) => {
+        if (!props.measureTool || isAttractMode() || props.uvMode || !camera || !scene || !currentObject || !renderer) return;
+        if (pointerDownAt.distanceTo(new THREE.Vector2(e.clientX, e.clientY)) > 4) return;
+        const rect = renderer.domElement.getBoundingClientRect();
+        const ndc = new THREE.Vector2(
+            ((e.clientX - rect.left) / rect.width) * 2 - 1,
+            -((e.clientY - rect.top) / rect.height) * 2 + 1
+        );
+        raycaster.setFromCamera(ndc, camera);
+        // Parts cut away by a section plane cannot be picked
+        const hit = raycaster.intersectObject(currentObject, true)
+            .find((h: THREE.Intersection) => clipPlanes.every((plane) => plane.distanceToPoint(h.point) >= 0));
+        if (hit) emit('measurePick', scene.worldToLocal(hit.point.clone()).toArray());
+    };
+
+    const frameObject = (direction?: THREE.Vector3) => {
+        if (!navigation || isAttractMode()) return;
+        if (currentObject) navigation.frame(currentObject, direction);
+        else navigation.reset();
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement | null;
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+        if (e.key === 'f' || e.key === 'F') frameObject();
     };
 
     // --- OBJECT CREATION ---
@@ -265,27 +409,92 @@ export default defineComponent({
         return new THREE.CanvasTexture(canvas);
     };
 
+    // The same particles drift as the intro cloud and fly onto every selected shape
+    const PARTICLE_COUNT = 3000;
+
+    // Read by the chaos particles' vertex shader while the GPU fluid drives them
+    const simUniforms = {
+        uSimPositions: { value: null as THREE.Texture | null },
+        uUseSim: { value: 0 }
+    };
+
     const createChaosParticles = () => {
-        const count = 3000;
+        const field = createParticleField(PARTICLE_COUNT, 2000);
+        particleMorph = createParticleMorph(field, { speed: props.morphSpeed, easing: props.morphEasing });
         const geometry = new THREE.BufferGeometry();
-        const positions = new Float32Array(count * 3);
-        const sizes = new Float32Array(count);
-        for (let i = 0; i < count; i++) {
-            positions[i * 3] = (Math.random() - 0.5) * 2000;
-            positions[i * 3 + 1] = (Math.random() - 0.5) * 2000;
-            positions[i * 3 + 2] = (Math.random() - 0.5) * 2000;
-            sizes[i] = Math.random() * 2 + 1;
-        }
-        geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+        const positions = new Float32Array(PARTICLE_COUNT * 3);
+        const sizes = Float32Array.from(field, (p) => p.size);
+        particleMorph.writePositions(positions);
+        geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3).setUsage(THREE.DynamicDrawUsage));
         geometry.setAttribute('size', new THREE.BufferAttribute(sizes, 1));
         const material = new THREE.PointsMaterial({
             color: 0xffffff, size: 4, sizeAttenuation: true, map: createCircleTexture(),
             alphaTest: 0.5, transparent: true, opacity: 0.6, blending: THREE.AdditiveBlending
         });
+
+        // On the GPU backend positions come straight from the simulation texture
+        fluid = createFluidSimulation(renderer, field);
+        geometry.setAttribute('simUv', new THREE.BufferAttribute(fluid.lookup, 2));
+        material.onBeforeCompile = (shader: any) => {
+            shader.uniforms.uSimPositions = simUniforms.uSimPositions;
+            shader.uniforms.uUseSim = simUniforms.uUseSim;
+            shader.vertexShader = `
+                attribute vec2 simUv;
+                uniform sampler2D uSimPositions;
+                uniform float uUseSim;
+            ` + shader.vertexShader.replace('#include <begin_vertex>', `
+                #include <begin_vertex>
+                if (uUseSim > 0.5) transformed = texture2D(uSimPositions, simUv).xyz;
+            `);
+        };
+
         chaosParticles = new THREE.Points(geometry, material);
+        // The CPU-side bounds go stale while the GPU moves the particles
+        chaosParticles.frustumCulled = false;
         if (scene) scene.add(chaosParticles);
     };
 
+    const writeParticlePositions = () => {
+        if (!chaosParticles || !particleMorph) return;
+        const position = chaosParticles.geometry.attributes.position as THREE.BufferAttribute;
+        particleMorph.writePositions(position.array as Float32Array);
+        position.needsUpdate = true;
+    };
+
+    // Hands the particles back to the morph with the fluid's latest positions and velocities
+    const releaseFluid = () => {
+        if (!fluid || !fluidActive) return;
+        fluid.download();
+        fluidActive = false;
+        simUniforms.uUseSim.value = 0;
+        writeParticlePositions();
+    };
+
+    // The cursor lives on the camera-facing plane through the origin, in the particles' local space
+    const cursorPlane = new THREE.Plane();
+    const cursorPoint = new THREE.Vector3();
+    const updateFluidCursor = (delta: number) => {
+        const wasActive = fluidCursor.active;
+        fluidCursor.active = false;
+        if (!isAttractMode() || !pointerNdc || !camera || !chaosParticles) return;
+
+        raycaster.setFromCamera(pointerNdc, camera);
+        cursorPlane.setFromNormalAndCoplanarPoint(camera.getWorldDirection(cursorPoint), new THREE.Vector3());
+        if (!raycaster.ray.intersectPlane(cursorPlane, cursorPoint)) return;
+        chaosParticles.updateWorldMatrix(true, false);
+        chaosParticles.worldToLocal(cursorPoint);
+
+        // No velocity on the first active frame, so the cursor does not fling particles from the origin
+        const scale = wasActive && delta > 0 ? 1 / delta : 0;
+        fluidCursor.vx = (cursorPoint.x - fluidCursor.x) * scale;
+        fluidCursor.vy = (cursorPoint.y - fluidCursor.y) * scale;
+        fluidCursor.vz = (cursorPoint.z - fluidCursor.z) * scale;
+        fluidCursor.x = cursorPoint.x;
+        fluidCursor.y = cursorPoint.y;
+        fluidCursor.z = cursorPoint.z;
+        fluidCursor.active = true;
+    };
+
     const createAxisSystem = () => {
         axisGroup = new THREE.Group();
         const createAxisLine = (endPoint: THREE.Vector3, color: THREE.Color, isNegative: boolean = false) => {
@@ -307,37 +516,547 @@ export default defineComponent({
     };
 
     // Shaders (Points)
+    // The UV layout lives in the root object's space, so every node of an imported
+    // tree flattens onto the same plane regardless of its own transform.
     const vertexShader = `
         uniform float uMix;
         uniform float uPointSize;
+        uniform mat4 uRootMatrix;
         attribute vec2 uvCoordinates;
+        varying vec3 vColor;
         void main() {
-            vec3 pos3D = position;
+            vColor = vec3(1.0);
+            #ifdef USE_COLOR
+            vColor = color;
+            #endif
+            vec4 world3D = modelMatrix * vec4(position, 1.0);
             vec3 pos2D = vec3((uvCoordinates.x - 0.5) * 400.0, (uvCoordinates.y - 0.5) * 400.0, 0.0);
-            vec3 finalPos = mix(pos3D, pos2D, uMix);
-            vec4 mvPosition = modelViewMatrix * vec4(finalPos, 1.0);
+            vec4 world2D = uRootMatrix * vec4(pos2D, 1.0);
+            vec4 mvPosition = viewMatrix * mix(world3D, world2D, uMix);
             gl_Position = projectionMatrix * mvPosition;
             gl_PointSize = uPointSize * (800.0 / -mvPosition.z);
         }
     `;
     const fragmentShader = `
         uniform vec3 uColor;
-        void main() { gl_FragColor = vec4(uColor, 1.0); }
+        varying vec3 vColor;
+        void main() { gl_FragColor = vec4(uColor * vColor, 1.0); }
     `;
 
+    // Generated layouts, kept per source geometry or buffer so rebuilds don't unwrap again
+    const autoUvMeshes = new WeakMap<object, CustomMeshBuffer>();
+
+    // Imported geometry may lack UVs; render an unwrapped copy so the grid and the UV
+    // morph still read, without touching the source. `key` identifies the source.
+    const withRenderAttributes = (geometry: THREE.BufferGeometry, key: object = geometry) => {
+        if (geometry.attributes.uv) return geometry;
+        let unwrapped = autoUvMeshes.get(key);
+        if (!unwrapped) {
+            unwrapped = generateUVs(geometryToMeshBuffer(geometry), DEFAULT_UV_PROJECTION);
+            autoUvMeshes.set(key, unwrapped);
+        }
+        const view = meshBufferToGeometry(unwrapped);
+        // Unwrapping keeps the face order, so the draw groups still apply
+        geometry.groups.forEach((group) => view.addGroup(group.start, group.count, group.materialIndex));
+        view.userData.renderView = true;
+        return view;
+    };
+
+    const disposeObject = (object: THREE.Object3D, ownsGeometry: boolean) => {
+        object.traverse((child: any) => {
+            if (child.geometry && (ownsGeometry || child.geometry.userData.renderView)) child.geometry.dispose();
+            if (child.isSkinnedMesh) child.skeleton.dispose();
+            if (child.material) {
+                if (Array.isArray(child.material)) child.material.forEach((m: any) => m.dispose());
+                else child.material.dispose();
+            }
+        });
+    };
+
+    // An object's materials, whether it has one or one per geometry group
+    const getMaterials = (object: any): any[] => (object.material ? (Array.isArray(object.material) ? object.material : [object.material]) : []);
+
+    // Maps that belong to the model's own material
+    const getAuthoredMaps = (sourceMat: THREE.MeshStandardMaterial | null) => ({
+        map: (sourceMat?.map ?? null) as THREE.Texture | null,
+        normalMap: (sourceMat?.normalMap ?? null) as THREE.Texture | null
+    });
+
+    // The slider and the DirectX toggle (green points down) multiply the scale the map came
+    // with. Without the lab's toggle an authored map shows as authored and the procedural one not at all.
+    const updateNormalScale = (material: THREE.MeshStandardMaterial) => {
+        const { normalScaleBase: base, hasAuthoredNormalMap } = material.userData;
+        const intensity = props.useNormalMap ? (props.normalScale ?? 1.0) : (hasAuthoredNormalMap ? 1.0 : 0);
+        const flip = props.normalConvention === 'directx' ? -1 : 1;
+        material.normalScale.set(base.x * intensity, base.y * intensity * flip);
+    };
+
+    // Authored normal maps keep their scale, including the y flip GLTFLoader gives meshes
+    // without tangents; the procedural fallback starts from (1, 1)
+    const applyNormalMap = (material: THREE.MeshStandardMaterial, sourceMat: THREE.MeshStandardMaterial | null) => {
+        const authored = getAuthoredMaps(sourceMat).normalMap;
+        material.normalMap = authored ?? getProceduralNormalMap();
+        material.userData.hasAuthoredNormalMap = !!authored;
+        material.userData.normalScaleBase = authored && sourceMat?.normalScale ? sourceMat.normalScale.clone() : new THREE.Vector2(1, 1);
+        updateNormalScale(material);
+    };
+
+    // The material the buffers of an edited import render with, once its node tree is gone
+    const getBufferMaterial = () => (props.model === 'custom' ? props.customMaterial as THREE.Material | null : null) ?? null;
+
+    // An authored metallic-roughness material renders as authored; only the surface view
+    // leaves its color texture off. The texture view falls back to the UV grid.
+    const applySourceMaterial = (material: THREE.MeshPhysicalMaterial, source: THREE.MeshStandardMaterial, renderMode: string) => {
+        applyPbrChannels(material, source, renderMode === 'texture');
+        if (renderMode === 'texture' && !material.map) {
+            material.map = getUVGridTexture();
+            material.color.setHex(0xffffff);
+        }
+        material.needsUpdate = true;
+    };
+
+    // Inspection shaders. Each mode compiles with its own define and draws one property
+    // unlit: world normals, view depth, the tangent frame, or which side faces the camera.
+    const debugVertexShader = `
+        #ifdef HAS_TANGENT
+        attribute vec4 tangent;
+        varying vec3 vWorldTangent;
+        #endif
+        varying vec3 vWorldNormal;
+        varying vec3 vViewNormal;
+        varying vec3 vWorldPosition;
+        varying vec2 vDebugUv;
+        varying float vViewDepth;
+        #include <clipping_planes_pars_vertex>
+        void main() {
+            vec4 world = modelMatrix * vec4(position, 1.0);
+            vec4 mvPosition = viewMatrix * world;
+            #include <clipping_planes_vertex>
+            vWorldNormal = normalize(transpose(inverse(mat3(modelMatrix))) * normal);
+            vViewNormal = normalize(normalMatrix * normal);
+            #ifdef HAS_TANGENT
+            vWorldTangent = mat3(modelMatrix) * tangent.xyz;
+            #endif
+            vWorldPosition = world.xyz;
+            vDebugUv = uv;
+            vViewDepth = -mvPosition.z;
+            gl_Position = projectionMatrix * mvPosition;
+        }
+    `;
+    const debugFragmentShader = `
+        uniform float uDepthNear;
+        uniform float uDepthFar;
+        #ifdef HAS_TANGENT
+        varying vec3 vWorldTangent;
+        #endif
+        varying vec3 vWorldNormal;
+        varying vec3 vViewNormal;
+        varying vec3 vWorldPosition;
+        varying vec2 vDebugUv;
+        varying float vViewDepth;
+        #include <clipping_planes_pars_fragment>
+        void main() {
+            #include <clipping_planes_fragment>
+            #if defined(DEBUG_NORMALS)
+            gl_FragColor = vec4(normalize(vWorldNormal) * 0.5 + 0.5, 1.0);
+            #elif defined(DEBUG_DEPTH)
+            float d = clamp((vViewDepth - uDepthNear) / max(uDepthFar - uDepthNear, 0.001), 0.0, 1.0);
+            gl_FragColor = vec4(vec3(1.0 - d), 1.0);
+            #elif defined(DEBUG_TANGENT)
+            #ifdef HAS_TANGENT
+            vec3 t = normalize(vWorldTangent);
+            #else
+            // No authored tangents: take the direction u grows in from screen-space derivatives
+            vec3 dp1 = dFdx(vWorldPosition), dp2 = dFdy(vWorldPosition);
+            vec2 duv1 = dFdx(vDebugUv), duv2 = dFdy(vDebugUv);
+            float det = duv1.x * duv2.y - duv1.y * duv2.x;
+            vec3 t = normalize((dp1 * duv2.y - dp2 * duv1.y) * (det < 0.0 ? -1.0 : 1.0));
+            #endif
+            gl_FragColor = vec4(t * 0.5 + 0.5, 1.0);
+            #elif defined(DEBUG_ORIENTATION)
+            float shade = 0.55 + 0.45 * abs(normalize(vViewNormal).z);
+            gl_FragColor = vec4((gl_FrontFacing ? vec3(0.2, 0.4, 1.0) : vec3(1.0, 0.2, 0.2)) * shade, 1.0);
+            #endif
+        }
+    `;
+
+    const DEBUG_SHADER_DEFINES: Record<string, string> = {
+        normals: 'DEBUG_NORMALS',
+        depth: 'DEBUG_DEPTH',
+        tangent: 'DEBUG_TANGENT',
+        orientation: 'DEBUG_ORIENTATION'
+    };
+
+    const createDebugMaterial = (geometry: THREE.BufferGeometry, renderMode: string): THREE.Material | null => {
+        if (renderMode === 'matcap') return new THREE.MeshMatcapMaterial({ matcap: getMatcapTexture(), side: THREE.DoubleSide });
+        if (renderMode === 'vertexColor') {
+            // Mid grey says the mesh carries no colors, rather than passing for white ones
+            const hasVertexColors = !!geometry.attributes.color;
+            return new THREE.MeshBasicMaterial({ vertexColors: hasVertexColors, color: hasVertexColors ? 0xffffff : 0x808080, side: THREE.DoubleSide });
+        }
+        const define = DEBUG_SHADER_DEFINES[renderMode];
+        if (!define) return null;
+        const defines: Record<string, string> = { [define]: '' };
+        if (geometry.attributes.tangent) defines.HAS_TANGENT = '';
+        return new THREE.ShaderMaterial({
+            uniforms: depthUniforms,
+            defines,
+            vertexShader: debugVertexShader,
+            fragmentShader: debugFragmentShader,
+            side: THREE.DoubleSide,
+            clipping: true
+        });
+    };
+
+    // Builds the object for one geometry in the current render mode. `source` is the
+    // authored material of an imported mesh; its color and maps carry into every mode.
+    // A material array gets one converted material per entry, drawn by the geometry's groups.
+    const createRenderable = (geometry: THREE.BufferGeometry, source: THREE.Material | THREE.Material[] | null, renderMode: string, pointSize: number): THREE.Object3D => {
+        if (Array.isArray(source)) {
+            if (!geometry.groups.length) return createRenderable(geometry, source[0] ?? null, renderMode, pointSize);
+            const parts = source.map((material) => createRenderable(geometry, material, renderMode, pointSize) as THREE.Mesh);
+            parts[0].material = parts.map((part) => part.material as THREE.Material);
+            return parts[0];
+        }
+
+        const sourceMat = source as THREE.MeshStandardMaterial | null;
+        const hasVertexColors = !!geometry.attributes.color;
+        const tint = sourceMat?.color ? sourceMat.color.clone() : new THREE.Color(0xffffff);
+
+        if (renderMode === 'point') {
+            if (!geometry.attributes.uvCoordinates && geometry.attributes.uv) {
+                geometry.setAttribute('uvCoordinates', geometry.attributes.uv);
+            }
+            pointUniforms.uPointSize.value = pointSize;
+            pointUniforms.uMix.value = 0;
+            return new THREE.Points(geometry, new THREE.ShaderMaterial({
+                uniforms: { ...pointUniforms, uColor: { value: pointUniforms.uColor.value.clone().multiply(tint) } },
+                vertexShader: vertexShader, fragmentShader: fragmentShader,
+                vertexColors: hasVertexColors, transparent: true, depthWrite: false, blending: THREE.AdditiveBlending
+            }));
+        }
+
+        if (renderMode === 'line') {
+            if (props.model === 'helix' && !(geometry instanceof THREE.TubeGeometry)) {
+                return new THREE.Line(geometry, new THREE.LineBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.5 }));
+            }
+            return new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ color: tint, wireframe: true, transparent: true, opacity: 0.1 }));
+        }
+
+        if (!geometry.attributes.normal) geometry.computeVertexNormals();
+
+        const debugMaterial = createDebugMaterial(geometry, renderMode);
+        if (debugMaterial) return new THREE.Mesh(geometry, debugMaterial);
+
+        const material = new THREE.MeshPhysicalMaterial({
+            color: 0xe0e0e0,
+            metalness: 0.2,
+            roughness: 0.4,
+            clearcoat: 0.5,
+            clearcoatRoughness: 0.1,
+            vertexColors: hasVertexColors,
+            side: THREE.DoubleSide
+        });
+
+        const authored = getAuthoredMaps(sourceMat);
+        if (isPbrMaterial(sourceMat)) {
+            applySourceMaterial(material, sourceMat, renderMode);
+            // Inspector edits are carried over from here
+            material.userData.pbrSource = sourceMat;
+        } else {
+            if (sourceMat?.color) material.color.copy(tint);
+            if (renderMode === 'texture') {
+                material.map = authored.map ?? getUVGridTexture();
+                material.color.setHex(0xffffff);
+            }
+        }
+
+        // Normal Map Logic
+        applyNormalMap(material, sourceMat);
+
+        material.onBeforeCompile = (shader) => {
+            shader.uniforms.uMix = surfaceUniforms.uMix;
+            shader.uniforms.uRootMatrix = surfaceUniforms.uRootMatrix;
+            shader.vertexShader = `uniform float uMix;\nuniform mat4 uRootMatrix;\n` + shader.vertexShader;
+            shader.fragmentShader = `uniform float uMix;\n` + shader.fragmentShader;
+            shader.vertexShader = shader.vertexShader.replace('#include <beginnormal_vertex>', `
+                #include <beginnormal_vertex>
+                mat4 rootToLocal = inverse(modelMatrix) * uRootMatrix;
+                vec3 flatNormal = normalize(mat3(rootToLocal) * vec3( 0.0, 0.0, 1.0 ));
+                objectNormal = mix(objectNormal, flatNormal, uMix);
+            `);
+            shader.vertexShader = shader.vertexShader.replace('#include <begin_vertex>', `
+                vec3 transformed = vec3( position );
+                vec3 pos2D = vec3((uv.x - 0.5) * 400.0, (uv.y - 0.5) * 400.0, 0.0);
+                transformed = mix(transformed, (rootToLocal * vec4(pos2D, 1.0)).xyz, uMix);
+            `);
+            shader.fragmentShader = shader.fragmentShader.replace('#include <output_fragment>', `
+                // When unwrapping, we fade out lighting/shading, which effectively flattens the normal map effect too
+                outgoingLight = mix(outgoingLight, diffuseColor.rgb, uMix);
+                #include <output_fragment>
+            `);
+        };
+
+        return new THREE.Mesh(geometry, material);
+    };
+
+    // Point mode draws a fixed budget spread over the surface instead of the raw vertices
+    const samplePoints = (geometry: THREE.BufferGeometry, source: THREE.Material | THREE.Material[] | null, count: number, anchored = false) => {
+        const mapOf = (material: THREE.Material | null) => (props.pointTextureColor ? getAuthoredMaps(material as THREE.MeshStandardMaterial | null).map : null);
+        const texture = Array.isArray(source) ? source.map(mapOf) : mapOf(source);
+        // Sample the unwrapped copy so points carry its UVs into the morph
+        const surface = withRenderAttributes(geometry);
+        // Anchors index the vertices they were sampled from, so only the source itself can carry them
+        const points = sampleSurface(surface, count, { texture, anchors: anchored && surface === geometry });
+        if (surface !== geometry) surface.dispose();
+        points.userData.renderView = true; // Owned by the renderable, never by the source
+        return points;
+    };
+
+    // Shares a point budget across an imported tree by world-space area
+    const planPointBudget = (source: THREE.Object3D, total: number) => {
+        const meshes: THREE.Mesh[] = [];
+        source.updateMatrixWorld(true);
+        source.traverse((child) => {
+            if ((child as THREE.Mesh).isMesh) meshes.push(child as THREE.Mesh);
+        });
+        const counts = distributeBudget(meshes.map((mesh) => getSurfaceArea(mesh.geometry, mesh.matrixWorld)), total);
+        return new Map(meshes.map((mesh, i) => [mesh, counts[i]]));
+    };
+
+    // Mirrors the imported node tree, swapping every mesh for whatever `createNode` builds
+    // `mirrored` collects source → copy for every node, so skeletons can be rebound to the copies
+    const mirrorScene = (
+        source: THREE.Object3D,
+        createNode: (geometry: THREE.BufferGeometry, material: THREE.Material | THREE.Material[] | null, mesh: THREE.Mesh) => THREE.Object3D,
+        mirrored = new Map<THREE.Object3D, THREE.Object3D>()
+    ): THREE.Object3D => {
+        const mesh = source as THREE.Mesh;
+        let node: THREE.Object3D;
+        if (mesh.isMesh && mesh.geometry) {
+            node = createNode(mesh.geometry, mesh.material ?? null, mesh);
+        } else {
+            // Bones keep their type so the skeleton overlay can find them
+            node = (source as THREE.Bone).isBone ? new THREE.Bone() : new THREE.Group();
+        }
+        mirrored.set(source, node);
+        node.name = source.name;
+        // Clips address unnamed nodes by uuid
+        node.uuid = source.uuid;
+        node.position.copy(source.position);
+        node.quaternion.copy(source.quaternion);
+        node.scale.copy(source.scale);
+        node.visible = source.visible;
+        source.children.forEach((child) => node.add(mirrorScene(child, createNode, mirrored)));
+        return node;
+    };
+
+    const isDeforming = (mesh: THREE.Mesh) => (mesh as THREE.SkinnedMesh).isSkinnedMesh || !!mesh.morphTargetInfluences?.length;
+
+    // Gives a renderable the skin and morph targets of the mesh it stands in for. Unwrapped
+    // copies lose the skin attributes and morphs, so those render in bind pose.
+    const rigRenderable = (node: THREE.Object3D, mesh: THREE.Mesh, skins: Array<[THREE.SkinnedMesh, THREE.SkinnedMesh]>) => {
+        const renderable = node as THREE.Mesh;
+        if (!renderable.isMesh) return node;
+        let rigged = renderable;
+        if ((mesh as THREE.SkinnedMesh).isSkinnedMesh && renderable.geometry.attributes.skinIndex) {
+            rigged = new THREE.SkinnedMesh(renderable.geometry, renderable.material);
+            // Bounds are measured in bind pose; a moving limb must not be culled
+            rigged.frustumCulled = false;
+            skins.push([rigged as THREE.SkinnedMesh, mesh as THREE.SkinnedMesh]);
+        }
+        if (mesh.morphTargetInfluences && rigged.geometry.morphAttributes.position) {
+            rigged.morphTargetDictionary = { ...mesh.morphTargetDictionary };
+            rigged.morphTargetInfluences = [...mesh.morphTargetInfluences];
+        }
+        return rigged;
+    };
+
+    // Sampled points have no skin of their own. A hidden copy of the source mesh deforms
+    // instead, and the cloud is re-placed from it through the sample anchors.
+    const attachPointDriver = (points: THREE.Points, mesh: THREE.Mesh, skins: Array<[THREE.SkinnedMesh, THREE.SkinnedMesh]>) => {
+        if (!points.geometry.userData.surfaceAnchors) return;
+        const isSkinned = (mesh as THREE.SkinnedMesh).isSkinnedMesh;
+        const driver = isSkinned ? new THREE.SkinnedMesh(mesh.geometry) : new THREE.Mesh(mesh.geometry);
+        driver.visible = false;
+        driver.layers.disableAll(); // Never picked by the raycaster either
+        if (isSkinned) skins.push([driver as THREE.SkinnedMesh, mesh as THREE.SkinnedMesh]);
+        if (mesh.morphTargetInfluences) {
+            driver.morphTargetDictionary = { ...mesh.morphTargetDictionary };
+            driver.morphTargetInfluences = [...mesh.morphTargetInfluences];
+            // Clips address morphs by node name, which finds the points; both share one array
+            points.morphTargetDictionary = driver.morphTargetDictionary;
+            points.morphTargetInfluences = driver.morphTargetInfluences;
+        }
+        points.add(driver);
+        points.frustumCulled = false;
+        // Each vertex under a sample is deformed once per frame, however many points share it
+        const vertices = new Uint32Array(new Set(points.geometry.userData.surfaceAnchors.corners));
+        animatedPoints.push({ points, driver, vertices, deformed: new Float32Array(mesh.geometry.attributes.position.count * 3) });
+    };
+
+    const createSceneRenderable = (source: THREE.Object3D, renderMode: string) => {
+        const budget = renderMode === 'point' ? planPointBudget(source, props.pointBudget || DEFAULT_POINT_BUDGET) : null;
+        const skins: Array<[THREE.SkinnedMesh, THREE.SkinnedMesh]> = [];
+        const mirrored = new Map<THREE.Object3D, THREE.Object3D>();
+        const root = mirrorScene(source, (geometry, material, mesh) => {
+            let node: THREE.Object3D;
+            if (budget) {
+                node = createRenderable(samplePoints(geometry, material, budget.get(mesh) ?? 0, isDeforming(mesh)), material, renderMode, 1.0);
+                attachPointDriver(node as THREE.Points, mesh, skins);
+            } else {
+                node = rigRenderable(createRenderable(withRenderAttributes(geometry), material, renderMode, 1.0), mesh, skins);
+            }
+            // Lets a material revision tell an edited material from a swapped one
+            node.userData.sourceMaterial = material;
+            return node;
+        }, mirrored);
+
+        // Rebind each skin to the mirrored bones, keeping the authored inverses and bind matrix
+        skins.forEach(([target, source]) => {
+            const bones = source.skeleton.bones.map((bone) => mirrored.get(bone) as THREE.Bone);
+            target.bind(new THREE.Skeleton(bones, source.skeleton.boneInverses.map((m) => m.clone())), source.bindMatrix);
+            target.bindMode = source.bindMode;
+        });
+        renderSources = mirrored;
+        return root;
+    };
+
+    // Standard-material copy of the current model for exporters. Authored maps always
+    // travel; the lab's UV grid and procedural normal map only when they are on screen.
+    const createExportMesh = (geometry: THREE.BufferGeometry, source: THREE.Material | THREE.Material[] | null): THREE.Mesh => {
+        if (Array.isArray(source)) {
+            if (!geometry.groups.length) return createExportMesh(geometry, source[0] ?? null);
+            return new THREE.Mesh(geometry, source.map((material) => createExportMesh(geometry, material).material as THREE.Material));
+        }
+        const sourceMat = source as THREE.MeshStandardMaterial | null;
+        const authored = getAuthoredMaps(sourceMat);
+        const options = { vertexColors: !!geometry.attributes.color, side: THREE.DoubleSide };
+        let material: THREE.MeshStandardMaterial;
+        if (isPbrMaterial(sourceMat)) {
+            // Every authored channel goes out; glTF writes the extensions the material uses
+            const physical = new THREE.MeshPhysicalMaterial(options);
+            applyPbrChannels(physical, sourceMat);
+            material = physical;
+        } else {
+            material = new THREE.MeshStandardMaterial({
+                ...options,
+                color: sourceMat?.color ? sourceMat.color.clone() : new THREE.Color(0xe0e0e0),
+                metalness: sourceMat?.metalness ?? 0.2,
+                roughness: sourceMat?.roughness ?? 0.4
+            });
+            material.map = authored.map;
+        }
+        if (!material.map && props.renderMode === 'texture') material.map = getUVGridTexture();
+        if (material.map && !authored.map) material.color.setHex(0xffffff);
+        applyNormalMap(material, sourceMat);
+        if (!authored.normalMap && !props.useNormalMap) material.normalMap = null;
+        return new THREE.Mesh(geometry, material);
+    };
+
+    const createExportObject = (): THREE.Object3D | null => {
+        if (props.model === 'custom' && props.customScene) return mirrorScene(props.customScene as THREE.Object3D, createExportMesh);
+        if (props.model === 'custom' && props.customMesh) return createExportMesh(meshBufferToGeometry(props.customMesh as CustomMeshBuffer), getBufferMaterial());
+        if (isPrimitiveModel(props.model)) {
+            const mesh = createExportMesh(createPrimitiveGeometry(props.model, true), null);
+            mesh.name = props.model;
+            return mesh;
+        }
+        return null;
+    };
+
+    // Surface points of the selected shape in scene space, one per particle
+    const sampleMorphTargets = (count: number): Float32Array | null => {
+        if (props.model === 'custom' && props.customScene) {
+            const targets = new Float32Array(count * 3);
+            let offset = 0;
+            planPointBudget(props.customScene as THREE.Object3D, count).forEach((n, mesh) => {
+                if (n === 0) return;
+                const points = sampleSurface(mesh.geometry, n, { seed: 11 }).applyMatrix4(mesh.matrixWorld);
+                targets.set(points.attributes.position.array, offset);
+                offset += n * 3;
+                points.dispose();
+            });
+            return offset > 0 ? targets : null;
+        }
+
+        let surface: THREE.BufferGeometry | null = null;
+        if (isPrimitiveModel(props.model)) surface = createPrimitiveGeometry(props.model, true);
+        else if (props.model === 'custom' && props.customMesh) surface = meshBufferToGeometry(props.customMesh as CustomMeshBuffer);
+        if (!surface) return null;
+
+        const points = sampleSurface(surface, count, { seed: 11 });
+        const targets = points.attributes.position.count > 0 ? points.attributes.position.array as Float32Array : null;
+        surface.dispose();
+        points.dispose();
+        return targets;
+    };
+
+    const morphParticles = () => {
+        if (!particleMorph || !chaosParticles) return;
+        releaseFluid();
+        const targets = props.model ? sampleMorphTargets(PARTICLE_COUNT) : null;
+        if (!targets) {
+            particleMorph.reset();
+            return;
+        }
+        // Targets are in scene space; fold the intro drift into the particles first
+        chaosParticles.updateMatrix();
+        particleMorph.applyMatrix(chaosParticles.matrix.elements);
+        chaosParticles.rotation.set(0, 0, 0);
+        particleMorph.morphTo(targets);
+    };
+
+    // Cool to hot: 0 blue, 1/3 green, 2/3 yellow, 1 red
+    const HEAT_STOPS = [new THREE.Color(0x2563eb), new THREE.Color(0x22c55e), new THREE.Color(0xfacc15), new THREE.Color(0xef4444)];
+    const heatColor = (value: number, target: THREE.Color) => {
+        const scaled = Math.min(1, Math.max(0, value)) * (HEAT_STOPS.length - 1);
+        const i = Math.min(HEAT_STOPS.length - 2, Math.floor(scaled));
+        return target.copy(HEAT_STOPS[i]).lerp(HEAT_STOPS[i + 1], scaled - i);
+    };
+
+    // The analyzed buffer, colored flat per face; it lives in scene space like the topology overlay.
+    // Built as a lit surface so the UV morph can flatten it onto the layout.
+    const createHeatmapRenderable = (analysis: UvAnalysis, kind: UvHeatmapKind) => {
+        const source = meshBufferToGeometry(analysis.mesh);
+        const geometry = source.index ? source.toNonIndexed() : source;
+        const heat = getUvHeat(analysis, kind);
+        const colors = new Float32Array(geometry.attributes.position.count * 3);
+        const color = new THREE.Color();
+        heat.forEach((value, face) => {
+            heatColor(value, color);
+            for (let k = 0; k < 3; k++) color.toArray(colors, (face * 3 + k) * 3);
+        });
+        geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+        const mesh = createRenderable(geometry, null, 'surface', 1.0) as THREE.Mesh;
+        (mesh.material as THREE.MeshPhysicalMaterial).color.setHex(0xffffff);
+        return mesh;
+    };
+
+    let ownsCurrentGeometry = true;
+
     const updateModel = () => {
+        buildModel();
+        if (currentObject) {
+            currentObject.updateMatrixWorld(true);
+            modelBox.setFromObject(currentObject).getBoundingSphere(modelBounds);
+            // Sampled points and helper lines stay out of the shadow map
+            currentObject.traverse((child: any) => { child.castShadow = !!child.isMesh; });
+            if (lightingRig) fitShadowCameras(lightingRig, modelBounds);
+        }
+        updateNormalsOverlay();
+        updateSections();
+        setupAnimation();
+    };
+
+    const buildModel = () => {
         if (currentObject && scene) {
             scene.remove(currentObject);
-            if ((currentObject as any).geometry) (currentObject as any).geometry.dispose();
-            if ((currentObject as any).material) {
-                if (Array.isArray((currentObject as any).material)) {
-                    (currentObject as any).material.forEach((m: any) => m.dispose());
-                } else {
-                    (currentObject as any).material.dispose();
-                }
-            }
+            disposeObject(currentObject, ownsCurrentGeometry);
             currentObject = null;
         }
+        renderSources = new Map();
+        animatedPoints = [];
 
         if (!props.model) return;
 
@@ -345,128 +1064,522 @@ export default defineComponent({
         let pointSize = 1.5;
         let renderMode = props.renderMode || 'point';
 
-        if (props.model === 'cube') {
-            geometry = new THREE.BoxGeometry(300, 300, 300, 20, 20, 20);
-        } else if (props.model === 'sphere') {
-            geometry = new THREE.SphereGeometry(200, 60, 60);
-        } else if (props.model === 'helix') {
-            const segments = 3000;
-            if (renderMode === 'surface' || renderMode === 'texture') {
-                 const curve = new THREE.CatmullRomCurve3(
-                    new Array(100).fill(0).map((_, i) => {
-                        const t = i/100;
-                        const angle = t * Math.PI * 20;
-                        const y = (t - 0.5) * 600;
-                        const r = 150;
-                        return new THREE.Vector3(Math.cos(angle)*r, y, Math.sin(angle)*r);
-                    })
-                 );
-                 geometry = new THREE.TubeGeometry(curve, 300, 20, 8, false);
-            } else {
-                 const points = []; const uvs = [];
-                 for(let i=0; i<segments; i++) {
-                    const t = i/segments;
-                    const angle = t * Math.PI * 20;
-                    points.push(Math.cos(angle)*150, (t - 0.5) * 600, Math.sin(angle)*150);
-                    uvs.push(t, (Math.sin(angle) + 1) / 2);
-                 }
-                 geometry = new THREE.BufferGeometry();
-                 geometry.setAttribute('position', new THREE.Float32BufferAttribute(points, 3));
-                 geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+        if (renderMode === 'heatmap') {
+            if (props.uvAnalysis && props.uvHeatmap) {
+                ownsCurrentGeometry = true;
+                currentObject = createHeatmapRenderable(props.uvAnalysis as UvAnalysis, props.uvHeatmap as UvHeatmapKind);
+                if (scene) scene.add(currentObject);
+                return;
             }
+            // Nothing to grade without UVs; show the plain surface
+            renderMode = 'surface';
+        }
+
+        if (props.model === 'custom' && props.customScene) {
+            // Geometry belongs to the imported scene and is shared across rebuilds
+            ownsCurrentGeometry = false;
+            currentObject = createSceneRenderable(props.customScene as THREE.Object3D, renderMode);
+            if (scene) scene.add(currentObject);
+            return;
+        }
+        ownsCurrentGeometry = true;
+
+        if (isPrimitiveModel(props.model)) {
+            // Points sample the solid shape, so the helix shows its tube rather than the curve
+            geometry = createPrimitiveGeometry(props.model, renderMode !== 'line');
         } else if (props.model === 'custom' && props.customMesh) {
-            geometry = new THREE.BufferGeometry();
-            geometry.setAttribute('position', new THREE.BufferAttribute(props.customMesh as Float32Array, 3));
-            if (props.customUVs) geometry.setAttribute('uv', new THREE.BufferAttribute(props.customUVs as Float32Array, 2));
-            else {
-                 const count = props.customMesh.length / 3;
-                 const uvBuffer = new Float32Array(count * 2);
-                 for(let i=0; i<count; i++) { uvBuffer[i*2] = 0.5; uvBuffer[i*2+1] = 0.5; }
-                 geometry.setAttribute('uv', new THREE.BufferAttribute(uvBuffer, 2));
-            }
-            if (renderMode === 'surface' || renderMode === 'texture') geometry.computeVertexNormals();
+            // Index, normals, tangents and colors come through as authored
+            geometry = withRenderAttributes(meshBufferToGeometry(props.customMesh as CustomMeshBuffer), props.customMesh);
             pointSize = 1.0; 
         }
 
+        if (geometry && renderMode === 'point') {
+            const surface = geometry;
+            geometry = samplePoints(surface, getBufferMaterial(), props.pointBudget || DEFAULT_POINT_BUDGET);
+            surface.dispose();
+        }
+
         if (geometry) {
-            if (renderMode === 'point') {
-                if (!geometry.attributes.uvCoordinates && geometry.attributes.uv) {
-                    geometry.setAttribute('uvCoordinates', geometry.attributes.uv);
-                }
+            currentObject = createRenderable(geometry, getBufferMaterial(), renderMode, pointSize);
+            if (scene) scene.add(currentObject);
+        }
+    };
+
+    // --- TOPOLOGY OVERLAY ---
+    // Edges and markers draw through the model so hidden problems stay visible;
+    // faces are depth-tested and pulled forward to sit on the surface
+    const createTopologyLayer = (report: TopologyReport, kind: TopologyIssueKind): THREE.Object3D | null => {
+        const { mesh } = report;
+        const issue = TOPOLOGY_ISSUES.find((i) => i.id === kind)!;
+        const color = new THREE.Color(issue.color);
+        const { positions } = mesh;
+        const gather = (vertices: ArrayLike<number>) => {
+            const out = new Float32Array(vertices.length * 3);
+            for (let i = 0; i < vertices.length; i++) out.set(positions.subarray(vertices[i] * 3, vertices[i] * 3 + 3), i * 3);
+            return out;
+        };
+        const faceCorners = (faces: Uint32Array) => Uint32Array.from({ length: faces.length * 3 }, (_, i) => cornerIndex(mesh, faces[Math.floor(i / 3)] * 3 + (i % 3)));
+
+        const geometry = new THREE.BufferGeometry();
+        if (issue.draws === 'edges') {
+            const pairs = kind === 'nonManifold' ? report.nonManifoldEdges : report.boundaryEdges;
+            if (pairs.length === 0) return null;
+            geometry.setAttribute('position', new THREE.BufferAttribute(gather(pairs), 3));
+            return new THREE.LineSegments(geometry, new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true }));
+        }
+        if (issue.draws === 'faces') {
+            const faces = kind === 'winding' ? report.flippedFaces : getLooseIslandFaces(report);
+            if (faces.length === 0) return null;
+            geometry.setAttribute('position', new THREE.BufferAttribute(gather(faceCorners(faces)), 3));
+            return new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({
+                color, transparent: true, opacity: 0.45, side: THREE.DoubleSide, depthWrite: false,
+                polygonOffset: true, polygonOffsetFactor: -2, polygonOffsetUnits: -2
+            }));
+        }
+
+        // Zero-area faces have nothing to fill, so both point kinds mark a location
+        let markers: Float32Array;
+        if (kind === 'zeroArea') {
+            const corners = gather(faceCorners(report.zeroAreaFaces));
+            markers = new Float32Array(report.zeroAreaFaces.length * 3);
+            for (let i = 0; i < markers.length; i++) {
+                const base = Math.floor(i / 3) * 9 + (i % 3);
+                markers[i] = (corners[base] + corners[base + 3] + corners[base + 6]) / 3;
             }
+        } else {
+            markers = gather(report.duplicateVertices.filter((_, i) => i % 2 === 0));
+        }
+        if (markers.length === 0) return null;
+        geometry.setAttribute('position', new THREE.BufferAttribute(markers, 3));
+        return new THREE.Points(geometry, new THREE.PointsMaterial({ color, size: 6, sizeAttenuation: false, depthTest: false, transparent: true }));
+    };
 
-            if (renderMode === 'point') {
-                pointUniforms.uPointSize.value = pointSize;
-                pointUniforms.uMix.value = 0;
-                currentObject = new THREE.Points(geometry, new THREE.ShaderMaterial({
-                    uniforms: pointUniforms, vertexShader: vertexShader, fragmentShader: fragmentShader,
-                    transparent: true, depthWrite: false, blending: THREE.AdditiveBlending
-                }));
-            } 
-            else if (renderMode === 'line') {
-                if (props.model === 'helix' && !(geometry instanceof THREE.TubeGeometry)) {
-                     currentObject = new THREE.Line(geometry, new THREE.LineBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.5 }));
-                } else {
-                     currentObject = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ color: 0xffffff, wireframe: true, transparent: true, opacity: 0.1 }));
+    const updateTopologyOverlay = () => {
+        if (topologyOverlay && scene) {
+            scene.remove(topologyOverlay);
+            disposeObject(topologyOverlay, true);
+            topologyOverlay = null;
+        }
+        const report = props.topologyReport as TopologyReport | null;
+        if (!report || !scene) return;
+
+        topologyOverlay = new THREE.Group();
+        const layers: TopologyIssueKind[] = props.topologyLayers ?? TOPOLOGY_ISSUES.map((i) => i.id);
+        layers.forEach((kind) => {
+            const layer = createTopologyLayer(report, kind);
+            if (!layer) return;
+            layer.renderOrder = 10;
+            topologyOverlay!.add(layer);
+        });
+        scene.add(topologyOverlay);
+        updateVisibility();
+    };
+
+    // --- NORMAL HEDGEHOGS ---
+    // Segments per kind; denser meshes show every n-th vertex or face
+    const NORMAL_LINE_LIMIT = 100000;
+
+    // Lines along the normals of whatever is on screen, baked into world space
+    const createNormalLines = (root: THREE.Object3D, kind: 'vertex' | 'face', color: number): THREE.LineSegments | null => {
+        const targets: THREE.Mesh[] = [];
+        root.traverse((child: any) => {
+            // Hidden drivers behind animated points are not on screen
+            if (!child.visible || !child.geometry?.attributes.position) return;
+            // Sampled points carry normals too, but only meshes have faces
+            if (child.isMesh || (kind === 'vertex' && child.isPoints && child.geometry.attributes.normal)) targets.push(child);
+        });
+        const countOf = (geometry: THREE.BufferGeometry) => kind === 'vertex'
+            ? geometry.attributes.position.count
+            : Math.floor((geometry.index ? geometry.index.count : geometry.attributes.position.count) / 3);
+        const total = targets.reduce((sum, mesh) => sum + countOf(mesh.geometry), 0);
+        if (total === 0) return null;
+
+        const stride = Math.ceil(total / NORMAL_LINE_LIMIT);
+        const length = modelBounds.radius * 0.04;
+        const segments = new Float32Array(Math.ceil(total / stride) * 6 + targets.length * 6);
+        let offset = 0;
+        const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3(), n = new THREE.Vector3(), edge = new THREE.Vector3();
+        const normalMatrix = new THREE.Matrix3();
+        const push = (origin: THREE.Vector3, direction: THREE.Vector3) => {
+            origin.toArray(segments, offset);
+            origin.addScaledVector(direction, length).toArray(segments, offset + 3);
+            offset += 6;
+        };
+
+        targets.forEach((mesh) => {
+            const { geometry, matrixWorld } = mesh;
+            const position = geometry.attributes.position;
+            if (kind === 'vertex') {
+                const normal = geometry.attributes.normal;
+                if (!normal) return;
+                normalMatrix.getNormalMatrix(matrixWorld);
+                for (let i = 0; i < position.count; i += stride) {
+                    n.fromBufferAttribute(normal, i).applyMatrix3(normalMatrix).normalize();
+                    push(a.fromBufferAttribute(position, i).applyMatrix4(matrixWorld), n);
                 }
+                return;
             }
-            else if (renderMode === 'surface' || renderMode === 'texture') {
-                const material = new THREE.MeshPhysicalMaterial({
-                    color: 0xe0e0e0,
-                    metalness: 0.2,
-                    roughness: 0.4,
-                    clearcoat: 0.5,
-                    clearcoatRoughness: 0.1,
-                    side: THREE.DoubleSide
-                });
-
-                if (renderMode === 'texture') {
-                    if (props.model === 'custom' && props.customTexture) {
-                         material.map = props.customTexture;
-                         material.color.setHex(0xffffff);
-                    } else {
-                         material.map = getUVGridTexture();
-                         material.color.setHex(0xffffff); 
-                    }
-                }
+            const corner = (i: number) => (geometry.index ? geometry.index.getX(i) : i);
+            const faces = countOf(geometry);
+            for (let f = 0; f < faces; f += stride) {
+                a.fromBufferAttribute(position, corner(f * 3)).applyMatrix4(matrixWorld);
+                b.fromBufferAttribute(position, corner(f * 3 + 1)).applyMatrix4(matrixWorld);
+                c.fromBufferAttribute(position, corner(f * 3 + 2)).applyMatrix4(matrixWorld);
+                n.subVectors(b, a).cross(edge.subVectors(c, a)).normalize();
+                push(a.add(b).add(c).multiplyScalar(1 / 3), n);
+            }
+        });
 
-                // Normal Map Logic
-                const scale = props.useNormalMap ? (props.normalScale || 1.0) : 0;
-                
-                if (props.model === 'custom' && props.customNormalMap) {
-                     material.normalMap = props.customNormalMap;
-                     material.normalScale.set(scale, scale);
-                } else {
-                     material.normalMap = getProceduralNormalMap();
-                     material.normalScale.set(scale, scale);
-                }
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.BufferAttribute(segments.subarray(0, offset), 3));
+        return new THREE.LineSegments(geometry, new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.7 }));
+    };
+
+    const updateNormalsOverlay = () => {
+        if (normalsOverlay && scene) {
+            scene.remove(normalsOverlay);
+            disposeObject(normalsOverlay, true);
+            normalsOverlay = null;
+        }
+        if (!currentObject || !scene || (!props.showVertexNormals && !props.showFaceNormals)) return;
+
+        normalsOverlay = new THREE.Group();
+        const vertexLines = props.showVertexNormals ? createNormalLines(currentObject, 'vertex', 0x22d3ee) : null;
+        const faceLines = props.showFaceNormals ? createNormalLines(currentObject, 'face', 0xf472b6) : null;
+        if (vertexLines) normalsOverlay.add(vertexLines);
+        if (faceLines) normalsOverlay.add(faceLines);
+        scene.add(normalsOverlay);
+        updateVisibility();
+    };
+
+    // --- SECTION PLANES ---
+    // Each plane renders as: the model's back faces raising the stencil and its front
+    // faces lowering it, so only the inside of the cut is left marked; then a cap fills
+    // the marked pixels and the outline traces the cut. Orders stay below the topology overlay.
+    const SECTION_RENDER_ORDER = 1;
+
+    // Cuts only make sense on a surface in 3D; points and the flattened layout stay whole
+    const isSectionable = () => props.mode !== 'chaos' && !props.uvMode && (props.renderMode || 'point') !== 'point';
+
+    const createSectionHandles = () => {
+        if (!scene || !camera || !renderer) return;
+        for (let slot = 0; slot < MAX_SECTION_PLANES; slot++) {
+            const controls = new TransformControls(camera, renderer.domElement);
+            const anchor = new THREE.Object3D();
+            controls.setMode('translate');
+            controls.setSize(0.6);
+            controls.enabled = false;
+            // Dragging a handle must not orbit the camera at the same time
+            controls.addEventListener('dragging-changed', (e: any) => navigation?.setEnabled(!e.value && !isAttractMode()));
+            controls.addEventListener('objectChange', () => {
+                const plane: SectionPlane | undefined = props.sectionPlanes?.[slot];
+                if (plane) emit('sectionPlaneMove', slot, anchor.position[plane.axis]);
+            });
+            scene.add(anchor);
+            scene.add(controls.getHelper());
+            sectionHandles.push({ controls, anchor });
+        }
+    };
+
+    // Stencil counting pass for one side of the model's faces
+    const createStencilMaterial = (plane: THREE.Plane, side: THREE.Side, op: THREE.StencilOp) => new THREE.MeshBasicMaterial({
+        side,
+        clippingPlanes: [plane],
+        depthWrite: false,
+        depthTest: false,
+        colorWrite: false,
+        stencilWrite: true,
+        stencilFunc: THREE.AlwaysStencilFunc,
+        stencilFail: op,
+        stencilZFail: op,
+        stencilZPass: op
+    });
+
+    const createSectionLayer = (plane: THREE.Plane, others: THREE.Plane[], color: THREE.Color, meshes: THREE.Mesh[], renderOrder: number) => {
+        const layer = new THREE.Group();
+        const toScene = new THREE.Matrix4().copy(scene!.matrixWorld).invert();
+        const toLocal = new THREE.Matrix4();
+        const outlineMaterial = new THREE.LineBasicMaterial({ color, clippingPlanes: others });
+
+        meshes.forEach((mesh) => {
+            const matrix = toScene.clone().multiply(mesh.matrixWorld);
+            const back = new THREE.Mesh(mesh.geometry, createStencilMaterial(plane, THREE.BackSide, THREE.IncrementWrapStencilOp));
+            const front = new THREE.Mesh(mesh.geometry, createStencilMaterial(plane, THREE.FrontSide, THREE.DecrementWrapStencilOp));
+
+            // The cut is sliced in the mesh's own space, so the plane goes there instead
+            const localPlane = plane.clone().applyMatrix4(toLocal.copy(mesh.matrixWorld).invert());
+            const geometry = mesh.geometry as THREE.BufferGeometry;
+            const segments = sliceTriangles(geometry.attributes.position.array, geometry.index ? geometry.index.array : null, localPlane.normal.toArray(), localPlane.constant);
+            const outlineGeometry = new THREE.BufferGeometry();
+            outlineGeometry.setAttribute('position', new THREE.BufferAttribute(segments, 3));
+            outlineGeometry.userData.renderView = true; // The stencil meshes borrow the model's geometry; this one is ours
+            const outline = new THREE.LineSegments(outlineGeometry, outlineMaterial);
+
+            [back, front, outline].forEach((object, i) => {
+                object.matrixAutoUpdate = false;
+                object.matrix.copy(matrix);
+                object.renderOrder = renderOrder + (i === 2 ? 2 : 0);
+                layer.add(object);
+            });
+        });
+
+        // Oversized so it spans any cut through the model; the stencil trims it to the inside
+        const size = modelBounds.radius * 4;
+        const capGeometry = new THREE.PlaneGeometry(size, size);
+        capGeometry.userData.renderView = true;
+        const cap = new THREE.Mesh(capGeometry, new THREE.MeshBasicMaterial({
+            color: color.clone().multiplyScalar(0.55),
+            side: THREE.DoubleSide,
+            clippingPlanes: others,
+            stencilWrite: true,
+            stencilRef: 0,
+            stencilFunc: THREE.NotEqualStencilFunc,
+            stencilFail: THREE.ReplaceStencilOp,
+            stencilZFail: THREE.ReplaceStencilOp,
+            stencilZPass: THREE.ReplaceStencilOp,
+            // Behind the outline that lies on it
+            polygonOffset: true,
+            polygonOffsetFactor: 1,
+            polygonOffsetUnits: 1
+        }));
+        plane.projectPoint(modelBounds.center, cap.position);
+        cap.lookAt(cap.position.clone().sub(plane.normal));
+        cap.renderOrder = renderOrder + 1;
+        // The next plane counts from zero again
+        cap.onAfterRender = (r: THREE.WebGLRenderer) => r.clearStencil();
+        layer.add(cap);
+        return layer;
+    };
+
+    const updateSections = () => {
+        if (sectionOverlay && scene) {
+            scene.remove(sectionOverlay);
+            disposeObject(sectionOverlay, false);
+            sectionOverlay = null;
+        }
+
+        const planes: SectionPlane[] = props.sectionPlanes ?? [];
+        const shown = currentObject && isSectionable()
+            ? planes.map((plane, slot) => ({ plane, slot })).filter(({ plane, slot }) => plane.enabled && slot < MAX_SECTION_PLANES)
+            : [];
+        clipPlanes.length = 0;
+        shown.forEach(({ plane }) => {
+            const { normal, constant } = getSectionEquation(plane);
+            clipPlanes.push(new THREE.Plane(new THREE.Vector3(...normal), constant));
+        });
 
-                material.onBeforeCompile = (shader) => {
-                    shader.uniforms.uMix = surfaceUniforms.uMix;
-                    shader.vertexShader = `uniform float uMix;\n` + shader.vertexShader;
-                    shader.fragmentShader = `uniform float uMix;\n` + shader.fragmentShader;
-                    shader.vertexShader = shader.vertexShader.replace('#include <begin_vertex>', `
-                        vec3 transformed = vec3( position );
-                        vec3 pos2D = vec3((uv.x - 0.5) * 400.0, (uv.y - 0.5) * 400.0, 0.0);
-                        transformed = mix(transformed, pos2D, uMix);
-                    `);
-                    shader.vertexShader = shader.vertexShader.replace('#include <beginnormal_vertex>', `
-                        #include <beginnormal_vertex>
-                        vec3 flatNormal = vec3( 0.0, 0.0, 1.0 );
-                        objectNormal = mix(objectNormal, flatNormal, uMix);
-                    `);
-                    shader.fragmentShader = shader.fragmentShader.replace('#include <output_fragment>', `
-                        // When unwrapping, we fade out lighting/shading, which effectively flattens the normal map effect too
-                        outgoingLight = mix(outgoingLight, diffuseColor.rgb, uMix);
-                        #include <output_fragment>
-                    `);
-                };
-
-                currentObject = new THREE.Mesh(geometry, material);
+        sectionHandles.forEach(({ controls, anchor }, slot) => {
+            const i = shown.findIndex((entry) => entry.slot === slot);
+            if (i < 0) {
+                controls.detach();
+                controls.enabled = false;
+                return;
             }
+            const { axis } = shown[i].plane;
+            clipPlanes[i].projectPoint(modelBounds.center, anchor.position);
+            controls.showX = axis === 'x';
+            controls.showY = axis === 'y';
+            controls.showZ = axis === 'z';
+            controls.attach(anchor);
+            controls.enabled = true;
+        });
+
+        if (!currentObject || !scene) return;
+        const meshes: THREE.Mesh[] = [];
+        currentObject.traverse((child: any) => {
+            getMaterials(child).forEach((material) => { material.clippingPlanes = clipPlanes; });
+            if (child.isMesh && child.geometry?.attributes.position) meshes.push(child);
+        });
+        if (shown.length === 0) return;
 
-            if (scene && currentObject) scene.add(currentObject);
+        currentObject.updateMatrixWorld(true);
+        sectionOverlay = new THREE.Group();
+        shown.forEach(({ slot }, i) => {
+            const others = clipPlanes.filter((_, j) => j !== i);
+            const color = new THREE.Color(SECTION_COLORS[slot]);
+            sectionOverlay!.add(createSectionLayer(clipPlanes[i], others, color, meshes, SECTION_RENDER_ORDER + i * 3));
+        });
+        scene.add(sectionOverlay);
+    };
+
+    // --- MEASUREMENT ---
+    // Picked points in scene space, joined in order; drawn through the model like the topology edges
+    const updateMeasureOverlay = () => {
+        if (measureOverlay && scene) {
+            scene.remove(measureOverlay);
+            disposeObject(measureOverlay, true);
+            measureOverlay = null;
         }
+        const points: Array<[number, number, number]> = props.measurePoints ?? [];
+        if (!scene || points.length === 0) return;
+
+        const positions = new Float32Array(points.flat());
+        measureOverlay = new THREE.Group();
+        const markerGeometry = new THREE.BufferGeometry();
+        markerGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+        measureOverlay.add(new THREE.Points(markerGeometry, new THREE.PointsMaterial({ color: 0xfde047, size: 8, sizeAttenuation: false, depthTest: false, transparent: true })));
+        if (points.length > 1) {
+            const lineGeometry = new THREE.BufferGeometry();
+            lineGeometry.setAttribute('position', new THREE.BufferAttribute(positions.slice(), 3));
+            measureOverlay.add(new THREE.Line(lineGeometry, new THREE.LineBasicMaterial({ color: 0xfde047, depthTest: false, transparent: true })));
+        }
+        measureOverlay.children.forEach((child) => { child.renderOrder = 11; });
+        scene.add(measureOverlay);
+        updateVisibility();
+    };
+
+    // Points come from the mesh buffers, which live in scene space
+    const focusAt = (point: [number, number, number]) => {
+        if (!navigation || !scene || isAttractMode()) return;
+        navigation.focusAt(scene.localToWorld(new THREE.Vector3(...point)));
+    };
+
+    // --- SCENE ANIMATION ---
+    // Clips play on the tree on screen; the imported scene keeps its authored pose.
+    // The flattened UV layout shows the rest pose, since skinning would bend it.
+    const getActiveClip = (): THREE.AnimationClip | null => {
+        if (props.animationClip === null || props.animationClip === undefined || props.uvMode || renderSources.size === 0) return null;
+        return (props.customScene as THREE.Object3D | null)?.animations[props.animationClip] ?? null;
+    };
+
+    // Rebinds the chosen clip to the model on screen, resuming where it was unless it changed
+    const setupAnimation = (keepTime = true) => {
+        if (activeAction) clipTime = activeAction.time;
+        if (!keepTime || clipScene !== props.customScene) clipTime = 0;
+        clipScene = props.customScene;
+        if (mixer) {
+            mixer.stopAllAction();
+            mixer.uncacheRoot(mixer.getRoot());
+        }
+        mixer = null;
+        activeAction = null;
+
+        const clip = getActiveClip();
+        if (clip && currentObject) {
+            mixer = new THREE.AnimationMixer(currentObject);
+            activeAction = mixer.clipAction(clip);
+            activeAction.play();
+            activeAction.time = Math.min(clipTime, clip.duration);
+            updateAnimationState();
+            mixer.update(0);
+        }
+        applyMorphWeights();
+        updateSkeletonHelper();
+        isPoseDirty = true;
+        emit('animationTime', activeAction?.time ?? clipTime);
+    };
+
+    const updateAnimationState = () => {
+        if (mixer) mixer.timeScale = props.animationSpeed ?? 1;
+        if (activeAction) activeAction.paused = !props.animationPlaying;
+    };
+
+    // Slider weights, except on meshes the running clip is already driving
+    const applyMorphWeights = () => {
+        const clip = getActiveClip();
+        const driven = clip ? getMorphDrivenNodes(clip) : new Set<string>();
+        const weights: number[] = props.morphWeights || [];
+        listMorphTargets(props.customScene as THREE.Object3D | null).forEach((target, i) => {
+            const renderable = renderSources.get(target.mesh) as THREE.Mesh | undefined;
+            if (!renderable?.morphTargetInfluences || driven.has(target.mesh.name) || driven.has(target.mesh.uuid)) return;
+            renderable.morphTargetInfluences[target.index] = weights[i] ?? target.weight;
+        });
+        isPoseDirty = true;
+    };
+
+    const seekAnimation = (time: number) => {
+        if (!mixer || !activeAction) return;
+        activeAction.time = Math.min(Math.max(time, 0), activeAction.getClip().duration);
+        mixer.update(0);
+        isPoseDirty = true;
+        emit('animationTime', activeAction.time);
+    };
+
+    const updateSkeletonHelper = () => {
+        if (skeletonHelper && scene) {
+            scene.remove(skeletonHelper);
+            skeletonHelper.geometry.dispose();
+            (skeletonHelper.material as THREE.Material).dispose();
+            skeletonHelper = null;
+        }
+        if (!props.showSkeleton || !currentObject || !scene || renderSources.size === 0) return;
+        const helper = new THREE.SkeletonHelper(currentObject);
+        if (helper.bones.length === 0) {
+            helper.geometry.dispose();
+            (helper.material as THREE.Material).dispose();
+            return;
+        }
+        helper.renderOrder = 11;
+        skeletonHelper = helper;
+        scene.add(skeletonHelper);
+        updateVisibility();
+    };
+
+    // Moves sampled points with the surface under them: every anchored vertex is deformed
+    // by the hidden driver, then each point is re-placed from its triangle's corners.
+    const updateAnimatedPoints = () => {
+        if (!isPoseDirty) return;
+        isPoseDirty = false;
+        const vertex = new THREE.Vector3();
+        animatedPoints.forEach(({ points, driver, vertices, deformed }) => {
+            vertices.forEach((v) => driver.getVertexPosition(v, vertex).toArray(deformed, v * 3));
+            const { corners, weights } = points.geometry.userData.surfaceAnchors as SurfaceAnchors;
+            const position = points.geometry.attributes.position as THREE.BufferAttribute;
+            const array = position.array as Float32Array;
+            for (let i = 0; i < position.count; i++) {
+                for (let axis = 0; axis < 3; axis++) {
+                    let value = 0;
+                    for (let k = 0; k < 3; k++) value += deformed[corners[i * 3 + k] * 3 + axis] * weights[i * 3 + k];
+                    array[i * 3 + axis] = value;
+                }
+            }
+            position.needsUpdate = true;
+        });
+    };
+
+    // --- LIGHTING ---
+    const updateLighting = () => {
+        if (!scene || !renderer) return;
+        if (lightingRig) {
+            scene.remove(lightingRig.lights);
+            lightingRig.dispose();
+        }
+        lightingRig = createLightingRig(props.lightingPreset || 'lab', renderer, props.environmentMap as THREE.Texture | null);
+        scene.add(lightingRig.lights);
+        scene.environment = lightingRig.environment;
+        scene.environmentIntensity = lightingRig.environmentIntensity;
+        if (currentObject) fitShadowCameras(lightingRig, modelBounds);
+        updateStage();
+    };
+
+    const updateToneMapping = () => {
+        if (!renderer) return;
+        renderer.toneMapping = TONE_MAPPINGS.find((t) => t.id === props.toneMapping)?.mapping ?? THREE.NoToneMapping;
+        renderer.toneMappingExposure = Math.pow(2, props.exposure || 0);
+    };
+
+    const updateShadows = () => {
+        if (!renderer || !scene) return;
+        renderer.shadowMap.enabled = !!props.shadows;
+        // Shadow support is compiled into each material
+        scene.traverse((child: any) => {
+            getMaterials(child).forEach((material) => { material.needsUpdate = true; });
+        });
+        updateStage();
+    };
+
+    // The background and the shadow catcher belong to the lab; the intro and the flattened
+    // layout keep the plain void
+    const updateStage = () => {
+        if (!scene) return;
+        const isLab = !isAttractMode() && !props.uvMode;
+        scene.background = isLab && props.showEnvironmentBackground ? lightingRig?.background ?? null : null;
+        if (!shadowCatcher) return;
+        shadowCatcher.visible = isLab && !!props.shadows && !!currentObject;
+        if (!currentObject) return;
+        // Just under the model, wide enough for a long evening shadow
+        shadowCatcher.position.set(modelBounds.center.x, modelBox.min.y - modelBounds.radius * 0.005, modelBounds.center.z);
+        shadowCatcher.scale.setScalar(modelBounds.radius * 8);
     };
 
     // --- ANIMATION & WATCHERS (unchanged logic) ---
@@ -476,11 +1589,21 @@ export default defineComponent({
             if (chaosParticles) chaosParticles.visible = true;
             if (axisGroup) axisGroup.visible = false;
             if (currentObject) currentObject.visible = false;
+            if (topologyOverlay) topologyOverlay.visible = false;
+            if (normalsOverlay) normalsOverlay.visible = false;
+            if (measureOverlay) measureOverlay.visible = false;
+            if (skeletonHelper) skeletonHelper.visible = false;
         } else {
             if (chaosParticles) chaosParticles.visible = true; 
             if (axisGroup) axisGroup.visible = true;
             if (currentObject) currentObject.visible = true;
+            // The overlay follows the 3D surface, so it has nothing to mark on the flattened layout
+            if (topologyOverlay) topologyOverlay.visible = !props.uvMode;
+            if (normalsOverlay) normalsOverlay.visible = !props.uvMode;
+            if (measureOverlay) measureOverlay.visible = !props.uvMode;
+            if (skeletonHelper) skeletonHelper.visible = !props.uvMode;
         }
+        updateStage();
     };
 
     const animate = () => {
@@ -495,17 +1618,52 @@ export default defineComponent({
         if (!scene || !camera) return;
         mouse.x += (mouse.targetX - mouse.x) * 0.05;
         mouse.y += (mouse.targetY - mouse.y) * 0.05;
-        camera.position.z += (800 * zoom - camera.position.z) * 0.1;
-        const rotX = mouse.y * 0.001;
-        const rotY = mouse.x * 0.001;
-        scene.rotation.x = rotX;
-        scene.rotation.y = rotY;
-
-        if (chaosParticles) {
-            chaosParticles.rotation.y = time * 0.1;
-            chaosParticles.rotation.z = time * 0.05;
+        if (isAttractMode()) {
+            scene.rotation.x = mouse.y * 0.001;
+            scene.rotation.y = mouse.x * 0.001;
+        } else {
+            // Settle the parallax so orbit navigation works in a fixed world frame
+            scene.rotation.x += (0 - scene.rotation.x) * 0.1;
+            scene.rotation.y += (0 - scene.rotation.y) * 0.1;
+        }
+        const delta = clock.getDelta();
+        if (navigation) navigation.update(delta);
+
+        if (props.renderMode === 'depth') {
+            const distance = camera.position.distanceTo(modelBounds.center);
+            depthUniforms.uDepthNear.value = Math.max(camera.near, distance - modelBounds.radius);
+            depthUniforms.uDepthFar.value = distance + modelBounds.radius;
+        }
+
+        if (chaosParticles && particleMorph) {
+            // Only the scattered cloud drifts; a formed shape holds still
+            if (particleMorph.isAtHome()) {
+                chaosParticles.rotation.y += 0.0005;
+                chaosParticles.rotation.z += 0.00025;
+            }
+            if (fluid && particleMorph.isAtHome() && particleMorph.isSettled()) {
+                // The resting cloud is a fluid; the morph takes over again on the next flight
+                if (!fluidActive) {
+                    fluid.upload();
+                    fluidActive = true;
+                }
+                updateFluidCursor(delta);
+                // Clamp so a backgrounded tab does not return to an exploded cloud
+                fluid.step(Math.min(delta, 1 / 30), clock.elapsedTime, fluidCursor);
+                if (fluid.backend === 'gpu') {
+                    simUniforms.uSimPositions.value = fluid.getPositionTexture();
+                    simUniforms.uUseSim.value = 1;
+                } else {
+                    writeParticlePositions();
+                }
+            } else if (!particleMorph.isSettled()) {
+                particleMorph.update(delta);
+                writeParticlePositions();
+            }
+            // Full strength in the intro and in flight; a landed shape recedes behind the model
             const material = chaosParticles.material as THREE.PointsMaterial;
-            material.opacity += (props.mode === 'chaos' ? 0.6 : 0.1 - material.opacity) * 0.05;
+            const targetOpacity = props.mode === 'chaos' || !particleMorph.isSettled() ? 0.6 : (particleMorph.isAtHome() ? 0.1 : 0.25);
+            material.opacity += (targetOpacity - material.opacity) * 0.05;
         }
 
         if (axisGroup) {
@@ -518,54 +1676,155 @@ export default defineComponent({
             });
         }
 
-        if (currentObject) {
-            const currentMix = pointUniforms.uMix.value;
-            if (currentMix <= 0.1) {
-                 if (props.model === 'custom') currentObject.rotation.y = time * 0.2;
-                 else currentObject.rotation.y = time * 0.5;
-            } else {
-                currentObject.rotation.y += (0 - currentObject.rotation.y) * 0.05;
-                currentObject.rotation.x += (0 - currentObject.rotation.x) * 0.05;
-                currentObject.rotation.z += (0 - currentObject.rotation.z) * 0.05;
+        if (mixer && activeAction && !activeAction.paused) {
+            mixer.update(delta);
+            isPoseDirty = true;
+            // The timeline only needs a few updates a second
+            if (clock.elapsedTime - lastTimeEmit > 0.1) {
+                lastTimeEmit = clock.elapsedTime;
+                emit('animationTime', activeAction.time);
             }
         }
 
+        if (currentObject) {
+            scene.updateMatrixWorld();
+            rootMatrixUniform.value.copy(currentObject.matrixWorld);
+            updateAnimatedPoints();
+        }
+
         if (renderer) renderer.render(scene, camera);
     };
 
-    watch(() => props.mode, updateVisibility);
+    watch(() => props.mode, () => {
+        updateVisibility();
+        updateSections();
+        if (!navigation) return;
+        navigation.setEnabled(!isAttractMode());
+        if (isAttractMode()) navigation.reset();
+    });
+
+    // Face the flattened UV layout head-on while unwrapping
+    watch(() => props.uvMode, (uvMode) => {
+        if (uvMode && navigation) navigation.flyTo(new THREE.Vector3(), HOME_POSITION);
+        updateVisibility();
+        updateSections();
+        setupAnimation();
+    });
+
+    watch([() => props.topologyReport, () => props.topologyLayers], updateTopologyOverlay);
+    watch([() => props.showVertexNormals, () => props.showFaceNormals], updateNormalsOverlay);
+    watch(() => props.sectionPlanes, updateSections, { deep: true });
+    watch(() => props.measurePoints, updateMeasureOverlay, { deep: true });
+
+    watch(() => props.animationClip, () => setupAnimation(false));
+    watch([() => props.animationPlaying, () => props.animationSpeed], updateAnimationState);
+    watch(() => props.morphWeights, applyMorphWeights, { deep: true });
+    watch(() => props.showSkeleton, updateSkeletonHelper);
+
+    watch(() => props.measureTool, (tool) => {
+        if (renderer) renderer.domElement.style.cursor = tool ? 'crosshair' : '';
+    });
     
     // Watch intensity specifically to avoid full rebuild
-    watch(() => props.normalScale, (val) => {
-        if (currentObject && (currentObject as any).material && (currentObject as any).material.normalScale) {
-            const intensity = props.useNormalMap ? val : 0;
-            (currentObject as any).material.normalScale.set(intensity, intensity);
+    watch([() => props.normalScale, () => props.normalConvention], () => {
+        if (!currentObject) return;
+        currentObject.traverse((child: any) => {
+            getMaterials(child).forEach((material) => {
+                if (material.userData.normalScaleBase) updateNormalScale(material);
+            });
+        });
+    });
+
+    watch([() => props.lightingPreset, () => props.environmentMap], updateLighting);
+    watch([() => props.toneMapping, () => props.exposure], updateToneMapping);
+    watch(() => props.shadows, updateShadows);
+    watch(() => props.showEnvironmentBackground, updateStage);
+
+    // Inspector edits change the authored materials in place; copy them onto the ones on screen
+    // Meshes whose material was swapped for a new one (a plain one promoted for loose
+    // textures) need new renderables rather than a copy.
+    watch(() => props.materialRevision, () => {
+        if (!currentObject) return;
+        const swapped = [...renderSources].some(([source, node]) => {
+            if (!(source as THREE.Mesh).isMesh) return false;
+            const current = getMaterials(source);
+            const rendered = node.userData.sourceMaterial;
+            return Array.isArray(rendered)
+                ? rendered.length !== current.length || rendered.some((material, i) => material !== current[i])
+                : (current[0] ?? null) !== rendered;
+        });
+        if (swapped) {
+            updateModel();
+            updateVisibility();
+            return;
         }
+        const renderMode = props.renderMode || 'point';
+        currentObject.traverse((child: any) => {
+            getMaterials(child).forEach((material) => {
+                const source = material.userData.pbrSource;
+                if (!source) return;
+                applySourceMaterial(material, source, renderMode);
+                applyNormalMap(material, source);
+            });
+        });
     });
 
     // Watch all props that require model rebuild
     watch([
         () => props.model, 
+        () => props.customScene, 
         () => props.customMesh, 
-        () => props.customUVs,
         () => props.renderMode,
-        () => props.customTexture,
-        () => props.customNormalMap,
+        () => props.customMaterial,
         () => props.useNormalMap
     ], () => {
         updateModel();
         updateVisibility();
     });
 
+    // The analysis only matters while its heatmap is on screen
+    watch([() => props.uvAnalysis, () => props.uvHeatmap], () => {
+        if (props.renderMode !== 'heatmap') return;
+        updateModel();
+        updateVisibility();
+    });
+
+    // Sampling settings only matter while points are on screen
+    watch([() => props.pointBudget, () => props.pointTextureColor], () => {
+        if ((props.renderMode || 'point') !== 'point') return;
+        updateModel();
+        updateVisibility();
+    });
+
+    // A new object gets framed and the particles fly onto it; switching render modes keeps both
+    watch([() => props.model, () => props.customScene, () => props.customMesh], () => {
+        frameObject();
+        morphParticles();
+    });
+
+    watch([() => props.morphSpeed, () => props.morphEasing], ([speed, easing]) => {
+        particleMorph?.setOptions({ speed, easing });
+    });
+
     onMounted(() => { initThree(); });
     onUnmounted(() => {
         if (animationId) cancelAnimationFrame(animationId);
         window.removeEventListener('resize', handleResize);
         window.removeEventListener('mousemove', handleMouseMove);
-        window.removeEventListener('wheel', handleWheel);
+        window.removeEventListener('keydown', handleKeyDown);
+        if (renderer) renderer.domElement.removeEventListener('dblclick', handleDoubleClick);
+        if (renderer) renderer.domElement.removeEventListener('pointerdown', handlePointerDown);
+        if (renderer) renderer.domElement.removeEventListener('click', handleClick);
+        if (navigation) navigation.dispose();
+        sectionHandles.forEach(({ controls }) => controls.dispose());
+        if (fluid) fluid.dispose();
+        if (lightingRig) lightingRig.dispose();
+        disposeTextureSupport();
         if (renderer) renderer.dispose();
     });
 
+    expose({ frameObject, resetView: () => navigation?.reset(), createExportObject, focusAt, seekAnimation });
+
     return () => h('div', { ref: canvasContainer, class: 'fixed top-0 left-0 w-full h-full z-0 bg-[#050505]' });
   }
 });
@@ -0,0 +1,168 @@
+
+import { getAIProvider, AIProvider, AIRequest, AIResponseSchema } from './aiProvider';
+
+const CACHE_PREFIX = 'aether.ai.v1:';
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 200;
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+interface CacheEntry {
+  savedAt: number;
+  value: unknown;
+}
+
+// Short stable key for arbitrary key material (FNV-1a, 32 bit)
+const hashKey = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * localStorage may be missing (private mode, tests) or full; the cache is best-effort.
+ * Entries go through the same schema check as fresh answers, and stale or malformed
+ * ones are evicted.
+ */
+const readCache = <T>(key: string, schema: AIResponseSchema): T | null => {
+  try {
+    const raw = localStorage.getItem(CACHE_PREFIX + key);
+    if (!raw) return null;
+    const entry: CacheEntry = JSON.parse(raw);
+    if (Date.now() - entry.savedAt > CACHE_TTL_MS) {
+      localStorage.removeItem(CACHE_PREFIX + key);
+      return null;
+    }
+    return parseResponse<T>(JSON.stringify(entry.value), schema);
+  } catch {
+    try {
+      localStorage.removeItem(CACHE_PREFIX + key);
+    } catch {
+      // Storage disabled: nothing to evict
+    }
+    return null;
+  }
+};
+
+const pruneCache = () => {
+  const entries: Array<{ key: string; savedAt: number }> = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !key.startsWith(CACHE_PREFIX)) continue;
+    try {
+      entries.push({ key, savedAt: JSON.parse(localStorage.getItem(key) || '{}').savedAt || 0 });
+    } catch {
+      entries.push({ key, savedAt: 0 });
+    }
+  }
+  entries
+    .sort((a, b) => a.savedAt - b.savedAt)
+    .slice(0, Math.max(0, entries.length - CACHE_MAX_ENTRIES))
+    .forEach((entry) => localStorage.removeItem(entry.key));
+};
+
+const writeCache = (key: string, value: unknown) => {
+  try {
+    const entry: CacheEntry = { savedAt: Date.now(), value };
+    localStorage.setItem(CACHE_PREFIX + key, JSON.stringify(entry));
+    pruneCache();
+  } catch {
+    // Quota exceeded or storage disabled: serve uncached
+  }
+};
+
+const EXPECTED = { string: 'a non-empty string', integer: 'an integer', number: 'a number' };
+
+/**
+ * Parses provider output and checks it against the request schema, so a malformed
+ * answer fails here instead of rendering `undefined` in the UI.
+ */
+export const parseResponse = <T>(text: string, schema: AIResponseSchema): T => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error(`Invalid AI response: not JSON`);
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Invalid AI response: expected an object`);
+  }
+
+  const record = value as Record<string, unknown>;
+  schema.required.forEach((key) => {
+    if (record[key] === undefined || record[key] === null) throw new Error(`Invalid AI response: missing "${key}"`);
+  });
+  Object.entries(schema.properties).forEach(([key, prop]) => {
+    const field = record[key];
+    if (field === undefined) return;
+    const valid = prop.type === 'string'
+      ? typeof field === 'string' && field.trim().length > 0
+      : typeof field === 'number' && Number.isFinite(field) && (prop.type === 'number' || Number.isInteger(field));
+    if (!valid) throw new Error(`Invalid AI response: "${key}" must be ${EXPECTED[prop.type]}`);
+  });
+
+  // Only the declared fields travel on
+  return Object.fromEntries(Object.keys(schema.properties).filter((key) => key in record).map((key) => [key, record[key]])) as T;
+};
+
+// Quota and transient server errors are worth another attempt; bad output is not
+const isRetryable = (error: unknown) => {
+  const status = (error as { status?: number } | null)?.status;
+  const msg = error instanceof Error ? error.message : String(error);
+  if (status === 429 || (status !== undefined && status >= 500)) return true;
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|Failed to fetch|NetworkError/.test(msg);
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const withBackoff = async <T>(attempt: () => Promise<T>): Promise<T> => {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      if (retry >= MAX_RETRIES || !isRetryable(error)) throw error;
+      const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** retry);
+      await sleep(delay * (0.75 + Math.random() * 0.5));
+    }
+  }
+};
+
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Sends a request through the active provider with caching, de-duplication of
+ * identical concurrent requests, bounded exponential backoff and schema validation.
+ * `cacheKey` should capture every input that changes the answer (topic, metrics).
+ */
+export const requestAI = <T>(request: AIRequest, cacheKey: string): Promise<T> => {
+  let provider: AIProvider;
+  try {
+    provider = getAIProvider();
+  } catch (error) {
+    // A provider without its key fails on creation; callers still get a rejection
+    return Promise.reject(error);
+  }
+  const key = `${provider.id}:${provider.model}:${request.task}:${hashKey(cacheKey)}`;
+
+  const cached = readCache<T>(key, request.schema);
+  if (cached) return Promise.resolve(cached);
+
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<T>;
+
+  const promise = withBackoff(() => provider.generate(request))
+    .then((text) => {
+      const value = parseResponse<T>(text, request.schema);
+      writeCache(key, value);
+      return value;
+    })
+    .finally(() => inFlight.delete(key));
+
+  inFlight.set(key, promise);
+  return promise;
+};
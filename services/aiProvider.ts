@@ -0,0 +1,61 @@
+
+import { BenchmarkResult } from '../types';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAICompatibleProvider } from './providers/openAICompatibleProvider';
+import { createFixtureProvider } from './providers/fixtureProvider';
+
+// Minimal JSON-schema subset every backend can express
+export interface AIResponseSchema {
+  type: 'object';
+  properties: Record<string, { type: 'string' | 'integer' | 'number' }>;
+  required: string[];
+}
+
+// Each task carries its structured inputs so offline backends can answer without parsing the prompt
+export type AIRequest =
+  | { task: 'insight'; prompt: string; schema: AIResponseSchema; topic: string }
+  | { task: 'benchmark'; prompt: string; schema: AIResponseSchema; modelType: string; local: BenchmarkResult };
+
+export interface AIProvider {
+  id: 'gemini' | 'openai' | 'fixture';
+  model: string;
+  // False for backends that answer from canned data instead of a language model
+  consultsModel: boolean;
+  // Resolves with the raw JSON text of the response
+  generate(request: AIRequest): Promise<string>;
+}
+
+export interface AIConfig {
+  provider: AIProvider['id'];
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+// Injected by vite.config.ts from .env.local
+export const readAIConfig = (): AIConfig => {
+  const requested = process.env.AI_PROVIDER;
+  const provider = requested === 'openai' || requested === 'fixture' ? requested : 'gemini';
+  return {
+    provider,
+    model: process.env.AI_MODEL || undefined,
+    baseUrl: process.env.AI_BASE_URL || undefined,
+    apiKey: (provider === 'gemini' ? process.env.API_KEY : process.env.AI_API_KEY) || undefined
+  };
+};
+
+export const createAIProvider = (config: AIConfig): AIProvider => {
+  switch (config.provider) {
+    case 'openai': return createOpenAICompatibleProvider(config);
+    case 'fixture': return createFixtureProvider();
+    case 'gemini': return createGeminiProvider(config);
+  }
+};
+
+let activeProvider: AIProvider | null = null;
+
+// Chosen once from config on first use and shared by every AI call in the lab
+export const getAIProvider = () => {
+  if (!activeProvider) activeProvider = createAIProvider(readAIConfig());
+  return activeProvider;
+};
@@ -0,0 +1,226 @@
+
+import { cornerIndex, getTriangleCount, getVertexCount, weldByPosition } from './meshBuffer';
+import { analyzeUVs, DEFAULT_TEXTURE_RESOLUTION } from './uvAnalyzer';
+import { BenchmarkCriterion, BenchmarkMetrics, BenchmarkResult, CustomMeshBuffer } from '../types';
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+const measureUVs = (mesh: CustomMeshBuffer, textureResolution: number) => {
+  const summary = analyzeUVs(mesh, textureResolution)?.summary;
+  return {
+    uvCoverage: summary?.coverage ?? 0,
+    uvOverlap: summary?.overlap ?? 0,
+    uvStretch: summary?.stretch ?? 0,
+    uvOutOfBounds: summary?.outOfBounds ?? 0,
+    textureResolution,
+    texelDensity: summary?.texelDensity ?? 0,
+    texelDensitySpread: summary?.densitySpread ?? 0
+  };
+};
+
+/**
+ * Measures the geometry itself: no network, no randomness, so the same buffers
+ * always produce the same metrics. Texel density assumes a square texture of
+ * `textureResolution` texels.
+ */
+export const analyzeMesh = (mesh: CustomMeshBuffer, textureResolution = DEFAULT_TEXTURE_RESOLUTION): BenchmarkMetrics => {
+  const { positions, normals } = mesh;
+  const vertexCount = getVertexCount(mesh);
+  const triangleCount = getTriangleCount(mesh);
+
+  let minX = Infinity, minY = Infinity, minZ = Infinity, maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+  for (let i = 0; i < positions.length; i += 3) {
+    minX = Math.min(minX, positions[i]); maxX = Math.max(maxX, positions[i]);
+    minY = Math.min(minY, positions[i + 1]); maxY = Math.max(maxY, positions[i + 1]);
+    minZ = Math.min(minZ, positions[i + 2]); maxZ = Math.max(maxZ, positions[i + 2]);
+  }
+  const sides = vertexCount ? [maxX - minX, maxY - minY, maxZ - minZ] : [0, 0, 0];
+  const longest = Math.max(...sides);
+  const diagonal = Math.hypot(sides[0], sides[1], sides[2]);
+  const areaEpsilon = (diagonal * 1e-6) ** 2;
+
+  const welded = weldByPosition(positions, diagonal * 1e-5);
+  const edges = new Map<number, number>(); // undirected edge -> signed direction of first use, 0 once paired
+  let pairedEdges = 0, consistentEdges = 0;
+  let degenerateFaces = 0, normalFaces = 0, agreeingFaces = 0;
+
+  for (let t = 0; t < triangleCount; t++) {
+    const a = cornerIndex(mesh, t * 3), b = cornerIndex(mesh, t * 3 + 1), c = cornerIndex(mesh, t * 3 + 2);
+    const e1x = positions[b * 3] - positions[a * 3], e1y = positions[b * 3 + 1] - positions[a * 3 + 1], e1z = positions[b * 3 + 2] - positions[a * 3 + 2];
+    const e2x = positions[c * 3] - positions[a * 3], e2y = positions[c * 3 + 1] - positions[a * 3 + 1], e2z = positions[c * 3 + 2] - positions[a * 3 + 2];
+    const nx = e1y * e2z - e1z * e2y, ny = e1z * e2x - e1x * e2z, nz = e1x * e2y - e1y * e2x;
+    const doubleArea = Math.hypot(nx, ny, nz);
+
+    const wa = welded[a], wb = welded[b], wc = welded[c];
+    if (wa === wb || wb === wc || wc === wa || doubleArea * 0.5 <= areaEpsilon) {
+      degenerateFaces++;
+      continue;
+    }
+
+    if (normals) {
+      const sx = normals[a * 3] + normals[b * 3] + normals[c * 3];
+      const sy = normals[a * 3 + 1] + normals[b * 3 + 1] + normals[c * 3 + 1];
+      const sz = normals[a * 3 + 2] + normals[b * 3 + 2] + normals[c * 3 + 2];
+      normalFaces++;
+      if (sx * nx + sy * ny + sz * nz > 0) agreeingFaces++;
+    }
+
+    // Neighbouring faces wound consistently walk their shared edge in opposite directions
+    for (const [from, to] of [[wa, wb], [wb, wc], [wc, wa]]) {
+      const lo = Math.min(from, to), hi = Math.max(from, to);
+      const key = lo * welded.length + hi;
+      const direction = from < to ? 1 : -1;
+      const seen = edges.get(key);
+      if (seen === undefined) {
+        edges.set(key, direction);
+      } else if (seen !== 0) {
+        pairedEdges++;
+        if (seen !== direction) consistentEdges++;
+        edges.set(key, 0);
+      }
+    }
+  }
+
+  const windingConsistency = pairedEdges ? consistentEdges / pairedEdges : 1;
+  const normalAgreement = normalFaces ? agreeingFaces / normalFaces : 1;
+
+  return {
+    vertexCount,
+    triangleCount,
+    degenerateFaces,
+    hasUVs: !!mesh.uvs,
+    ...measureUVs(mesh, textureResolution),
+    boundingBoxRatio: longest > 0 ? Math.min(...sides) / longest : 0,
+    normalConsistency: triangleCount ? windingConsistency * normalAgreement : 0
+  };
+};
+
+const scoreTriangleBudget = (triangles: number) => {
+  if (triangles === 0) return 0;
+  // Very sparse meshes are cheap but carry little detail
+  if (triangles < 100) return 40 + 40 * (triangles / 100);
+  if (triangles <= 100000) return 100;
+  // Past 100k the cost grows faster than the detail: 1M -> 60, 10M -> 20
+  return Math.max(20, 100 - 40 * Math.log10(triangles / 100000));
+};
+
+const percent = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+export const scoreMetrics = (metrics: BenchmarkMetrics): BenchmarkCriterion[] => {
+  const degenerateRatio = metrics.triangleCount ? metrics.degenerateFaces / metrics.triangleCount : 0;
+  return [
+    {
+      id: 'triangles',
+      label: 'Triangle Budget',
+      score: scoreTriangleBudget(metrics.triangleCount),
+      weight: 0.15,
+      measured: `${metrics.triangleCount.toLocaleString()} tris`
+    },
+    {
+      id: 'degenerate',
+      label: 'Degenerate Faces',
+      score: 100 * (1 - clamp01(degenerateRatio * 20)),
+      weight: 0.15,
+      measured: `${metrics.degenerateFaces.toLocaleString()} (${percent(degenerateRatio)})`
+    },
+    {
+      id: 'uvCoverage',
+      label: 'UV Coverage',
+      score: metrics.hasUVs ? 100 * clamp01(metrics.uvCoverage / 0.65) : 0,
+      weight: 0.1,
+      measured: metrics.hasUVs ? percent(metrics.uvCoverage) : 'NO UVS'
+    },
+    {
+      id: 'uvOverlap',
+      label: 'UV Overlap',
+      score: metrics.hasUVs ? 100 * (1 - clamp01(metrics.uvOverlap * 2)) : 0,
+      weight: 0.1,
+      measured: metrics.hasUVs ? percent(metrics.uvOverlap) : 'NO UVS'
+    },
+    {
+      id: 'uvStretch',
+      label: 'UV Stretch',
+      score: metrics.hasUVs ? 100 * (1 - clamp01(metrics.uvStretch * 2)) : 0,
+      weight: 0.1,
+      measured: metrics.hasUVs ? percent(metrics.uvStretch) : 'NO UVS'
+    },
+    {
+      id: 'uvBounds',
+      label: 'UV Bounds',
+      score: metrics.hasUVs ? 100 * (1 - clamp01(metrics.uvOutOfBounds * 5)) : 0,
+      weight: 0.05,
+      measured: metrics.hasUVs ? `${percent(metrics.uvOutOfBounds)} outside 0-1` : 'NO UVS'
+    },
+    {
+      id: 'texelDensity',
+      label: 'Texel Density',
+      // Even density is what matters; 16x between the sparse and dense tenth scores 0
+      score: metrics.texelDensitySpread > 0 ? 100 * (1 - clamp01(Math.log2(metrics.texelDensitySpread) / 4)) : 0,
+      weight: 0.05,
+      measured: metrics.texelDensitySpread > 0
+        ? `${metrics.texelDensity.toFixed(1)} px/unit @ ${metrics.textureResolution} (${metrics.texelDensitySpread.toFixed(1)}x spread)`
+        : 'NO UVS'
+    },
+    {
+      id: 'proportions',
+      label: 'Bounding Box Ratio',
+      // Flat cards are legitimate assets, so they bottom out at 40 rather than 0
+      score: 40 + 60 * clamp01(metrics.boundingBoxRatio / 0.1),
+      weight: 0.1,
+      measured: metrics.boundingBoxRatio.toFixed(3)
+    },
+    {
+      id: 'normals',
+      label: 'Normal Consistency',
+      score: 100 * metrics.normalConsistency,
+      weight: 0.2,
+      measured: percent(metrics.normalConsistency)
+    }
+  ].map((criterion) => ({ ...criterion, score: Math.round(criterion.score) }));
+};
+
+export const gradeForScore = (score: number) => {
+  if (score >= 95) return 'S';
+  if (score >= 85) return 'A';
+  if (score >= 70) return 'B';
+  if (score >= 55) return 'C';
+  if (score >= 40) return 'D';
+  return 'F';
+};
+
+const RECOMMENDATIONS: Record<string, string> = {
+  triangles: "Rebalance density: decimate flat regions or add supporting loops where silhouettes break.",
+  degenerate: "Merge by distance and delete zero-area faces before export.",
+  uvCoverage: "Repack UV islands to fill the 0-1 space and raise texel density.",
+  uvOverlap: "Separate stacked UV islands or move mirrored shells to a UDIM offset before baking.",
+  uvStretch: "Add seams where the layout shears and relax the islands toward their 3D proportions.",
+  uvBounds: "Pack every island back inside the 0-1 tile unless the material expects tiling.",
+  texelDensity: "Rescale islands to a shared texel density so detail reads evenly across the surface.",
+  proportions: "Check unit scale and axis orientation; the bounds are unusually flat.",
+  normals: "Recalculate normals outside and unify face winding."
+};
+
+/**
+ * Scores the metrics and writes a plain, template-based verdict. This is the
+ * complete result when no language model is consulted.
+ */
+export const createLocalBenchmark = (metrics: BenchmarkMetrics): BenchmarkResult => {
+  const criteria = scoreMetrics(metrics);
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  const score = Math.round(criteria.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight);
+  const weakest = criteria.reduce((worst, c) => (c.score < worst.score ? c : worst), criteria[0]);
+
+  const analysis = weakest.score >= 90
+    ? `All criteria within tolerance across ${metrics.triangleCount.toLocaleString()} triangles.`
+    : `Weakest criterion: ${weakest.label} at ${weakest.measured}.`;
+
+  return {
+    score,
+    grade: gradeForScore(score),
+    analysis,
+    recommendation: weakest.score >= 90 ? "No action required; asset is production-ready." : RECOMMENDATIONS[weakest.id],
+    metrics,
+    criteria,
+    source: 'local'
+  };
+};
@@ -0,0 +1,104 @@
+
+import * as THREE from 'three';
+import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
+
+// Home view shared by the intro screen and the lab
+export const HOME_POSITION = new THREE.Vector3(0, 0, 800);
+const FLIGHT_DURATION = 0.6; // seconds
+const FRAME_MARGIN = 1.15;
+
+export interface CameraNavigation {
+  controls: OrbitControls;
+  setEnabled(enabled: boolean): void;
+  update(delta: number): void;
+  flyTo(target: THREE.Vector3, position: THREE.Vector3): void;
+  focusAt(point: THREE.Vector3): void;
+  frame(object: THREE.Object3D, direction?: THREE.Vector3): void;
+  reset(): void;
+  dispose(): void;
+}
+
+const easeInOut = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+/**
+ * Orbit / pan / dolly-to-cursor navigation with animated focus and framing.
+ * Left drag orbits, right drag (or shift + left) pans, the wheel dollies toward the cursor.
+ */
+export const createCameraNavigation = (camera: THREE.PerspectiveCamera, domElement: HTMLElement): CameraNavigation => {
+  const controls = new OrbitControls(camera, domElement);
+  controls.enableDamping = true;
+  controls.dampingFactor = 0.08;
+  controls.zoomToCursor = true;
+  controls.screenSpacePanning = true;
+  controls.minDistance = 20;
+  controls.maxDistance = 2500;
+  controls.enabled = false;
+
+  let flight: {
+    fromTarget: THREE.Vector3; toTarget: THREE.Vector3;
+    fromPosition: THREE.Vector3; toPosition: THREE.Vector3;
+    t: number;
+  } | null = null;
+
+  const flyTo = (target: THREE.Vector3, position: THREE.Vector3) => {
+    flight = {
+      fromTarget: controls.target.clone(), toTarget: target.clone(),
+      fromPosition: camera.position.clone(), toPosition: position.clone(),
+      t: 0
+    };
+  };
+
+  // Re-targets on a surface point, keeping the viewing direction and moving in a little
+  const focusAt = (point: THREE.Vector3) => {
+    const offset = camera.position.clone().sub(controls.target);
+    const distance = Math.max(controls.minDistance, offset.length() * 0.6);
+    flyTo(point, point.clone().add(offset.setLength(distance)));
+  };
+
+  // Fits the object's bounding sphere into the vertical and horizontal field of view
+  const frame = (object: THREE.Object3D, direction?: THREE.Vector3) => {
+    const box = new THREE.Box3().setFromObject(object);
+    if (box.isEmpty()) return;
+    const sphere = box.getBoundingSphere(new THREE.Sphere());
+
+    const vFov = THREE.MathUtils.degToRad(camera.fov) / 2;
+    const hFov = Math.atan(Math.tan(vFov) * camera.aspect);
+    const distance = (sphere.radius / Math.sin(Math.min(vFov, hFov))) * FRAME_MARGIN;
+
+    const dir = direction ? direction.clone() : camera.position.clone().sub(controls.target);
+    if (dir.lengthSq() === 0) dir.set(0, 0, 1);
+    flyTo(sphere.center, sphere.center.clone().add(dir.setLength(distance)));
+  };
+
+  const update = (delta: number) => {
+    if (flight) {
+      flight.t = Math.min(1, flight.t + delta / FLIGHT_DURATION);
+      const k = easeInOut(flight.t);
+      controls.target.lerpVectors(flight.fromTarget, flight.toTarget, k);
+      camera.position.lerpVectors(flight.fromPosition, flight.toPosition, k);
+      if (flight.t >= 1) flight = null;
+    }
+    if (controls.enabled) controls.update();
+    else camera.lookAt(controls.target);
+  };
+
+  const reset = () => flyTo(new THREE.Vector3(), HOME_POSITION);
+
+  // A user drag cancels any flight in progress
+  const cancelFlight = () => { flight = null; };
+  controls.addEventListener('start', cancelFlight);
+
+  return {
+    controls,
+    setEnabled: (enabled: boolean) => { controls.enabled = enabled; },
+    update,
+    flyTo,
+    focusAt,
+    frame,
+    reset,
+    dispose: () => {
+      controls.removeEventListener('start', cancelFlight);
+      controls.dispose();
+    }
+  };
+};
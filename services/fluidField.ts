@@ -0,0 +1,108 @@
+
+import { Particle } from '../types';
+
+// Reference implementation of the chaos-field fluid. The GPU backend in
+// fluidSimulation.ts runs the same equations in GLSL; keep the two in step.
+
+export interface FluidParams {
+  noiseScale: number;    // Spatial frequency of the curl-noise flow (1 / scene units)
+  noiseSpeed: number;    // How fast the flow pattern evolves (1 / seconds)
+  flowStrength: number;  // Acceleration along the curl field
+  cursorRadius: number;  // Reach of the cursor (scene units)
+  pushStrength: number;  // Radial acceleration away from the cursor
+  swirlStrength: number; // Tangential acceleration around the z axis (the home view axis) through the cursor
+  dragStrength: number;  // How much of the cursor's own velocity is imparted
+  damping: number;       // Velocity decay rate (1 / seconds)
+  homeStrength: number;  // Spring pulling particles back toward their origin
+}
+
+export const DEFAULT_FLUID_PARAMS: FluidParams = {
+  noiseScale: 0.0025,
+  noiseSpeed: 0.15,
+  flowStrength: 25,
+  cursorRadius: 260,
+  pushStrength: 1400,
+  swirlStrength: 900,
+  dragStrength: 4,
+  damping: 1.1,
+  homeStrength: 0.35
+};
+
+export interface FluidCursor {
+  // Position and velocity in the particles' local space
+  x: number; y: number; z: number;
+  vx: number; vy: number; vz: number;
+  active: boolean;
+}
+
+export const createFluidCursor = (): FluidCursor => ({ x: 0, y: 0, z: 0, vx: 0, vy: 0, vz: 0, active: false });
+
+/**
+ * Curl of a sum-of-sines vector potential. Divergence-free by construction, so
+ * the flow folds particles around without bunching them up or draining them away.
+ * Written with the derivatives expanded so the GLSL port is a line-for-line copy.
+ */
+export const curlNoise = (x: number, y: number, z: number, time: number, scale: number, out: number[]) => {
+  const sx = x * scale, sy = y * scale, sz = z * scale;
+  const dPzdy = -1.3 * Math.sin(sy * 1.3 + time * 0.6);
+  const dPydz = Math.cos(sz + time * 1.1);
+  const dPxdz = -1.3 * Math.sin(sz * 1.3 - time * 0.7);
+  const dPzdx = Math.cos(sx - time * 0.9);
+  const dPydx = -1.3 * Math.sin(sx * 1.3 + time * 0.5);
+  const dPxdy = Math.cos(sy + time);
+  out[0] = dPzdy - dPydz;
+  out[1] = dPxdz - dPzdx;
+  out[2] = dPydx - dPxdy;
+  return out;
+};
+
+// Smooth falloff: 1 at the cursor, 0 at the edge of its radius
+const cursorFalloff = (distance: number, radius: number) => {
+  if (distance >= radius) return 0;
+  const k = 1 - distance / radius;
+  return k * k;
+};
+
+/**
+ * Advances every particle by `delta` seconds. Velocities live in vx/vy/vz; density
+ * acts as mass, so dense particles resist the cursor and the flow more.
+ */
+export const stepFluid = (particles: Particle[], cursor: FluidCursor, params: FluidParams, delta: number, time: number) => {
+  if (delta <= 0) return;
+  const curl = [0, 0, 0];
+  const decay = Math.exp(-params.damping * delta);
+  const flowTime = time * params.noiseSpeed;
+
+  for (const p of particles) {
+    const inverseMass = 1 / (0.5 + p.density);
+    curlNoise(p.x, p.y, p.z, flowTime, params.noiseScale, curl);
+    const flow = params.flowStrength * inverseMass;
+    let ax = curl[0] * flow + (p.ox - p.x) * params.homeStrength;
+    let ay = curl[1] * flow + (p.oy - p.y) * params.homeStrength;
+    let az = curl[2] * flow + (p.oz - p.z) * params.homeStrength;
+
+    if (cursor.active) {
+      const dx = p.x - cursor.x, dy = p.y - cursor.y, dz = p.z - cursor.z;
+      const distance = Math.hypot(dx, dy, dz);
+      const falloff = cursorFalloff(distance, params.cursorRadius);
+      if (falloff > 0) {
+        const inv = 1 / (distance || 1);
+        const push = params.pushStrength * falloff * inverseMass;
+        const swirl = params.swirlStrength * falloff * inverseMass;
+        const drag = params.dragStrength * falloff * inverseMass;
+        ax += dx * inv * push - dy * inv * swirl + cursor.vx * drag;
+        ay += dy * inv * push + dx * inv * swirl + cursor.vy * drag;
+        az += dz * inv * push + cursor.vz * drag;
+      }
+    }
+
+    // Positions advance with the velocity from the start of the step, as the GPU
+    // ping-pong does: both passes read the previous frame's textures
+    p.x += p.vx * delta;
+    p.y += p.vy * delta;
+    p.z += p.vz * delta;
+    p.vx = (p.vx + ax * delta) * decay;
+    p.vy = (p.vy + ay * delta) * decay;
+    p.vz = (p.vz + az * delta) * decay;
+  }
+};
@@ -0,0 +1,237 @@
+
+import * as THREE from 'three';
+import { GPUComputationRenderer } from 'three/addons/misc/GPUComputationRenderer.js';
+import { DEFAULT_FLUID_PARAMS, FluidCursor, FluidParams, stepFluid } from './fluidField';
+import { Particle } from '../types';
+
+export type FluidBackend = 'gpu' | 'cpu';
+
+export interface FluidSimulation {
+  backend: FluidBackend;
+  // Per-particle texel centers into the GPU state, for a `simUv` attribute
+  lookup: Float32Array;
+  // Latest positions (xyz) on the GPU; null on the CPU backend
+  getPositionTexture(): THREE.Texture | null;
+  setParams(params: Partial<FluidParams>): void;
+  step(delta: number, time: number, cursor: FluidCursor): void;
+  // Copies particle positions and velocities into the simulation
+  upload(): void;
+  // Copies the simulation state back onto the particles
+  download(): void;
+  dispose(): void;
+}
+
+// Same curl as curlNoise() in fluidField.ts
+const CURL_NOISE_GLSL = /* glsl */`
+  vec3 curlNoise(vec3 p, float time) {
+    vec3 s = p * uNoiseScale;
+    float dPzdy = -1.3 * sin(s.y * 1.3 + time * 0.6);
+    float dPydz = cos(s.z + time * 1.1);
+    float dPxdz = -1.3 * sin(s.z * 1.3 - time * 0.7);
+    float dPzdx = cos(s.x - time * 0.9);
+    float dPydx = -1.3 * sin(s.x * 1.3 + time * 0.5);
+    float dPxdy = cos(s.y + time);
+    return vec3(dPzdy - dPydz, dPxdz - dPzdx, dPydx - dPxdy);
+  }
+`;
+
+// Same acceleration as stepFluid(); `tOrigin.w` carries density
+const VELOCITY_SHADER = /* glsl */`
+  uniform sampler2D tOrigin;
+  uniform float uDelta;
+  uniform float uDecay;
+  uniform float uFlowTime;
+  uniform float uNoiseScale;
+  uniform float uFlowStrength;
+  uniform float uHomeStrength;
+  uniform vec3 uCursor;
+  uniform vec3 uCursorVelocity;
+  uniform float uCursorActive;
+  uniform float uCursorRadius;
+  uniform float uPushStrength;
+  uniform float uSwirlStrength;
+  uniform float uDragStrength;
+  ${CURL_NOISE_GLSL}
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 position = texture2D(texturePosition, uv).xyz;
+    vec3 velocity = texture2D(textureVelocity, uv).xyz;
+    vec4 origin = texture2D(tOrigin, uv);
+    float inverseMass = 1.0 / (0.5 + origin.w);
+
+    vec3 acceleration = curlNoise(position, uFlowTime) * uFlowStrength * inverseMass
+      + (origin.xyz - position) * uHomeStrength;
+
+    if (uCursorActive > 0.5) {
+      vec3 d = position - uCursor;
+      float dist = length(d);
+      if (dist < uCursorRadius) {
+        float k = 1.0 - dist / uCursorRadius;
+        float falloff = k * k * inverseMass;
+        vec3 dir = d / (dist > 0.0 ? dist : 1.0);
+        acceleration += dir * uPushStrength * falloff
+          + vec3(-dir.y, dir.x, 0.0) * uSwirlStrength * falloff
+          + uCursorVelocity * uDragStrength * falloff;
+      }
+    }
+
+    gl_FragColor = vec4((velocity + acceleration * uDelta) * uDecay, 1.0);
+  }
+`;
+
+const POSITION_SHADER = /* glsl */`
+  uniform float uDelta;
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 position = texture2D(texturePosition, uv).xyz;
+    vec3 velocity = texture2D(textureVelocity, uv).xyz;
+    gl_FragColor = vec4(position + velocity * uDelta, 1.0);
+  }
+`;
+
+const createLookup = (count: number, side: number) => {
+  const lookup = new Float32Array(count * 2);
+  for (let i = 0; i < count; i++) {
+    lookup[i * 2] = ((i % side) + 0.5) / side;
+    lookup[i * 2 + 1] = (Math.floor(i / side) + 0.5) / side;
+  }
+  return lookup;
+};
+
+const createCpuSimulation = (particles: Particle[], params: FluidParams, lookup: Float32Array): FluidSimulation => ({
+  backend: 'cpu',
+  lookup,
+  getPositionTexture: () => null,
+  setParams: (next) => Object.assign(params, next),
+  step: (delta, time, cursor) => stepFluid(particles, cursor, params, delta, time),
+  // Particles are the simulation state, so there is nothing to copy
+  upload: () => {},
+  download: () => {},
+  dispose: () => {}
+});
+
+// Float render targets must be readable for download(); software WebGL2 exposes this too
+const supportsGpu = (renderer: THREE.WebGLRenderer) =>
+  renderer.capabilities.maxVertexTextures > 0 && renderer.extensions.has('EXT_color_buffer_float');
+
+const createGpuSimulation = (renderer: THREE.WebGLRenderer, particles: Particle[], params: FluidParams, side: number, lookup: Float32Array): FluidSimulation | null => {
+  const gpu = new GPUComputationRenderer(side, side, renderer);
+
+  const origin = gpu.createTexture();
+  particles.forEach((p, i) => origin.image.data.set([p.ox, p.oy, p.oz, p.density], i * 4));
+
+  const positionVariable = gpu.addVariable('texturePosition', POSITION_SHADER, gpu.createTexture());
+  const velocityVariable = gpu.addVariable('textureVelocity', VELOCITY_SHADER, gpu.createTexture());
+  gpu.setVariableDependencies(positionVariable, [positionVariable, velocityVariable]);
+  gpu.setVariableDependencies(velocityVariable, [positionVariable, velocityVariable]);
+
+  const positionUniforms = positionVariable.material.uniforms;
+  positionUniforms.uDelta = { value: 0 };
+  const uniforms = velocityVariable.material.uniforms;
+  Object.assign(uniforms, {
+    tOrigin: { value: origin },
+    uDelta: { value: 0 },
+    uDecay: { value: 1 },
+    uFlowTime: { value: 0 },
+    uNoiseScale: { value: 0 },
+    uFlowStrength: { value: 0 },
+    uHomeStrength: { value: 0 },
+    uCursor: { value: new THREE.Vector3() },
+    uCursorVelocity: { value: new THREE.Vector3() },
+    uCursorActive: { value: 0 },
+    uCursorRadius: { value: 1 },
+    uPushStrength: { value: 0 },
+    uSwirlStrength: { value: 0 },
+    uDragStrength: { value: 0 }
+  });
+
+  const error = gpu.init();
+  if (error) {
+    console.warn(`Fluid simulation falling back to CPU: ${error}`);
+    gpu.dispose();
+    origin.dispose();
+    return null;
+  }
+
+  const readback = new Float32Array(side * side * 4);
+  const read = (variable: typeof positionVariable) => {
+    renderer.readRenderTargetPixels(gpu.getCurrentRenderTarget(variable), 0, 0, side, side, readback);
+    return readback;
+  };
+
+  const write = (variable: typeof positionVariable, fill: (p: Particle) => number[]) => {
+    const texture = gpu.createTexture();
+    particles.forEach((p, i) => texture.image.data.set(fill(p), i * 4));
+    gpu.renderTexture(texture, gpu.getCurrentRenderTarget(variable));
+    gpu.renderTexture(texture, gpu.getAlternateRenderTarget(variable));
+    texture.dispose();
+  };
+
+  return {
+    backend: 'gpu',
+    lookup,
+    getPositionTexture: () => gpu.getCurrentRenderTarget(positionVariable).texture,
+    setParams: (next) => Object.assign(params, next),
+    step: (delta, time, cursor) => {
+      if (delta <= 0) return;
+      positionUniforms.uDelta.value = delta;
+      uniforms.uDelta.value = delta;
+      uniforms.uDecay.value = Math.exp(-params.damping * delta);
+      uniforms.uFlowTime.value = time * params.noiseSpeed;
+      uniforms.uNoiseScale.value = params.noiseScale;
+      uniforms.uFlowStrength.value = params.flowStrength;
+      uniforms.uHomeStrength.value = params.homeStrength;
+      uniforms.uCursor.value.set(cursor.x, cursor.y, cursor.z);
+      uniforms.uCursorVelocity.value.set(cursor.vx, cursor.vy, cursor.vz);
+      uniforms.uCursorActive.value = cursor.active ? 1 : 0;
+      uniforms.uCursorRadius.value = params.cursorRadius;
+      uniforms.uPushStrength.value = params.pushStrength;
+      uniforms.uSwirlStrength.value = params.swirlStrength;
+      uniforms.uDragStrength.value = params.dragStrength;
+      gpu.compute();
+    },
+    upload: () => {
+      write(positionVariable, (p) => [p.x, p.y, p.z, 1]);
+      write(velocityVariable, (p) => [p.vx, p.vy, p.vz, 1]);
+    },
+    download: () => {
+      const positions = read(positionVariable);
+      particles.forEach((p, i) => {
+        p.x = positions[i * 4];
+        p.y = positions[i * 4 + 1];
+        p.z = positions[i * 4 + 2];
+      });
+      const velocities = read(velocityVariable);
+      particles.forEach((p, i) => {
+        p.vx = velocities[i * 4];
+        p.vy = velocities[i * 4 + 1];
+        p.vz = velocities[i * 4 + 2];
+      });
+    },
+    dispose: () => {
+      gpu.dispose();
+      origin.dispose();
+    }
+  };
+};
+
+/**
+ * Runs the chaos-field fluid on the GPU as a position/velocity ping-pong when float
+ * render targets are available, otherwise steps the particles on the CPU. Pass no
+ * renderer to force the CPU backend.
+ */
+export const createFluidSimulation = (renderer: THREE.WebGLRenderer | null, particles: Particle[], params: Partial<FluidParams> = {}): FluidSimulation => {
+  const settings: FluidParams = { ...DEFAULT_FLUID_PARAMS, ...params };
+  const side = Math.max(1, Math.ceil(Math.sqrt(particles.length)));
+  const lookup = createLookup(particles.length, side);
+
+  if (renderer && supportsGpu(renderer)) {
+    try {
+      const simulation = createGpuSimulation(renderer, particles, settings, side, lookup);
+      if (simulation) return simulation;
+    } catch (error) {
+      console.warn('Fluid simulation falling back to CPU', error);
+    }
+  }
+  return createCpuSimulation(particles, settings, lookup);
+};
@@ -0,0 +1,106 @@
+
+import { getAIProvider, AIResponseSchema } from "./aiProvider";
+import { requestAI } from "./aiClient";
+import { analyzeMesh, createLocalBenchmark } from "./benchmarkEngine";
+import { BenchmarkMetrics, BenchmarkResult, CustomMeshBuffer, LabContent } from "../types";
+
+const INSIGHT_SCHEMA: AIResponseSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    explanation: { type: 'string' },
+    subtext: { type: 'string' }
+  },
+  required: ["title", "explanation", "subtext"]
+};
+
+const BENCHMARK_PROSE_SCHEMA: AIResponseSchema = {
+  type: 'object',
+  properties: {
+    analysis: { type: 'string' },
+    recommendation: { type: 'string' }
+  },
+  required: ["analysis", "recommendation"]
+};
+
+// Handle quota errors gracefully without exploding the console
+const reportFailure = (error: unknown, label: string, fallback: string) => {
+  const msg = error instanceof Error ? error.message : String(error);
+  if (!msg.includes('429') && !msg.includes('RESOURCE_EXHAUSTED')) {
+      console.error(label, error);
+  } else {
+      console.warn(`AI provider quota exceeded. ${fallback}`);
+  }
+};
+
+export const getSpatialInsight = async (topic: string): Promise<LabContent> => {
+  try {
+    return await requestAI<LabContent>({
+      task: 'insight',
+      topic,
+      schema: INSIGHT_SCHEMA,
+      prompt: `You are an AI in a high-tech 3D design laboratory. Provide a profound and technical insight about ${topic}.
+      The explanation should be concise (max 30 words).
+      The title should be a technical name for the concept.
+      The subtext should be a short one-liner about the future of 3D.`
+    }, topic);
+  } catch (error) {
+    reportFailure(error, "Error fetching spatial insight:", "Using cached spatial insight.");
+
+    return {
+      title: "Volumetric Theory",
+      explanation: "3D modeling transcends static pixels, enabling the simulation of physical reality within a digital vacuum.",
+      subtext: "Dimension is not a limit, but a canvas."
+    };
+  }
+};
+
+// Metrics are deterministic, so identical geometry maps to the same cached verdict
+const benchmarkCacheKey = (modelType: string, metrics: BenchmarkMetrics) =>
+  `${modelType}|${JSON.stringify(metrics, (_, v) => (typeof v === 'number' ? Number(v.toFixed(4)) : v))}`;
+
+/**
+ * Scores the model locally, then asks the configured provider to phrase the verdict.
+ * Score, grade and criteria never come from the provider; if the call fails the local
+ * prose is kept and the result stays marked as `source: 'local'`.
+ */
+export const evaluateModel = async (modelType: string, mesh: CustomMeshBuffer, textureResolution?: number): Promise<BenchmarkResult> => {
+  const local = createLocalBenchmark(analyzeMesh(mesh, textureResolution));
+  const { metrics } = local;
+
+  try {
+    // Creating the provider throws when its key is missing; that keeps the local verdict too
+    const provider = getAIProvider();
+    const prose = await requestAI<{ analysis: string; recommendation: string }>({
+      task: 'benchmark',
+      modelType,
+      local,
+      schema: BENCHMARK_PROSE_SCHEMA,
+      prompt: `You are "AetherBot", a harsh, cynical, yet highly technical 3D geometry benchmark system.
+      A deterministic analyzer has already measured and scored this model. Do not re-score it.
+      - Type: ${modelType}
+      - Vertices: ${metrics.vertexCount}, Triangles: ${metrics.triangleCount}
+      - Degenerate Faces: ${metrics.degenerateFaces}
+      - UV Map: ${metrics.hasUVs ? `coverage ${(metrics.uvCoverage * 100).toFixed(1)}%, overlap ${(metrics.uvOverlap * 100).toFixed(1)}%, stretch ${(metrics.uvStretch * 100).toFixed(1)}%, outside 0-1 ${(metrics.uvOutOfBounds * 100).toFixed(1)}%, ${metrics.texelDensity.toFixed(1)} px/unit at ${metrics.textureResolution}px` : 'missing'}
+      - Bounding Box Ratio: ${metrics.boundingBoxRatio.toFixed(3)}
+      - Normal Consistency: ${(metrics.normalConsistency * 100).toFixed(1)}%
+      - Criteria: ${local.criteria.map((c) => `${c.label} ${c.score}/100`).join(', ')}
+      - Final Score: ${local.score} (Grade ${local.grade})
+
+      Output a strict JSON assessment.
+      - Analysis: A short, technical, slightly robotic critique of the weakest criteria (max 20 words).
+      - Recommendation: One technical optimization tip addressing the lowest-scoring criterion.`
+    }, benchmarkCacheKey(modelType, metrics));
+
+    return {
+      ...local,
+      analysis: prose.analysis,
+      recommendation: prose.recommendation,
+      source: provider.consultsModel ? 'ai' : 'fixture',
+      provider: `${provider.id}:${provider.model}`
+    };
+  } catch (error) {
+    reportFailure(error, "Benchmark prose failed", "Using local benchmark prose.");
+    return local;
+  }
+};
@@ -0,0 +1,174 @@
+
+import * as THREE from 'three';
+import { RoomEnvironment } from 'three/addons/environments/RoomEnvironment.js';
+import { HDRLoader } from 'three/addons/loaders/HDRLoader.js';
+import { EXRLoader } from 'three/addons/loaders/EXRLoader.js';
+
+// 'lab' is the original look: plain lights and no environment
+export type LightingPreset = 'lab' | 'studio' | 'overcast' | 'hdri';
+
+export const LIGHTING_PRESETS: Array<{ id: LightingPreset; label: string }> = [
+  { id: 'lab', label: 'LAB' },
+  { id: 'studio', label: 'STUDIO' },
+  { id: 'overcast', label: 'OVERCAST' },
+  { id: 'hdri', label: 'HDRI' },
+];
+
+export type ToneMappingId = 'none' | 'aces' | 'agx' | 'neutral' | 'reinhard';
+
+export const TONE_MAPPINGS: Array<{ id: ToneMappingId; label: string; mapping: THREE.ToneMapping }> = [
+  { id: 'none', label: 'NONE', mapping: THREE.NoToneMapping },
+  { id: 'aces', label: 'ACES', mapping: THREE.ACESFilmicToneMapping },
+  { id: 'agx', label: 'AGX', mapping: THREE.AgXToneMapping },
+  { id: 'neutral', label: 'NEUTRAL', mapping: THREE.NeutralToneMapping },
+  { id: 'reinhard', label: 'REINHARD', mapping: THREE.ReinhardToneMapping },
+];
+
+export const DEFAULT_TONE_MAPPING: ToneMappingId = 'none';
+
+// Exposure is set in stops either side of 0; three.js only applies it through a tone mapping
+export const EXPOSURE_STOPS = 3;
+
+export const ENVIRONMENT_EXTENSIONS = ['.hdr', '.exr'];
+
+export interface LightingRig {
+  lights: THREE.Group;
+  environment: THREE.Texture | null; // PMREM-filtered, for reflections
+  background: THREE.Texture | null; // What a visible background shows
+  environmentIntensity: number;
+  dispose: () => void;
+}
+
+// Directional light at `position` that may cast shadows, aimed at the origin until fitted
+const createDirectional = (color: number, intensity: number, position: [number, number, number], castShadow = false) => {
+  const light = new THREE.DirectionalLight(color, intensity);
+  light.position.set(...position);
+  if (castShadow) {
+    light.castShadow = true;
+    light.shadow.mapSize.set(2048, 2048);
+    light.shadow.bias = -0.0005;
+    light.shadow.normalBias = 0.5;
+  }
+  return light;
+};
+
+// A soft grey sky over a dark ground, standing in for an overcast day
+const createOvercastSky = () => {
+  const scene = new THREE.Scene();
+  const geometry = new THREE.SphereGeometry(1, 32, 16);
+  const position = geometry.attributes.position;
+  const colors = new Float32Array(position.count * 3);
+  const sky = new THREE.Color(0xe8edf2), horizon = new THREE.Color(0xb9c1c9), ground = new THREE.Color(0x3a3d40);
+  const color = new THREE.Color();
+  for (let i = 0; i < position.count; i++) {
+    const y = position.getY(i);
+    if (y >= 0) color.lerpColors(horizon, sky, Math.sqrt(y));
+    else color.lerpColors(horizon, ground, Math.min(1, -y * 4));
+    color.toArray(colors, i * 3);
+  }
+  geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  scene.add(new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ vertexColors: true, side: THREE.BackSide })));
+  return scene;
+};
+
+const disposeScene = (scene: THREE.Scene) => scene.traverse((child: any) => {
+  child.geometry?.dispose();
+  child.material?.dispose();
+});
+
+/**
+ * Lights and environment for one preset. Environments are prefiltered here, so this
+ * needs the renderer that will draw them. `hdri` is an equirectangular map loaded by
+ * `loadEnvironmentMap`; without one the HDRI preset lights like the lab.
+ */
+export const createLightingRig = (preset: LightingPreset, renderer: THREE.WebGLRenderer, hdri: THREE.Texture | null): LightingRig => {
+  const lights = new THREE.Group();
+  const pmrem = new THREE.PMREMGenerator(renderer);
+  let target: THREE.WebGLRenderTarget | null = null;
+  let background: THREE.Texture | null = null;
+  let environmentIntensity = 1;
+
+  if (preset === 'studio') {
+    // Key, fill and rim around the model, reflecting a softly lit room
+    lights.add(createDirectional(0xfff1e0, 2.5, [300, 400, 300], true));
+    lights.add(createDirectional(0xdde8ff, 0.8, [-400, 150, 200]));
+    lights.add(createDirectional(0xffffff, 1.5, [0, 250, -450]));
+    const room = new RoomEnvironment();
+    target = pmrem.fromScene(room, 0.04);
+    room.dispose();
+    environmentIntensity = 0.6;
+  } else if (preset === 'overcast') {
+    // Light comes from the whole sky, so shadows pool softly under the model
+    lights.add(new THREE.HemisphereLight(0xf0f4f8, 0x404448, 1.2));
+    const sun = createDirectional(0xffffff, 0.6, [50, 500, 80], true);
+    sun.shadow.radius = 8;
+    lights.add(sun);
+    const sky = createOvercastSky();
+    target = pmrem.fromScene(sky);
+    disposeScene(sky);
+  } else if (preset === 'hdri' && hdri) {
+    // The map does the lighting; an overhead light only drops a shadow
+    lights.add(createDirectional(0xffffff, 0.8, [0, 500, 0], true));
+    target = pmrem.fromEquirectangular(hdri);
+    background = hdri;
+  } else {
+    lights.add(new THREE.AmbientLight(0xffffff, 0.4));
+    lights.add(createDirectional(0xffffff, 1.5, [200, 500, 500], true));
+    const point = new THREE.PointLight(0xaaccff, 1, 1000);
+    point.position.set(-200, 100, 200);
+    lights.add(point);
+  }
+  pmrem.dispose();
+  // Targets live in the rig, so they follow the scene like the lights do
+  lights.children.slice().forEach((child) => {
+    if ((child as THREE.DirectionalLight).isDirectionalLight) lights.add((child as THREE.DirectionalLight).target);
+  });
+
+  const environment = target?.texture ?? null;
+  return {
+    lights,
+    environment,
+    background: background ?? environment,
+    environmentIntensity,
+    dispose: () => {
+      target?.dispose();
+      lights.traverse((child) => (child as THREE.DirectionalLight).shadow?.dispose());
+    }
+  };
+};
+
+/**
+ * Points every shadow-casting light at `bounds` from its own direction and sizes its
+ * shadow camera to just cover it, so shadow texels are spent on the model.
+ */
+export const fitShadowCameras = (rig: LightingRig, bounds: THREE.Sphere) => {
+  const radius = Math.max(bounds.radius, 1);
+  rig.lights.children.forEach((child) => {
+    const light = child as THREE.DirectionalLight;
+    if (!light.isDirectionalLight || !light.castShadow) return;
+    const direction = light.position.clone().sub(light.target.position).normalize();
+    light.target.position.copy(bounds.center);
+    light.position.copy(bounds.center).addScaledVector(direction, radius * 3);
+    const camera = light.shadow.camera;
+    camera.left = camera.bottom = -radius * 1.5;
+    camera.right = camera.top = radius * 1.5;
+    camera.near = radius;
+    camera.far = radius * 5;
+    camera.updateProjectionMatrix();
+  });
+};
+
+// Reads an equirectangular .hdr or .exr panorama as linear floats
+export const loadEnvironmentMap = async (file: File): Promise<THREE.DataTexture> => {
+  const isExr = file.name.toLowerCase().endsWith('.exr');
+  const loader = isExr ? new EXRLoader() : new HDRLoader();
+  const url = URL.createObjectURL(file);
+  try {
+    const texture = await loader.loadAsync(url);
+    texture.mapping = THREE.EquirectangularReflectionMapping;
+    texture.name = file.name;
+    return texture;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
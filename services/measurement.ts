@@ -0,0 +1,115 @@
+
+import { getTriangleCount, cornerIndex } from './meshBuffer';
+import { validateTopology } from './topologyValidator';
+import type { ModelFormat } from './modelParser';
+import { CustomMeshBuffer } from '../types';
+
+export type MeasureTool = 'distance' | 'angle';
+export type LengthUnit = 'mm' | 'cm' | 'm' | 'in';
+
+export const MEASURE_TOOLS: Array<{ id: MeasureTool; label: string; points: number }> = [
+  { id: 'distance', label: 'DISTANCE', points: 2 },
+  { id: 'angle', label: 'ANGLE', points: 3 },
+];
+
+export const LENGTH_UNITS: Array<{ id: LengthUnit; label: string; meters: number }> = [
+  { id: 'mm', label: 'MM', meters: 0.001 },
+  { id: 'cm', label: 'CM', meters: 0.01 },
+  { id: 'm', label: 'M', meters: 1 },
+  { id: 'in', label: 'IN', meters: 0.0254 },
+];
+
+// glTF is meters by spec; STL comes out of CAD and slicers in millimeters.
+// OBJ and PLY carry no unit, so they are read as meters until the user says otherwise.
+export const DEFAULT_SOURCE_UNITS: Record<ModelFormat, LengthUnit> = {
+  glb: 'm',
+  gltf: 'm',
+  obj: 'm',
+  stl: 'mm',
+  ply: 'm',
+};
+
+// Procedural shapes have no file behind them; one scene unit reads as one millimeter
+export const PRIMITIVE_SOURCE_UNIT: LengthUnit = 'mm';
+
+type Point = [number, number, number];
+
+export interface MeshMeasurements {
+  size: Point; // Bounding box extent along x, y, z
+  area: number;
+  volume: number;
+  closed: boolean;
+}
+
+const getMeters = (unit: LengthUnit) => LENGTH_UNITS.find((u) => u.id === unit)!.meters;
+
+/**
+ * Length in `displayUnit` of one scene unit. `sourceScale` is how many source file
+ * units one scene unit spans after the importer normalized the model.
+ */
+export const getUnitFactor = (sourceScale: number, sourceUnit: LengthUnit, displayUnit: LengthUnit) =>
+  sourceScale * getMeters(sourceUnit) / getMeters(displayUnit);
+
+export const measureDistance = (a: Point, b: Point) => Math.hypot(b[0] - a[0], b[1] - a[1], b[2] - a[2]);
+
+// Angle at `b` between the rays to `a` and `c`, in degrees
+export const measureAngle = (a: Point, b: Point, c: Point) => {
+  const u = [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+  const v = [c[0] - b[0], c[1] - b[1], c[2] - b[2]];
+  const lengths = Math.hypot(u[0], u[1], u[2]) * Math.hypot(v[0], v[1], v[2]);
+  if (lengths === 0) return 0;
+  const cos = (u[0] * v[0] + u[1] * v[1] + u[2] * v[2]) / lengths;
+  return Math.acos(Math.min(1, Math.max(-1, cos))) * 180 / Math.PI;
+};
+
+/**
+ * Bounding-box size, surface area and enclosed volume in scene units. Volume sums
+ * signed tetrahedra against the origin, which is exact only for a closed, consistently
+ * wound surface; `closed` says whether that holds.
+ */
+export const measureMesh = (mesh: CustomMeshBuffer): MeshMeasurements => {
+  const { positions } = mesh;
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i += 3) {
+    for (let k = 0; k < 3; k++) {
+      min[k] = Math.min(min[k], positions[i + k]);
+      max[k] = Math.max(max[k], positions[i + k]);
+    }
+  }
+
+  let area = 0, volume = 0;
+  const faceCount = getTriangleCount(mesh);
+  for (let f = 0; f < faceCount; f++) {
+    const a = cornerIndex(mesh, f * 3) * 3, b = cornerIndex(mesh, f * 3 + 1) * 3, c = cornerIndex(mesh, f * 3 + 2) * 3;
+    const ax = positions[a], ay = positions[a + 1], az = positions[a + 2];
+    const bx = positions[b], by = positions[b + 1], bz = positions[b + 2];
+    const cx = positions[c], cy = positions[c + 1], cz = positions[c + 2];
+    const e1x = bx - ax, e1y = by - ay, e1z = bz - az;
+    const e2x = cx - ax, e2y = cy - ay, e2z = cz - az;
+    area += Math.hypot(e1y * e2z - e1z * e2y, e1z * e2x - e1x * e2z, e1x * e2y - e1y * e2x) / 2;
+    // a · (b × c) is six times the signed volume of the tetrahedron on the origin
+    volume += (ax * (by * cz - bz * cy) + ay * (bz * cx - bx * cz) + az * (bx * cy - by * cx)) / 6;
+  }
+
+  const topology = validateTopology(mesh);
+  const empty = positions.length === 0;
+  return {
+    size: empty ? [0, 0, 0] : [max[0] - min[0], max[1] - min[1], max[2] - min[2]],
+    area,
+    volume: Math.abs(volume),
+    closed: faceCount > 0 && topology.boundaryEdges.length === 0 && topology.nonManifoldEdges.length === 0 && topology.flippedFaces.length === 0
+  };
+};
+
+/**
+ * A scene-space quantity in `unit`, to four significant digits. `power` is 2 for
+ * areas and 3 for volumes.
+ */
+export const formatMeasure = (value: number, factor: number, unit: LengthUnit, power: 1 | 2 | 3 = 1) => {
+  const scaled = value * Math.pow(factor, power);
+  const label = unit + (power === 2 ? '²' : power === 3 ? '³' : '');
+  if (scaled === 0) return `0 ${label}`;
+  const text = Math.abs(scaled) >= 1e6 || Math.abs(scaled) < 1e-3 ? scaled.toExponential(3) : Number(scaled.toPrecision(4)).toLocaleString();
+  return `${text} ${label}`;
+};
@@ -0,0 +1,184 @@
+
+import * as THREE from 'three';
+import { CustomMeshBuffer } from '../types';
+
+type AnyAttribute = THREE.BufferAttribute | THREE.InterleavedBufferAttribute;
+
+// Reads any attribute layout (interleaved, quantized, normalized) into packed floats.
+// Vertex colors arrive as RGB or RGBA; asking for 3 components drops alpha.
+const readFloats = (attribute: AnyAttribute, itemSize: number) => {
+  const out = new Float32Array(attribute.count * itemSize);
+  for (let i = 0; i < attribute.count; i++) {
+    for (let c = 0; c < itemSize; c++) out[i * itemSize + c] = attribute.getComponent(i, c);
+  }
+  return out;
+};
+
+export const getVertexCount = (mesh: CustomMeshBuffer) => mesh.positions.length / 3;
+
+export const getTriangleCount = (mesh: CustomMeshBuffer) =>
+  Math.floor((mesh.index ? mesh.index.length : getVertexCount(mesh)) / 3);
+
+export const cornerIndex = (mesh: CustomMeshBuffer, corner: number) => mesh.index ? mesh.index[corner] : corner;
+
+export const getBoundingDiagonal = (positions: Float32Array) => {
+  if (positions.length === 0) return 0;
+  let minX = Infinity, minY = Infinity, minZ = Infinity, maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+  for (let i = 0; i < positions.length; i += 3) {
+    minX = Math.min(minX, positions[i]); maxX = Math.max(maxX, positions[i]);
+    minY = Math.min(minY, positions[i + 1]); maxY = Math.max(maxY, positions[i + 1]);
+    minZ = Math.min(minZ, positions[i + 2]); maxZ = Math.max(maxZ, positions[i + 2]);
+  }
+  return Math.hypot(maxX - minX, maxY - minY, maxZ - minZ);
+};
+
+// Maps vertices that share a position (split at UV or normal seams) to one id
+export const weldByPosition = (positions: Float32Array, tolerance: number) => {
+  const ids = new Uint32Array(positions.length / 3);
+  const lookup = new Map<string, number>();
+  const inv = 1 / (tolerance || 1);
+  for (let i = 0; i < ids.length; i++) {
+    const key = `${Math.round(positions[i * 3] * inv)},${Math.round(positions[i * 3 + 1] * inv)},${Math.round(positions[i * 3 + 2] * inv)}`;
+    let id = lookup.get(key);
+    if (id === undefined) {
+      id = lookup.size;
+      lookup.set(key, id);
+    }
+    ids[i] = id;
+  }
+  return ids;
+};
+
+export const readCorners = (mesh: CustomMeshBuffer) =>
+  Uint32Array.from({ length: getTriangleCount(mesh) * 3 }, (_, corner) => cornerIndex(mesh, corner));
+
+/**
+ * Builds a buffer from `corners` (vertex indices into `mesh`, three per face),
+ * keeping only the vertices they reference, in first-use order.
+ */
+export const rebuildMesh = (mesh: CustomMeshBuffer, corners: ArrayLike<number>): CustomMeshBuffer => {
+  const remap = new Int32Array(getVertexCount(mesh)).fill(-1);
+  const kept: number[] = [];
+  const index = new Uint32Array(corners.length);
+  for (let i = 0; i < corners.length; i++) {
+    const v = corners[i];
+    if (remap[v] < 0) {
+      remap[v] = kept.length;
+      kept.push(v);
+    }
+    index[i] = remap[v];
+  }
+  const pick = (data: Float32Array | null, size: number) => {
+    if (!data) return null;
+    const out = new Float32Array(kept.length * size);
+    kept.forEach((v, i) => out.set(data.subarray(v * size, v * size + size), i * size));
+    return out;
+  };
+  return {
+    positions: pick(mesh.positions, 3)!,
+    index,
+    normals: pick(mesh.normals, 3),
+    tangents: pick(mesh.tangents, 4),
+    uvs: pick(mesh.uvs, 2),
+    colors: pick(mesh.colors, 3)
+  };
+};
+
+/**
+ * Copies a geometry's attributes into a CustomMeshBuffer, optionally baking a
+ * transform. Normals use the normal matrix and tangents the matrix's rotation; a
+ * mirroring transform also flips the tangent handedness and the triangle winding.
+ */
+export const geometryToMeshBuffer = (geometry: THREE.BufferGeometry, matrix?: THREE.Matrix4): CustomMeshBuffer => {
+  const { attributes } = geometry;
+  const mesh: CustomMeshBuffer = {
+    positions: readFloats(attributes.position, 3),
+    index: geometry.index ? Uint32Array.from(geometry.index.array as ArrayLike<number>) : null,
+    normals: attributes.normal ? readFloats(attributes.normal, 3) : null,
+    tangents: attributes.tangent ? readFloats(attributes.tangent, 4) : null,
+    uvs: attributes.uv ? readFloats(attributes.uv, 2) : null,
+    colors: attributes.color ? readFloats(attributes.color, 3) : null
+  };
+
+  if (matrix) {
+    const normalMatrix = new THREE.Matrix3().getNormalMatrix(matrix);
+    const v = new THREE.Vector3();
+    for (let i = 0; i < mesh.positions.length; i += 3) {
+      v.fromArray(mesh.positions, i).applyMatrix4(matrix).toArray(mesh.positions, i);
+    }
+    if (mesh.normals) {
+      for (let i = 0; i < mesh.normals.length; i += 3) {
+        v.fromArray(mesh.normals, i).applyMatrix3(normalMatrix).normalize().toArray(mesh.normals, i);
+      }
+    }
+    if (mesh.tangents) {
+      for (let i = 0; i < mesh.tangents.length; i += 4) {
+        v.fromArray(mesh.tangents, i).transformDirection(matrix).toArray(mesh.tangents, i);
+      }
+    }
+    // Mirroring transforms flip the winding; swap two corners so faces keep pointing out
+    if (matrix.determinant() < 0) {
+      if (mesh.tangents) {
+        for (let i = 3; i < mesh.tangents.length; i += 4) mesh.tangents[i] = -mesh.tangents[i];
+      }
+      if (!mesh.index) mesh.index = Uint32Array.from({ length: getVertexCount(mesh) }, (_, i) => i);
+      for (let i = 0; i + 2 < mesh.index.length; i += 3) {
+        const tmp = mesh.index[i + 1];
+        mesh.index[i + 1] = mesh.index[i + 2];
+        mesh.index[i + 2] = tmp;
+      }
+    }
+  }
+
+  return mesh;
+};
+
+export const meshBufferToGeometry = (mesh: CustomMeshBuffer): THREE.BufferGeometry => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(mesh.positions, 3));
+  if (mesh.index) geometry.setIndex(new THREE.BufferAttribute(mesh.index, 1));
+  if (mesh.normals) geometry.setAttribute('normal', new THREE.BufferAttribute(mesh.normals, 3));
+  if (mesh.tangents) geometry.setAttribute('tangent', new THREE.BufferAttribute(mesh.tangents, 4));
+  if (mesh.uvs) geometry.setAttribute('uv', new THREE.BufferAttribute(mesh.uvs, 2));
+  if (mesh.colors) geometry.setAttribute('color', new THREE.BufferAttribute(mesh.colors, 3));
+  return geometry;
+};
+
+/**
+ * Concatenates buffers into one indexed buffer. An optional attribute survives only
+ * when every part has it, except colors, which default to white.
+ */
+export const mergeMeshBuffers = (meshes: CustomMeshBuffer[]): CustomMeshBuffer => {
+  const vertexCount = meshes.reduce((sum, mesh) => sum + getVertexCount(mesh), 0);
+  const indexCount = meshes.reduce((sum, mesh) => sum + getTriangleCount(mesh) * 3, 0);
+  const all = (key: keyof CustomMeshBuffer) => meshes.length > 0 && meshes.every((mesh) => !!mesh[key]);
+
+  const merged: CustomMeshBuffer = {
+    positions: new Float32Array(vertexCount * 3),
+    index: new Uint32Array(indexCount),
+    normals: all('normals') ? new Float32Array(vertexCount * 3) : null,
+    tangents: all('tangents') ? new Float32Array(vertexCount * 4) : null,
+    uvs: all('uvs') ? new Float32Array(vertexCount * 2) : null,
+    colors: meshes.some((mesh) => !!mesh.colors) ? new Float32Array(vertexCount * 3).fill(1) : null
+  };
+
+  let vertexOffset = 0;
+  let indexOffset = 0;
+  meshes.forEach((mesh) => {
+    const count = getVertexCount(mesh);
+    merged.positions.set(mesh.positions, vertexOffset * 3);
+    if (merged.normals && mesh.normals) merged.normals.set(mesh.normals, vertexOffset * 3);
+    if (merged.tangents && mesh.tangents) merged.tangents.set(mesh.tangents, vertexOffset * 4);
+    if (merged.uvs && mesh.uvs) merged.uvs.set(mesh.uvs, vertexOffset * 2);
+    if (merged.colors && mesh.colors) merged.colors.set(mesh.colors, vertexOffset * 3);
+
+    const cornerCount = getTriangleCount(mesh) * 3;
+    for (let i = 0; i < cornerCount; i++) {
+      merged.index![indexOffset + i] = (mesh.index ? mesh.index[i] : i) + vertexOffset;
+    }
+    vertexOffset += count;
+    indexOffset += cornerCount;
+  });
+
+  return merged;
+};
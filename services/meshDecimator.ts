@@ -0,0 +1,276 @@
+
+import { getBoundingDiagonal, getTriangleCount, readCorners, rebuildMesh, weldByPosition } from './meshBuffer';
+import { recomputeNormals } from './meshRepair';
+import { CustomMeshBuffer } from '../types';
+
+// Share of faces each LOD keeps relative to the one before it
+export const LOD_RATIO_RANGE = { min: 0.1, max: 0.9, step: 0.05 };
+export const DEFAULT_LOD_RATIO = 0.5;
+export const LOD_LEVELS = 3; // LOD0 (source), LOD1, LOD2
+
+export interface LodLevel {
+  level: number;
+  mesh: CustomMeshBuffer;
+  triangles: number;
+  // Square root of the largest quadric cost paid, in model units: an upper bound
+  // on how far a kept vertex strayed from the planes it replaced
+  error: number;
+}
+
+interface HeapEntry {
+  cost: number;
+  from: number;
+  to: number;
+  stamp: number; // sum of both vertex versions when queued; stale once either changes
+}
+
+const createHeap = () => {
+  const items: HeapEntry[] = [];
+  const push = (entry: HeapEntry) => {
+    items.push(entry);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].cost <= items[i].cost) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  };
+  const pop = () => {
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1, right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].cost < items[smallest].cost) smallest = left;
+        if (right < items.length && items[right].cost < items[smallest].cost) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  };
+  return { push, pop, size: () => items.length };
+};
+
+// Symmetric 4x4 quadric stored as its 10 upper-triangle terms
+const addPlaneQuadric = (q: Float64Array, offset: number, a: number, b: number, c: number, d: number) => {
+  q[offset] += a * a; q[offset + 1] += a * b; q[offset + 2] += a * c; q[offset + 3] += a * d;
+  q[offset + 4] += b * b; q[offset + 5] += b * c; q[offset + 6] += b * d;
+  q[offset + 7] += c * c; q[offset + 8] += c * d;
+  q[offset + 9] += d * d;
+};
+
+const quadricCost = (q: Float64Array, u: number, v: number, x: number, y: number, z: number) => {
+  const s = (k: number) => q[u * 10 + k] + q[v * 10 + k];
+  return s(0) * x * x + 2 * s(1) * x * y + 2 * s(2) * x * z + 2 * s(3) * x
+    + s(4) * y * y + 2 * s(5) * y * z + 2 * s(6) * y
+    + s(7) * z * z + 2 * s(8) * z
+    + s(9);
+};
+
+// Merges vertices that differ only in normal; UV seams stay split and so show up as borders
+const weldForDecimation = (mesh: CustomMeshBuffer) => {
+  const { positions, uvs } = mesh;
+  const welded = weldByPosition(positions, getBoundingDiagonal(positions) * 1e-5);
+  const groups = new Map<string, number>();
+  const target = new Uint32Array(welded.length);
+  for (let v = 0; v < welded.length; v++) {
+    const key = uvs ? `${welded[v]},${Math.round(uvs[v * 2] * 1e4)},${Math.round(uvs[v * 2 + 1] * 1e4)}` : `${welded[v]}`;
+    const first = groups.get(key);
+    if (first === undefined) groups.set(key, v);
+    target[v] = first ?? v;
+  }
+  return rebuildMesh(mesh, readCorners(mesh).map((v) => target[v]));
+};
+
+/**
+ * Quadric-error edge collapse (Garland & Heckbert) down to `ratio` of the faces.
+ * Vertices on borders and UV seams are locked in place, so seams and silhouettes
+ * of open meshes survive; collapses that would flip a face or pinch the surface
+ * are skipped. Normals are recomputed and tangents dropped.
+ */
+export const decimateMesh = (mesh: CustomMeshBuffer, ratio: number): { mesh: CustomMeshBuffer; error: number } => {
+  const work = weldForDecimation(mesh);
+  const { positions, uvs, colors } = work;
+  const faces = readCorners(work);
+  const faceCount = faces.length / 3;
+  const vertexCount = positions.length / 3;
+  const targetFaces = Math.max(1, Math.round(faceCount * ratio));
+
+  const vertexFaces: number[][] = Array.from({ length: vertexCount }, () => []);
+  for (let f = 0; f < faceCount; f++) {
+    for (let k = 0; k < 3; k++) vertexFaces[faces[f * 3 + k]].push(f);
+  }
+
+  // Plane quadrics, unweighted so the cost reads as squared distance
+  const quadrics = new Float64Array(vertexCount * 10);
+  const edgeUse = new Map<number, number>();
+  for (let f = 0; f < faceCount; f++) {
+    const a = faces[f * 3], b = faces[f * 3 + 1], c = faces[f * 3 + 2];
+    const e1x = positions[b * 3] - positions[a * 3], e1y = positions[b * 3 + 1] - positions[a * 3 + 1], e1z = positions[b * 3 + 2] - positions[a * 3 + 2];
+    const e2x = positions[c * 3] - positions[a * 3], e2y = positions[c * 3 + 1] - positions[a * 3 + 1], e2z = positions[c * 3 + 2] - positions[a * 3 + 2];
+    let nx = e1y * e2z - e1z * e2y, ny = e1z * e2x - e1x * e2z, nz = e1x * e2y - e1y * e2x;
+    const length = Math.hypot(nx, ny, nz);
+    if (length > 0) {
+      nx /= length; ny /= length; nz /= length;
+      const d = -(nx * positions[a * 3] + ny * positions[a * 3 + 1] + nz * positions[a * 3 + 2]);
+      for (const v of [a, b, c]) addPlaneQuadric(quadrics, v * 10, nx, ny, nz, d);
+    }
+    for (const [u, v] of [[a, b], [b, c], [c, a]]) {
+      const key = Math.min(u, v) * vertexCount + Math.max(u, v);
+      edgeUse.set(key, (edgeUse.get(key) ?? 0) + 1);
+    }
+  }
+
+  // Anything but an edge shared by exactly two faces pins both of its ends
+  const locked = new Uint8Array(vertexCount);
+  edgeUse.forEach((uses, key) => {
+    if (uses === 2) return;
+    locked[Math.floor(key / vertexCount)] = 1;
+    locked[key % vertexCount] = 1;
+  });
+
+  const version = new Uint32Array(vertexCount);
+  const alive = new Uint8Array(faceCount).fill(1);
+  const heap = createHeap();
+  const target = new Float32Array(3);
+  let targetT = 1; // 0 keeps `from`'s position, 1 keeps `to`'s
+
+  // Candidate positions: either end, or the midpoint when both are free
+  const chooseTarget = (from: number, to: number) => {
+    let best = Infinity;
+    const candidates = locked[to] ? [1] : [0, 0.5, 1];
+    for (const t of candidates) {
+      const end = t === 0 ? from : to;
+      const x = t === 0.5 ? (positions[from * 3] + positions[to * 3]) / 2 : positions[end * 3];
+      const y = t === 0.5 ? (positions[from * 3 + 1] + positions[to * 3 + 1]) / 2 : positions[end * 3 + 1];
+      const z = t === 0.5 ? (positions[from * 3 + 2] + positions[to * 3 + 2]) / 2 : positions[end * 3 + 2];
+      const cost = quadricCost(quadrics, from, to, x, y, z);
+      if (cost < best) {
+        best = cost;
+        targetT = t;
+        target[0] = x; target[1] = y; target[2] = z;
+      }
+    }
+    return best;
+  };
+
+  const queueEdge = (u: number, v: number) => {
+    if (locked[u] && locked[v]) return;
+    // The locked end, if any, is the one that stays
+    const [from, to] = locked[u] ? [v, u] : [u, v];
+    heap.push({ cost: chooseTarget(from, to), from, to, stamp: version[from] + version[to] });
+  };
+
+  const neighbours = (v: number) => {
+    const set = new Set<number>();
+    vertexFaces[v].forEach((f) => {
+      for (let k = 0; k < 3; k++) if (faces[f * 3 + k] !== v) set.add(faces[f * 3 + k]);
+    });
+    return set;
+  };
+
+  edgeUse.forEach((_, key) => queueEdge(Math.floor(key / vertexCount), key % vertexCount));
+
+  // A face around the moved vertex must not turn over or collapse
+  const flipsFace = (moved: number, other: number, x: number, y: number, z: number) =>
+    vertexFaces[moved].some((f) => {
+      const corners = [faces[f * 3], faces[f * 3 + 1], faces[f * 3 + 2]];
+      if (corners.includes(other)) return false;
+      const p = (v: number, axis: number) => positions[v * 3 + axis];
+      const q = (v: number, axis: number) => (v === moved ? [x, y, z][axis] : p(v, axis));
+      const [a, b, c] = corners;
+      const before = [
+        (p(b, 1) - p(a, 1)) * (p(c, 2) - p(a, 2)) - (p(b, 2) - p(a, 2)) * (p(c, 1) - p(a, 1)),
+        (p(b, 2) - p(a, 2)) * (p(c, 0) - p(a, 0)) - (p(b, 0) - p(a, 0)) * (p(c, 2) - p(a, 2)),
+        (p(b, 0) - p(a, 0)) * (p(c, 1) - p(a, 1)) - (p(b, 1) - p(a, 1)) * (p(c, 0) - p(a, 0))
+      ];
+      const after = [
+        (q(b, 1) - q(a, 1)) * (q(c, 2) - q(a, 2)) - (q(b, 2) - q(a, 2)) * (q(c, 1) - q(a, 1)),
+        (q(b, 2) - q(a, 2)) * (q(c, 0) - q(a, 0)) - (q(b, 0) - q(a, 0)) * (q(c, 2) - q(a, 2)),
+        (q(b, 0) - q(a, 0)) * (q(c, 1) - q(a, 1)) - (q(b, 1) - q(a, 1)) * (q(c, 0) - q(a, 0))
+      ];
+      const dot = before[0] * after[0] + before[1] * after[1] + before[2] * after[2];
+      return dot <= 0;
+    });
+
+  let remaining = faceCount;
+  let maxCost = 0;
+  while (remaining > targetFaces && heap.size() > 0) {
+    const { cost, from, to, stamp } = heap.pop();
+    if (stamp !== version[from] + version[to] || vertexFaces[from].length === 0) continue;
+
+    // Link condition: the ends may share only the two vertices opposite their edge
+    const shared = vertexFaces[from].filter((f) => faces[f * 3] === to || faces[f * 3 + 1] === to || faces[f * 3 + 2] === to);
+    if (shared.length !== 2) continue;
+    const fromNeighbours = neighbours(from);
+    let common = 0;
+    neighbours(to).forEach((v) => { if (fromNeighbours.has(v)) common++; });
+    if (common !== 2) continue;
+
+    // A face spanned by three locked vertices would be a sliver along the seam,
+    // turning the seam edge it bridges non-manifold once both sides are welded
+    if (locked[to] && vertexFaces[from].some((f) => !shared.includes(f)
+      && [0, 1, 2].every((k) => faces[f * 3 + k] === from || locked[faces[f * 3 + k]]))) continue;
+
+    chooseTarget(from, to);
+    const [x, y, z] = target;
+    if (flipsFace(from, to, x, y, z) || flipsFace(to, from, x, y, z)) continue;
+
+    // Attributes follow the position: an end keeps its own, the midpoint blends both
+    const t = targetT;
+    const blend = (data: Float32Array | null, size: number) => {
+      if (!data) return;
+      for (let k = 0; k < size; k++) data[to * size + k] = data[from * size + k] + (data[to * size + k] - data[from * size + k]) * t;
+    };
+    blend(uvs, 2);
+    blend(colors, 3);
+    positions[to * 3] = x; positions[to * 3 + 1] = y; positions[to * 3 + 2] = z;
+    for (let k = 0; k < 10; k++) quadrics[to * 10 + k] += quadrics[from * 10 + k];
+
+    vertexFaces[from].forEach((f) => {
+      if (shared.includes(f)) {
+        alive[f] = 0;
+        remaining--;
+        for (let k = 0; k < 3; k++) {
+          const v = faces[f * 3 + k];
+          if (v !== from) vertexFaces[v] = vertexFaces[v].filter((g) => g !== f);
+        }
+        return;
+      }
+      for (let k = 0; k < 3; k++) if (faces[f * 3 + k] === from) faces[f * 3 + k] = to;
+      vertexFaces[to].push(f);
+    });
+    vertexFaces[from] = [];
+    version[from]++;
+    version[to]++;
+    maxCost = Math.max(maxCost, cost);
+
+    neighbours(to).forEach((v) => queueEdge(to, v));
+  }
+
+  const kept = faces.filter((_, corner) => alive[Math.floor(corner / 3)]);
+  let decimated = rebuildMesh({ ...work, tangents: null }, kept);
+  if (mesh.normals) decimated = recomputeNormals(decimated);
+  return { mesh: decimated, error: Math.sqrt(Math.max(0, maxCost)) };
+};
+
+/**
+ * LOD0 is the source itself; each further level decimates the previous one by
+ * `ratio`. Errors add up along the chain, keeping each level's figure an upper
+ * bound against the source.
+ */
+export const buildLodChain = (mesh: CustomMeshBuffer, ratio = DEFAULT_LOD_RATIO, levels = LOD_LEVELS): LodLevel[] => {
+  const chain: LodLevel[] = [{ level: 0, mesh, triangles: getTriangleCount(mesh), error: 0 }];
+  for (let level = 1; level < levels; level++) {
+    const previous = chain[level - 1];
+    const { mesh: decimated, error } = decimateMesh(previous.mesh, ratio);
+    chain.push({ level, mesh: decimated, triangles: getTriangleCount(decimated), error: previous.error + error });
+  }
+  return chain;
+};
@@ -0,0 +1,180 @@
+
+import { getBoundingDiagonal, getTriangleCount, getVertexCount, readCorners, rebuildMesh, weldByPosition } from './meshBuffer';
+import { validateTopology } from './topologyValidator';
+import { CustomMeshBuffer } from '../types';
+
+export type RepairOperation = 'weld' | 'degenerate' | 'winding' | 'holes' | 'normals';
+
+export const REPAIR_OPERATIONS: Array<{ id: RepairOperation; label: string }> = [
+  { id: 'weld', label: 'WELD' },
+  { id: 'degenerate', label: 'DEGENERATES' },
+  { id: 'winding', label: 'WINDING' },
+  { id: 'holes', label: 'FILL HOLES' },
+  { id: 'normals', label: 'NORMALS' },
+];
+
+// Weld distances in model units; imports are normalized to a 400-unit box
+export const WELD_TOLERANCES = [0.001, 0.01, 0.1, 1];
+export const DEFAULT_WELD_TOLERANCE = 0.01;
+
+// Largest hole, in boundary edges, that fill counts as small
+export const HOLE_SIZES = [4, 8, 16, 32];
+export const DEFAULT_HOLE_SIZE = 8;
+
+export interface MeshCounts {
+  vertices: number;
+  faces: number;
+}
+
+export interface RepairResult {
+  operation: RepairOperation;
+  mesh: CustomMeshBuffer;
+  before: MeshCounts;
+  after: MeshCounts;
+}
+
+export interface RepairOptions {
+  tolerance?: number;
+  maxHoleEdges?: number;
+}
+
+const countMesh = (mesh: CustomMeshBuffer): MeshCounts => ({ vertices: getVertexCount(mesh), faces: getTriangleCount(mesh) });
+
+// Same position weld the validator uses, so repairs act on the problems it reported
+const weldSeams = (positions: Float32Array) => weldByPosition(positions, getBoundingDiagonal(positions) * 1e-5);
+
+/**
+ * Merges vertices closer than `tolerance`. Vertices on a UV seam or a hard edge
+ * keep their own copies so the layout and shading survive; the first vertex of
+ * each group supplies the remaining attributes. Faces that collapse are left for
+ * removeDegenerateFaces.
+ */
+export const weldVertices = (mesh: CustomMeshBuffer, tolerance = DEFAULT_WELD_TOLERANCE) => {
+  const { normals, uvs } = mesh;
+  const welded = weldByPosition(mesh.positions, tolerance);
+  const groups = new Map<string, number>();
+  const target = new Uint32Array(welded.length);
+  for (let v = 0; v < welded.length; v++) {
+    let key = `${welded[v]}`;
+    if (uvs) key += `,${Math.round(uvs[v * 2] * 1e4)},${Math.round(uvs[v * 2 + 1] * 1e4)}`;
+    if (normals) key += `,${Math.round(normals[v * 3] * 1e2)},${Math.round(normals[v * 3 + 1] * 1e2)},${Math.round(normals[v * 3 + 2] * 1e2)}`;
+    const first = groups.get(key);
+    if (first === undefined) groups.set(key, v);
+    target[v] = first ?? v;
+  }
+  return rebuildMesh(mesh, readCorners(mesh).map((v) => target[v]));
+};
+
+export const removeDegenerateFaces = (mesh: CustomMeshBuffer) => {
+  const degenerate = new Set(validateTopology(mesh).zeroAreaFaces);
+  const corners = readCorners(mesh);
+  const kept = corners.filter((_, corner) => !degenerate.has(Math.floor(corner / 3)));
+  return rebuildMesh(mesh, kept);
+};
+
+// Flips every face the validator found wound against its surface
+export const unifyWinding = (mesh: CustomMeshBuffer) => {
+  const corners = readCorners(mesh);
+  validateTopology(mesh).flippedFaces.forEach((face) => {
+    const tmp = corners[face * 3 + 1];
+    corners[face * 3 + 1] = corners[face * 3 + 2];
+    corners[face * 3 + 2] = tmp;
+  });
+  return { ...mesh, index: corners };
+};
+
+/**
+ * Closes boundary loops of at most `maxEdges` edges with a triangle fan. The
+ * new faces walk each boundary edge against its face, so they match the winding
+ * around the hole. Larger openings are usually intentional and stay open.
+ */
+export const fillHoles = (mesh: CustomMeshBuffer, maxEdges = DEFAULT_HOLE_SIZE) => {
+  const boundary = validateTopology(mesh).boundaryEdges;
+  const welded = weldSeams(mesh.positions);
+  const edgeCount = boundary.length / 2;
+  const outgoing = new Map<number, number[]>();
+  for (let e = 0; e < edgeCount; e++) {
+    const from = welded[boundary[e * 2]];
+    const list = outgoing.get(from);
+    if (list) list.push(e);
+    else outgoing.set(from, [e]);
+  }
+
+  const used = new Uint8Array(edgeCount);
+  const added: number[] = [];
+  for (let start = 0; start < edgeCount; start++) {
+    if (used[start]) continue;
+    const loop: number[] = [];
+    let edge = start;
+    let closed = false;
+    while (loop.length <= maxEdges) {
+      used[edge] = 1;
+      loop.push(boundary[edge * 2]);
+      const end = welded[boundary[edge * 2 + 1]];
+      if (end === welded[boundary[start * 2]]) {
+        closed = true;
+        break;
+      }
+      const next = outgoing.get(end)?.find((candidate) => !used[candidate]);
+      if (next === undefined) break;
+      edge = next;
+    }
+    if (!closed || loop.length < 3 || loop.length > maxEdges) continue;
+    for (let i = 1; i + 1 < loop.length; i++) added.push(loop[0], loop[i + 1], loop[i]);
+  }
+
+  if (added.length === 0) return mesh;
+  const corners = readCorners(mesh);
+  const index = new Uint32Array(corners.length + added.length);
+  index.set(corners);
+  index.set(added, corners.length);
+  return { ...mesh, index };
+};
+
+/**
+ * Smooth, area-weighted normals shared across seams so split vertices shade as
+ * one. Authored tangents no longer match and are dropped.
+ */
+export const recomputeNormals = (mesh: CustomMeshBuffer) => {
+  const { positions } = mesh;
+  const welded = weldSeams(positions);
+  const sums = new Float32Array(welded.length * 3);
+  const corners = readCorners(mesh);
+  for (let c = 0; c < corners.length; c += 3) {
+    const a = corners[c] * 3, b = corners[c + 1] * 3, d = corners[c + 2] * 3;
+    const e1x = positions[b] - positions[a], e1y = positions[b + 1] - positions[a + 1], e1z = positions[b + 2] - positions[a + 2];
+    const e2x = positions[d] - positions[a], e2y = positions[d + 1] - positions[a + 1], e2z = positions[d + 2] - positions[a + 2];
+    // The unnormalized cross product weights each face by its area
+    const nx = e1y * e2z - e1z * e2y, ny = e1z * e2x - e1x * e2z, nz = e1x * e2y - e1y * e2x;
+    for (let k = 0; k < 3; k++) {
+      const w = welded[corners[c + k]] * 3;
+      sums[w] += nx; sums[w + 1] += ny; sums[w + 2] += nz;
+    }
+  }
+
+  const normals = new Float32Array(positions.length);
+  for (let v = 0; v < welded.length; v++) {
+    const w = welded[v] * 3;
+    const length = Math.hypot(sums[w], sums[w + 1], sums[w + 2]) || 1;
+    normals[v * 3] = sums[w] / length;
+    normals[v * 3 + 1] = sums[w + 1] / length;
+    normals[v * 3 + 2] = sums[w + 2] / length;
+  }
+  return { ...mesh, normals, tangents: null };
+};
+
+/**
+ * Runs one repair and reports vertex and face counts on either side of it.
+ * The input buffers are never modified.
+ */
+export const repairMesh = (mesh: CustomMeshBuffer, operation: RepairOperation, options: RepairOptions = {}): RepairResult => {
+  let repaired: CustomMeshBuffer;
+  switch (operation) {
+    case 'weld': repaired = weldVertices(mesh, options.tolerance); break;
+    case 'degenerate': repaired = removeDegenerateFaces(mesh); break;
+    case 'winding': repaired = unifyWinding(mesh); break;
+    case 'holes': repaired = fillHoles(mesh, options.maxHoleEdges); break;
+    case 'normals': repaired = recomputeNormals(mesh); break;
+  }
+  return { operation, mesh: repaired, before: countMesh(mesh), after: countMesh(repaired) };
+};
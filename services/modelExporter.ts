@@ -0,0 +1,171 @@
+
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/addons/exporters/GLTFExporter.js';
+import { OBJExporter } from 'three/addons/exporters/OBJExporter.js';
+import { STLExporter } from 'three/addons/exporters/STLExporter.js';
+import { PLYExporter } from 'three/addons/exporters/PLYExporter.js';
+
+export type ExportFormat = 'glb' | 'obj' | 'stl' | 'ply';
+
+export const EXPORT_FORMATS: Array<{ id: ExportFormat; label: string }> = [
+  { id: 'glb', label: 'GLB' },
+  { id: 'obj', label: 'OBJ' },
+  { id: 'stl', label: 'STL' },
+  { id: 'ply', label: 'PLY' },
+];
+
+export interface ExportedFile {
+  name: string;
+  blob: Blob;
+}
+
+const sanitizeName = (name: string) => name.replace(/\.[^.]+$/, '').replace(/[^\w-]+/g, '_') || 'model';
+
+// Draws a texture's image into PNG bytes. glTF-style textures (flipY false) are flipped
+// so the PNG matches the bottom-up UV convention OBJ consumers expect.
+const textureToPNG = (texture: THREE.Texture): Promise<Blob | null> => {
+  const image = texture.image as CanvasImageSource & { width: number; height: number } | undefined;
+  if (!image || !image.width || !image.height) return Promise.resolve(null);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.resolve(null);
+  if (!texture.flipY) {
+    ctx.translate(0, canvas.height);
+    ctx.scale(1, -1);
+  }
+  ctx.drawImage(image, 0, 0);
+  return new Promise((resolve) => canvas.toBlob(resolve, 'image/png'));
+};
+
+const collectMeshes = (object: THREE.Object3D) => {
+  const meshes: THREE.Mesh[] = [];
+  object.traverse((child) => {
+    if ((child as THREE.Mesh).isMesh) meshes.push(child as THREE.Mesh);
+  });
+  return meshes;
+};
+
+// OBJ carries materials in a sidecar MTL that references loose texture files
+const exportOBJ = async (object: THREE.Object3D, baseName: string): Promise<ExportedFile[]> => {
+  const meshes = collectMeshes(object);
+  const files: ExportedFile[] = [];
+  const textureNames = new Map<THREE.Texture, string>();
+
+  const writeTexture = async (texture: THREE.Texture | null | undefined) => {
+    if (!texture) return null;
+    const existing = textureNames.get(texture);
+    if (existing) return existing;
+    const blob = await textureToPNG(texture);
+    if (!blob) return null;
+    const name = `${baseName}_tex${textureNames.size}.png`;
+    textureNames.set(texture, name);
+    files.push({ name, blob });
+    return name;
+  };
+
+  // One MTL entry per distinct material; a multi-material mesh references one per group
+  const mtl: string[] = [];
+  const materialNames = new Map<THREE.Material, string>();
+  const nameMaterial = async (material: THREE.MeshStandardMaterial) => {
+    const existing = materialNames.get(material);
+    if (existing) return existing;
+    const name = `material_${materialNames.size}`;
+    materialNames.set(material, name);
+    const color = material.color ?? new THREE.Color(0xffffff);
+    mtl.push(`newmtl ${name}`, `Kd ${color.r.toFixed(4)} ${color.g.toFixed(4)} ${color.b.toFixed(4)}`);
+    if (material.opacity !== undefined && material.opacity < 1) mtl.push(`d ${material.opacity.toFixed(4)}`);
+    const mapName = await writeTexture(material.map);
+    if (mapName) mtl.push(`map_Kd ${mapName}`);
+    const normalName = await writeTexture(material.normalMap);
+    if (normalName) mtl.push(`norm ${normalName}`, `map_Bump ${normalName}`);
+    mtl.push('');
+    return name;
+  };
+
+  // Material name of every face, mesh by mesh. Faces outside all groups take the first material.
+  const faceMaterials: string[][] = [];
+  for (const mesh of meshes) {
+    const materials = (Array.isArray(mesh.material) ? mesh.material : [mesh.material]) as THREE.MeshStandardMaterial[];
+    const names: string[] = [];
+    for (const material of materials) names.push(await nameMaterial(material));
+    const { geometry } = mesh;
+    const faceCount = (geometry.index ? geometry.index.count : geometry.attributes.position.count) / 3;
+    const faces = new Array<string>(faceCount).fill(names[0]);
+    if (materials.length > 1) {
+      geometry.groups.forEach((group) => {
+        const end = Math.min(faceCount, (group.start + group.count) / 3);
+        for (let face = group.start / 3; face < end; face++) faces[face] = names[group.materialIndex ?? 0] ?? names[0];
+      });
+    }
+    faceMaterials.push(faces);
+  }
+
+  // OBJExporter emits one "o" line per mesh in traversal order, then its faces in index
+  // order; switch material wherever the face's group does. Its own usemtl lines name
+  // materials the MTL does not define, so they are dropped.
+  let meshIndex = -1;
+  let faceIndex = 0;
+  let current: string | null = null;
+  const obj = new OBJExporter().parse(object).split('\n').flatMap((line: string) => {
+    if (line.startsWith('usemtl ')) return [];
+    if (line.startsWith('o ')) {
+      meshIndex++;
+      faceIndex = 0;
+      current = null;
+      return [line];
+    }
+    if (!line.startsWith('f ')) return [line];
+    const name = faceMaterials[meshIndex]?.[faceIndex++];
+    if (!name || name === current) return [line];
+    current = name;
+    return [`usemtl ${name}`, line];
+  }).join('\n');
+
+  files.unshift(
+    { name: `${baseName}.obj`, blob: new Blob([`mtllib ${baseName}.mtl\n`, obj], { type: 'text/plain' }) },
+    { name: `${baseName}.mtl`, blob: new Blob([mtl.join('\n')], { type: 'text/plain' }) }
+  );
+  return files;
+};
+
+/**
+ * Serializes the object in the requested format. GLB embeds textures and normal maps;
+ * OBJ writes an MTL plus PNG sidecars; STL is geometry only; PLY keeps UVs, normals
+ * and vertex colors.
+ */
+export const exportModel = async (object: THREE.Object3D, format: ExportFormat, fileName: string): Promise<ExportedFile[]> => {
+  const baseName = sanitizeName(fileName);
+  object.updateMatrixWorld(true);
+
+  switch (format) {
+    case 'glb': {
+      const glb = await new GLTFExporter().parseAsync(object, { binary: true }) as ArrayBuffer;
+      return [{ name: `${baseName}.glb`, blob: new Blob([glb], { type: 'model/gltf-binary' }) }];
+    }
+    case 'obj':
+      return exportOBJ(object, baseName);
+    case 'stl': {
+      const stl = new STLExporter().parse(object, { binary: true }) as DataView;
+      return [{ name: `${baseName}.stl`, blob: new Blob([stl.buffer as ArrayBuffer], { type: 'model/stl' }) }];
+    }
+    case 'ply': {
+      // parse() also returns the result synchronously; no need to wait for the callback frame
+      const ply = new PLYExporter().parse(object, null, { binary: true, littleEndian: true }) as ArrayBuffer;
+      return [{ name: `${baseName}.ply`, blob: new Blob([ply], { type: 'application/octet-stream' }) }];
+    }
+  }
+};
+
+export const downloadFiles = (files: ExportedFile[]) => {
+  files.forEach((file) => {
+    const url = URL.createObjectURL(file.blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.name;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  });
+};
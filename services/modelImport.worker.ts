@@ -0,0 +1,91 @@
+
+import { createCompanionManager, detectModelFormat, getDirectory, mergeSceneMeshes, normalizeScene, parseToObject, MissingResourcesError, ModelFormat, SourceFile } from './modelParser';
+import { serializeScene, TransferScene } from './sceneTransfer';
+import { CustomMeshBuffer } from '../types';
+
+export type ImportPhase = 'read' | 'parse' | 'normalize' | 'merge' | 'transfer' | 'materials';
+
+export interface ImportProgress {
+  phase: ImportPhase;
+  bytesLoaded: number;
+  bytesTotal: number;
+}
+
+export interface ImportRequest {
+  file: SourceFile;
+  companions: SourceFile[];
+}
+
+export type ImportWorkerMessage =
+  | { type: 'progress'; progress: ImportProgress }
+  | { type: 'result'; format: ModelFormat; scene: TransferScene; mesh: CustomMeshBuffer; sourceScale: number; materialLibraries: string[]; missingResources: string[] }
+  | { type: 'error'; message: string; missingResources: string[] };
+
+const post = (message: ImportWorkerMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+// Streams the file so large models report read progress in ~1% steps
+const readWithProgress = async (file: File, onProgress: (loaded: number) => void) => {
+  const bytes = new Uint8Array(file.size);
+  const reader = file.stream().getReader();
+  const step = Math.max(1, Math.floor(file.size / 100));
+  let loaded = 0, reported = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes.set(value, loaded);
+    loaded += value.length;
+    if (loaded - reported >= step) {
+      reported = loaded;
+      onProgress(loaded);
+    }
+  }
+  return bytes.buffer;
+};
+
+const runImport = async ({ file: source, companions }: ImportRequest) => {
+  const { file } = source;
+  const total = file.size;
+  const phase = (name: ImportPhase, loaded = total) => post({ type: 'progress', progress: { phase: name, bytesLoaded: loaded, bytesTotal: total } });
+
+  phase('read', 0);
+  const buffer = await readWithProgress(file, (loaded) => phase('read', loaded));
+  const format = detectModelFormat(file.name, buffer);
+  if (!format) throw new Error(`Unsupported model format: ${file.name}`);
+
+  const { manager, getMissing, revoke } = createCompanionManager(companions, getDirectory(source.path));
+  try {
+    phase('parse');
+    const root = await parseToObject(format, buffer, manager).catch((error) => {
+      // A missing buffer fails the whole parse; the file names say more than the fetch error
+      const missing = getMissing();
+      throw missing.length ? new MissingResourcesError(missing) : error;
+    });
+    // OBJLoader records `mtllib` references for the main thread to resolve
+    const materialLibraries: string[] = (root as { materialLibraries?: string[] }).materialLibraries ?? [];
+
+    phase('normalize');
+    const { scene: normalized, scale } = normalizeScene(root);
+
+    phase('merge');
+    const mesh = mergeSceneMeshes(normalized);
+
+    phase('transfer');
+    const { scene, transfer } = serializeScene(normalized);
+    const meshBuffers = [mesh.positions, mesh.index, mesh.normals, mesh.tangents, mesh.uvs, mesh.colors]
+      .filter((array): array is Float32Array | Uint32Array => array !== null)
+      .map((array) => array.buffer as ArrayBuffer);
+    post({ type: 'result', format, scene, mesh, sourceScale: 1 / scale, materialLibraries, missingResources: getMissing() }, [...new Set([...transfer, ...meshBuffers])]);
+  } finally {
+    revoke();
+  }
+};
+
+self.onmessage = (event: MessageEvent<ImportRequest>) => {
+  runImport(event.data).catch((error) => {
+    post({
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      missingResources: error instanceof MissingResourcesError ? error.resources : []
+    });
+  });
+};
@@ -0,0 +1,188 @@
+
+import * as THREE from 'three';
+import { MTLLoader } from 'three/addons/loaders/MTLLoader.js';
+import { createCompanionManager, findSourceFile, getDirectory, getExtension, MissingResourcesError, MODEL_EXTENSIONS, ModelFormat, SourceFile, toSourceFiles } from './modelParser';
+import { deserializeScene } from './sceneTransfer';
+import { getVertexCount } from './meshBuffer';
+import { CustomMeshBuffer } from '../types';
+import type { ImportProgress, ImportWorkerMessage } from './modelImport.worker';
+
+export { MODEL_EXTENSIONS, COMPANION_EXTENSIONS, MissingResourcesError, toSourceFiles } from './modelParser';
+export type { SourceFile } from './modelParser';
+export type { ImportPhase, ImportProgress } from './modelImport.worker';
+
+export interface ImportedModel {
+  format: ModelFormat;
+  fileName: string;
+  // Normalized node tree; every mesh keeps its own transform and material
+  scene: THREE.Object3D;
+  mesh: CustomMeshBuffer;
+  // Source file units per scene unit, to undo the normalization when measuring
+  sourceScale: number;
+  vertexCount: number;
+  // References no selected file matched; the model loaded without them
+  missingResources: string[];
+}
+
+export interface ImportOptions {
+  onProgress?: (progress: ImportProgress) => void;
+  // Aborting terminates the worker and rejects with an AbortError
+  signal?: AbortSignal;
+}
+
+const abortError = () => new DOMException('Model import cancelled', 'AbortError');
+
+// Runs read, parse, normalize and merge off the main thread
+const runImportWorker = (file: SourceFile, companions: SourceFile[], { onProgress, signal }: ImportOptions) =>
+  new Promise<Extract<ImportWorkerMessage, { type: 'result' }>>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+
+    const worker = new Worker(new URL('./modelImport.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<ImportWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+      finish();
+      if (message.type === 'result') resolve(message);
+      else reject(message.missingResources.length ? new MissingResourcesError(message.missingResources) : new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Model import worker failed'));
+    };
+    worker.postMessage({ file, companions });
+  });
+
+// An `mtllib` line may name several libraries, but names with spaces exist too
+const splitLibraries = (libraries: string[], companions: SourceFile[], baseDirectory: string) =>
+  libraries.map((line) => line.trim()).filter(Boolean)
+    .flatMap((line) => (findSourceFile(companions, line, baseDirectory) ? [line] : line.split(/\s+/)));
+
+// MTLLoader decodes textures through the DOM, so OBJ materials are bound here. Every
+// referenced library is loaded, and texture paths in each are relative to that MTL.
+// When none of them was selected, a lone MTL stands in. Returns the libraries not found.
+const applyOBJMaterials = async (scene: THREE.Object3D, libraries: string[], companions: SourceFile[], baseDirectory: string, manager: THREE.LoadingManager) => {
+  const names = splitLibraries(libraries, companions, baseDirectory);
+  const found = names.map((name) => findSourceFile(companions, name, baseDirectory));
+  let missing = names.filter((_, i) => !found[i]);
+  let mtls = [...new Set(found.filter((source): source is SourceFile => !!source))];
+  if (!mtls.length) {
+    const fallback = companions.find((source) => getExtension(source.file.name) === '.mtl');
+    if (fallback) {
+      mtls = [fallback];
+      missing = [];
+    }
+  }
+
+  const creators = await Promise.all(mtls.map(async (mtl) => {
+    const mtlDirectory = getDirectory(mtl.path).startsWith(baseDirectory) ? getDirectory(mtl.path).slice(baseDirectory.length) : '';
+    const materials = new MTLLoader(manager).parse(await mtl.file.text(), mtlDirectory);
+    materials.preload();
+    return materials;
+  }));
+  // A name defined in several libraries takes the first library's definition
+  const bind = (material: THREE.Material) => creators.find((materials) => materials.materialsInfo[material.name])?.create(material.name) ?? material;
+  scene.traverse((child) => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh) return;
+    mesh.material = Array.isArray(mesh.material) ? mesh.material.map(bind) : bind(mesh.material);
+  });
+  return missing;
+};
+
+const readFileEntry = (entry: FileSystemFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+// Directory readers hand out entries in batches until one comes back empty
+const readDirectoryEntries = async (entry: FileSystemDirectoryEntry) => {
+  const reader = entry.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (!batch.length) return entries;
+    entries.push(...batch);
+  }
+};
+
+const readEntry = async (entry: FileSystemEntry): Promise<SourceFile[]> => {
+  // Skips dotfiles such as .DS_Store that come along with a dropped folder
+  if (entry.name.startsWith('.')) return [];
+  if (entry.isFile) return [{ file: await readFileEntry(entry as FileSystemFileEntry), path: entry.fullPath.replace(/^\//, '') }];
+  const children = await readDirectoryEntries(entry as FileSystemDirectoryEntry);
+  return (await Promise.all(children.map(readEntry))).flat();
+};
+
+/**
+ * Every file in a drop, walking into dropped folders so paths keep their directories.
+ * Call it from the drop handler itself: the browser empties the transfer afterwards.
+ */
+export const readDroppedFiles = async (data: DataTransfer): Promise<SourceFile[]> => {
+  const entries = Array.from(data.items)
+    .map((item) => (item.kind === 'file' ? item.webkitGetAsEntry() : null))
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  if (!entries.length) return toSourceFiles(Array.from(data.files));
+  return (await Promise.all(entries.map(readEntry))).flat();
+};
+
+/**
+ * Imports the first recognized model among the selected files, preferring the one
+ * nearest the top of a dropped folder. Parsing runs in a worker; the full node tree
+ * is kept for rendering and a merged model-space copy feeds the benchmark.
+ */
+export const importModelFiles = async (files: SourceFile[], options: ImportOptions = {}): Promise<ImportedModel> => {
+  const depth = (source: SourceFile) => source.path.split('/').length;
+  const models = files.filter((source) => MODEL_EXTENSIONS.includes(getExtension(source.file.name)));
+  const model = models.reduce<SourceFile | undefined>((best, source) => (!best || depth(source) < depth(best) ? source : best), undefined) ?? files[0];
+  if (!model) throw new Error("No model file selected");
+
+  const modelFile = model.file;
+  const companions = files.filter((source) => source !== model);
+  const result = await runImportWorker(model, companions, options);
+  const scene = deserializeScene(result.scene);
+  const missingResources = [...result.missingResources];
+
+  if (result.format === 'obj') {
+    options.onProgress?.({ phase: 'materials', bytesLoaded: modelFile.size, bytesTotal: modelFile.size });
+    const baseDirectory = getDirectory(model.path);
+    const { manager, whenLoaded, getMissing, revoke } = createCompanionManager(companions, baseDirectory);
+    try {
+      missingResources.push(...await applyOBJMaterials(scene, result.materialLibraries, companions, baseDirectory, manager));
+      await whenLoaded();
+      missingResources.push(...getMissing());
+    } finally {
+      revoke();
+    }
+    if (options.signal?.aborted) throw abortError();
+  }
+
+  scene.traverse((child) => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh) return;
+    const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    materials.forEach((mat) => {
+      const map = (mat as THREE.MeshStandardMaterial | undefined)?.map;
+      if (map) map.colorSpace = THREE.SRGBColorSpace;
+    });
+  });
+
+  return {
+    format: result.format,
+    fileName: modelFile.name,
+    scene,
+    mesh: result.mesh,
+    sourceScale: result.sourceScale,
+    vertexCount: getVertexCount(result.mesh),
+    missingResources
+  };
+};
@@ -0,0 +1,197 @@
+
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
+import { OBJLoader } from 'three/addons/loaders/OBJLoader.js';
+import { STLLoader } from 'three/addons/loaders/STLLoader.js';
+import { PLYLoader } from 'three/addons/loaders/PLYLoader.js';
+import { geometryToMeshBuffer, mergeMeshBuffers } from './meshBuffer';
+import { CustomMeshBuffer } from '../types';
+
+export type ModelFormat = 'glb' | 'gltf' | 'obj' | 'stl' | 'ply';
+
+// File types the import dialog offers. Companion files (.mtl, .bin, textures) ride along with the model.
+export const MODEL_EXTENSIONS = ['.glb', '.gltf', '.obj', '.stl', '.ply'];
+export const COMPANION_EXTENSIONS = ['.mtl', '.bin', '.png', '.jpg', '.jpeg', '.webp'];
+
+// A selected or dropped file with its path inside the selection, e.g. "scene/textures/wood.png"
+export interface SourceFile {
+  file: File;
+  path: string;
+}
+
+// Thrown when the model cannot be built without files the selection did not include
+export class MissingResourcesError extends Error {
+  constructor(readonly resources: string[]) {
+    super(`Missing resources: ${resources.join(', ')}`);
+    this.name = 'MissingResourcesError';
+  }
+}
+
+// Largest dimension of every imported model after normalization (scene units)
+export const NORMALIZED_SIZE = 400;
+
+export const getExtension = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.slice(dot).toLowerCase() : '';
+};
+
+const decodePath = (path: string) => {
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return path;
+  }
+};
+
+// Lowercase, forward slashes, with "." and ".." segments folded away
+const normalizePath = (path: string) => {
+  const parts: string[] = [];
+  decodePath(path.split(/[?#]/)[0]).replace(/\\/g, '/').split('/').forEach((part) => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/').toLowerCase();
+};
+
+const getBaseName = (path: string) => normalizePath(path).split('/').pop() ?? '';
+
+// Directory part of a selection path, with a trailing slash ("" at the top)
+export const getDirectory = (path: string) => path.slice(0, path.lastIndexOf('/') + 1);
+
+export const toSourceFiles = (files: File[]): SourceFile[] =>
+  files.map((file) => ({ file, path: file.webkitRelativePath || file.name }));
+
+/**
+ * The file a relative URI points at: first by its path from `baseDirectory`, then by
+ * file name alone, since flat selections lose the folders the model was authored in.
+ */
+export const findSourceFile = (files: SourceFile[], uri: string, baseDirectory = '') => {
+  const path = normalizePath(baseDirectory + uri);
+  const name = getBaseName(uri);
+  return files.find((source) => normalizePath(source.path) === path)
+    ?? files.find((source) => getBaseName(source.path) === name);
+};
+
+const readAscii = (buffer: ArrayBuffer, length: number) => {
+  const bytes = new Uint8Array(buffer, 0, Math.min(length, buffer.byteLength));
+  let text = '';
+  for (let i = 0; i < bytes.length; i++) text += String.fromCharCode(bytes[i]);
+  return text;
+};
+
+const isBinarySTL = (buffer: ArrayBuffer) => {
+  if (buffer.byteLength < 84) return false;
+  const faceCount = new DataView(buffer).getUint32(80, true);
+  return 84 + faceCount * 50 === buffer.byteLength;
+};
+
+/**
+ * Identifies the model format from magic bytes, falling back to the extension
+ * when the header is ambiguous (OBJ has no signature).
+ */
+export const detectModelFormat = (fileName: string, buffer: ArrayBuffer): ModelFormat | null => {
+  const head = readAscii(buffer, 512);
+
+  if (head.startsWith('glTF')) return 'glb';
+  if (/^ply\r?\n/.test(head)) return 'ply';
+  // A binary STL header may itself start with "solid", so the size check wins
+  if (isBinarySTL(buffer)) return 'stl';
+  if (/^\s*solid\b/.test(head)) return 'stl';
+  if (/^\s*\{/.test(head) && head.includes('"asset"')) return 'gltf';
+  if (/^(v|vt|vn|f|o|g|mtllib|usemtl)\s/m.test(head)) return 'obj';
+
+  const ext = getExtension(fileName).slice(1);
+  if (ext === 'glb' || ext === 'gltf' || ext === 'obj' || ext === 'stl' || ext === 'ply') return ext;
+  return null;
+};
+
+// Resolves buffer, texture and material references against the files selected alongside
+// the model, relative to the model's own directory. References nothing matches are kept
+// for `getMissing`. Blob URLs work on both sides of the worker boundary.
+export const createCompanionManager = (companions: SourceFile[], baseDirectory = '') => {
+  const urls = new Map<SourceFile, string>();
+  const missing = new Set<string>();
+
+  const manager = new THREE.LoadingManager();
+  manager.setURLModifier((url: string) => {
+    if (/^(data|blob|https?):/i.test(url)) return url;
+    const source = findSourceFile(companions, url, baseDirectory);
+    if (!source) {
+      missing.add(decodePath(url.split(/[?#]/)[0]));
+      return url;
+    }
+    if (!urls.has(source)) urls.set(source, URL.createObjectURL(source.file));
+    return urls.get(source)!;
+  });
+
+  // Resolves once every texture the parsers queued on the manager has finished loading
+  let started = false;
+  const settled = new Promise<void>((resolve) => { manager.onLoad = resolve; });
+  manager.onStart = () => { started = true; };
+  const whenLoaded = () => (started ? settled : Promise.resolve());
+
+  const getMissing = () => [...missing];
+  const revoke = () => urls.forEach((url) => URL.revokeObjectURL(url));
+  return { manager, whenLoaded, getMissing, revoke };
+};
+
+/**
+ * Parses the model into a node tree. Safe to run in a worker: OBJ materials come from
+ * the MTL on the main thread, since MTLLoader decodes textures through the DOM.
+ */
+export const parseToObject = async (format: ModelFormat, buffer: ArrayBuffer, manager: THREE.LoadingManager): Promise<THREE.Object3D> => {
+  switch (format) {
+    case 'glb':
+    case 'gltf': {
+      const gltf = await new GLTFLoader(manager).parseAsync(buffer, '');
+      // Clips target nodes by name, so they travel with the tree they animate
+      gltf.scene.animations = gltf.animations;
+      return gltf.scene;
+    }
+    case 'obj':
+      return new OBJLoader(manager).parse(new TextDecoder().decode(buffer)) as THREE.Object3D;
+    case 'stl': {
+      const geometry = new STLLoader(manager).parse(buffer);
+      return new THREE.Mesh(geometry);
+    }
+    case 'ply': {
+      const geometry = new PLYLoader(manager).parse(buffer);
+      return new THREE.Mesh(geometry);
+    }
+  }
+};
+
+// Wraps the parsed hierarchy so its bounding box is centered on the origin with a
+// NORMALIZED_SIZE largest dimension. The outer group stays identity so the lab can
+// spin it without orbiting the offset. `scale` is scene units per source unit.
+export const normalizeScene = (root: THREE.Object3D) => {
+  const box = new THREE.Box3().setFromObject(root);
+  const center = new THREE.Vector3();
+  const size = new THREE.Vector3();
+  box.getCenter(center);
+  box.getSize(size);
+  const scale = NORMALIZED_SIZE / (Math.max(size.x, size.y, size.z) || 1);
+
+  const fit = new THREE.Group();
+  fit.name = 'normalize';
+  fit.scale.setScalar(scale);
+  fit.position.copy(center).multiplyScalar(-scale);
+  fit.add(root);
+
+  const scene = new THREE.Group();
+  scene.name = root.name || 'ImportedModel';
+  scene.add(fit);
+  scene.updateMatrixWorld(true);
+  return { scene, scale };
+};
+
+// Bakes every mesh into one indexed model-space buffer so benchmarks see the whole asset
+export const mergeSceneMeshes = (scene: THREE.Object3D) => {
+  const parts: CustomMeshBuffer[] = [];
+  scene.traverse((child) => {
+    const mesh = child as THREE.Mesh;
+    if (mesh.isMesh && mesh.geometry) parts.push(geometryToMeshBuffer(mesh.geometry, mesh.matrixWorld));
+  });
+  if (parts.length === 0) throw new Error("No geometry found in model");
+  return mergeMeshBuffers(parts);
+};
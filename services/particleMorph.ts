@@ -0,0 +1,207 @@
+
+import { Particle } from '../types';
+
+export type MorphEasing = 'linear' | 'easeOut' | 'easeInOut' | 'spring';
+
+export const MORPH_EASINGS: Array<{ id: MorphEasing; label: string }> = [
+  { id: 'easeInOut', label: 'EASE IN-OUT' },
+  { id: 'easeOut', label: 'EASE OUT' },
+  { id: 'linear', label: 'LINEAR' },
+  { id: 'spring', label: 'SPRING' },
+];
+
+export interface MorphOptions {
+  // 1 flies in BASE_DURATION seconds; 2 takes half as long
+  speed: number;
+  easing: MorphEasing;
+}
+
+export const DEFAULT_MORPH_OPTIONS: MorphOptions = { speed: 1, easing: 'easeInOut' };
+
+const BASE_DURATION = 1.8; // seconds at speed 1
+// Share of the flight used to stagger departures; denser particles leave later
+const STAGGER = 0.35;
+const SETTLE_DISTANCE = 0.05;
+
+// Unset fields keep their current value instead of clobbering it with undefined
+const definedOptions = (options: Partial<MorphOptions>) =>
+  Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) as Partial<MorphOptions>;
+
+const EASINGS: Record<Exclude<MorphEasing, 'spring'>, (t: number) => number> = {
+  linear: (t) => t,
+  easeOut: (t) => 1 - Math.pow(1 - t, 3),
+  easeInOut: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2)
+};
+
+export interface ParticleMorph {
+  particles: Particle[];
+  // True once every particle has reached its target
+  isSettled(): boolean;
+  // True while the targets are the particles' own origins
+  isAtHome(): boolean;
+  setOptions(options: Partial<MorphOptions>): void;
+  // Flies every particle from where it is now to the xyz triplets; reuses targets when fewer are given
+  morphTo(targets: ArrayLike<number>): void;
+  reset(): void;
+  // Bakes an affine transform (column-major 4x4) into current positions and velocities
+  applyMatrix(elements: ArrayLike<number>): void;
+  update(delta: number): void;
+  writePositions(out: Float32Array): void;
+}
+
+/**
+ * Scatters particles uniformly through a cube of side `spread` centered on the
+ * origin. That scatter is each particle's origin, the place reset() returns it to.
+ */
+export const createParticleField = (count: number, spread: number, random: () => number = Math.random): Particle[] =>
+  Array.from({ length: count }, () => {
+    const ox = (random() - 0.5) * spread;
+    const oy = (random() - 0.5) * spread;
+    const oz = (random() - 0.5) * spread;
+    return {
+      x: ox, y: oy, z: oz,
+      tx: ox, ty: oy, tz: oz,
+      ox, oy, oz,
+      vx: 0, vy: 0, vz: 0,
+      size: random() * 2 + 1,
+      color: '#ffffff',
+      density: random()
+    };
+  });
+
+/**
+ * Keeps one persistent set of particles and flies them between shapes. Tweened
+ * easings interpolate from the positions at the moment of the call, so re-targeting
+ * mid-flight never jumps; 'spring' integrates the velocity fields instead.
+ */
+export const createParticleMorph = (particles: Particle[], initial: Partial<MorphOptions> = {}): ParticleMorph => {
+  const options: MorphOptions = { ...DEFAULT_MORPH_OPTIONS, ...definedOptions(initial) };
+  const starts = new Float32Array(particles.length * 3);
+  let progress = 1;
+  let settled = true;
+  let atHome = true;
+
+  const begin = () => {
+    particles.forEach((p, i) => {
+      starts[i * 3] = p.x;
+      starts[i * 3 + 1] = p.y;
+      starts[i * 3 + 2] = p.z;
+    });
+    progress = 0;
+    settled = false;
+  };
+
+  const morphTo = (targets: ArrayLike<number>) => {
+    const available = Math.floor(targets.length / 3);
+    if (available === 0) return;
+    particles.forEach((p, i) => {
+      const j = (i % available) * 3;
+      p.tx = targets[j];
+      p.ty = targets[j + 1];
+      p.tz = targets[j + 2];
+    });
+    atHome = false;
+    begin();
+  };
+
+  const reset = () => {
+    particles.forEach((p) => {
+      p.tx = p.ox;
+      p.ty = p.oy;
+      p.tz = p.oz;
+    });
+    atHome = true;
+    begin();
+  };
+
+  const applyMatrix = (m: ArrayLike<number>) => {
+    particles.forEach((p, i) => {
+      const { x, y, z, vx, vy, vz } = p;
+      p.x = m[0] * x + m[4] * y + m[8] * z + m[12];
+      p.y = m[1] * x + m[5] * y + m[9] * z + m[13];
+      p.z = m[2] * x + m[6] * y + m[10] * z + m[14];
+      p.vx = m[0] * vx + m[4] * vy + m[8] * vz;
+      p.vy = m[1] * vx + m[5] * vy + m[9] * vz;
+      p.vz = m[2] * vx + m[6] * vy + m[10] * vz;
+      starts[i * 3] = p.x;
+      starts[i * 3 + 1] = p.y;
+      starts[i * 3 + 2] = p.z;
+    });
+    // The remaining flight restarts from the transformed positions
+    if (!settled) progress = 0;
+  };
+
+  // Critically damped-ish spring whose period follows the configured speed
+  const stepSpring = (delta: number) => {
+    const omega = (2 * Math.PI * options.speed) / BASE_DURATION;
+    const stiffness = omega * omega;
+    const damping = 1.4 * omega;
+    // Sub-step so large frame gaps stay stable
+    const steps = Math.max(1, Math.ceil(delta / (1 / 120)));
+    const dt = delta / steps;
+    let moving = false;
+    particles.forEach((p) => {
+      for (let s = 0; s < steps; s++) {
+        p.vx += ((p.tx - p.x) * stiffness - p.vx * damping) * dt;
+        p.vy += ((p.ty - p.y) * stiffness - p.vy * damping) * dt;
+        p.vz += ((p.tz - p.z) * stiffness - p.vz * damping) * dt;
+        p.x += p.vx * dt;
+        p.y += p.vy * dt;
+        p.z += p.vz * dt;
+      }
+      const offset = Math.abs(p.tx - p.x) + Math.abs(p.ty - p.y) + Math.abs(p.tz - p.z);
+      const speed = Math.abs(p.vx) + Math.abs(p.vy) + Math.abs(p.vz);
+      if (offset > SETTLE_DISTANCE || speed > SETTLE_DISTANCE) moving = true;
+    });
+    if (moving) return;
+    particles.forEach((p) => {
+      p.x = p.tx; p.y = p.ty; p.z = p.tz;
+      p.vx = p.vy = p.vz = 0;
+    });
+    settled = true;
+  };
+
+  const stepTween = (delta: number) => {
+    progress = Math.min(1, progress + (delta * options.speed) / BASE_DURATION);
+    const ease = EASINGS[options.easing as Exclude<MorphEasing, 'spring'>] ?? EASINGS.easeInOut;
+    particles.forEach((p, i) => {
+      const local = Math.min(1, Math.max(0, (progress - p.density * STAGGER) / (1 - STAGGER)));
+      const k = ease(local);
+      p.x = starts[i * 3] + (p.tx - starts[i * 3]) * k;
+      p.y = starts[i * 3 + 1] + (p.ty - starts[i * 3 + 1]) * k;
+      p.z = starts[i * 3 + 2] + (p.tz - starts[i * 3 + 2]) * k;
+      p.vx = p.vy = p.vz = 0;
+    });
+    if (progress >= 1) settled = true;
+  };
+
+  const update = (delta: number) => {
+    if (settled || delta <= 0) return;
+    if (options.easing === 'spring') stepSpring(delta);
+    else stepTween(delta);
+  };
+
+  const writePositions = (out: Float32Array) => {
+    particles.forEach((p, i) => {
+      out[i * 3] = p.x;
+      out[i * 3 + 1] = p.y;
+      out[i * 3 + 2] = p.z;
+    });
+  };
+
+  return {
+    particles,
+    isSettled: () => settled,
+    isAtHome: () => atHome,
+    setOptions: (next) => {
+      // Switching between tween and spring mid-flight restarts from the current positions
+      if (next.easing && (next.easing === 'spring') !== (options.easing === 'spring') && !settled) begin();
+      Object.assign(options, definedOptions(next));
+    },
+    morphTo,
+    reset,
+    applyMatrix,
+    update,
+    writePositions
+  };
+};
@@ -0,0 +1,222 @@
+
+import * as THREE from 'three';
+
+// glTF alpha modes, as three.js expresses them: blending, an alpha cutoff, or neither
+export type AlphaMode = 'OPAQUE' | 'MASK' | 'BLEND';
+export const ALPHA_MODES: AlphaMode[] = ['OPAQUE', 'MASK', 'BLEND'];
+
+// The core metallic-roughness model, then the KHR extensions three.js renders
+export type MaterialGroup = 'base' | 'clearcoat' | 'transmission' | 'sheen';
+
+export const MATERIAL_GROUPS: Array<{ id: MaterialGroup; label: string }> = [
+  { id: 'base', label: 'METALLIC-ROUGHNESS' },
+  { id: 'clearcoat', label: 'CLEARCOAT' },
+  { id: 'transmission', label: 'TRANSMISSION' },
+  { id: 'sheen', label: 'SHEEN' },
+];
+
+// Slots under their three.js names. glTF packs metalness (B) and roughness (G) into
+// one texture, which the loader assigns to both slots.
+export const MATERIAL_TEXTURE_SLOTS: Array<{ id: string; label: string; group: MaterialGroup }> = [
+  { id: 'map', label: 'BASE COLOR', group: 'base' },
+  { id: 'metalnessMap', label: 'METALLIC', group: 'base' },
+  { id: 'roughnessMap', label: 'ROUGHNESS', group: 'base' },
+  { id: 'normalMap', label: 'NORMAL', group: 'base' },
+  { id: 'aoMap', label: 'OCCLUSION', group: 'base' },
+  { id: 'emissiveMap', label: 'EMISSIVE', group: 'base' },
+  { id: 'clearcoatMap', label: 'COAT', group: 'clearcoat' },
+  { id: 'clearcoatRoughnessMap', label: 'COAT ROUGH', group: 'clearcoat' },
+  { id: 'clearcoatNormalMap', label: 'COAT NORMAL', group: 'clearcoat' },
+  { id: 'transmissionMap', label: 'TRANSMISSION', group: 'transmission' },
+  { id: 'thicknessMap', label: 'THICKNESS', group: 'transmission' },
+  { id: 'sheenColorMap', label: 'SHEEN COLOR', group: 'sheen' },
+  { id: 'sheenRoughnessMap', label: 'SHEEN ROUGH', group: 'sheen' },
+];
+
+export const MATERIAL_FACTORS: Array<{ id: string; label: string; group: MaterialGroup; min: number; max: number; step: number }> = [
+  { id: 'metalness', label: 'METALLIC', group: 'base', min: 0, max: 1, step: 0.01 },
+  { id: 'roughness', label: 'ROUGHNESS', group: 'base', min: 0, max: 1, step: 0.01 },
+  { id: 'aoMapIntensity', label: 'OCCLUSION', group: 'base', min: 0, max: 1, step: 0.01 },
+  { id: 'emissiveIntensity', label: 'EMISSIVE', group: 'base', min: 0, max: 10, step: 0.1 },
+  { id: 'opacity', label: 'OPACITY', group: 'base', min: 0, max: 1, step: 0.01 },
+  { id: 'alphaTest', label: 'CUTOFF', group: 'base', min: 0, max: 1, step: 0.01 },
+  { id: 'clearcoat', label: 'COAT', group: 'clearcoat', min: 0, max: 1, step: 0.01 },
+  { id: 'clearcoatRoughness', label: 'COAT ROUGH', group: 'clearcoat', min: 0, max: 1, step: 0.01 },
+  { id: 'transmission', label: 'TRANSMISSION', group: 'transmission', min: 0, max: 1, step: 0.01 },
+  { id: 'thickness', label: 'THICKNESS', group: 'transmission', min: 0, max: 5, step: 0.01 },
+  { id: 'ior', label: 'IOR', group: 'transmission', min: 1, max: 2.333, step: 0.001 },
+  { id: 'sheen', label: 'SHEEN', group: 'sheen', min: 0, max: 1, step: 0.01 },
+  { id: 'sheenRoughness', label: 'SHEEN ROUGH', group: 'sheen', min: 0, max: 1, step: 0.01 },
+];
+
+export const MATERIAL_COLORS: Array<{ id: string; label: string; group: MaterialGroup }> = [
+  { id: 'color', label: 'BASE COLOR', group: 'base' },
+  { id: 'emissive', label: 'EMISSIVE', group: 'base' },
+  { id: 'sheenColor', label: 'SHEEN COLOR', group: 'sheen' },
+  { id: 'attenuationColor', label: 'ATTENUATION', group: 'transmission' },
+];
+
+// Carried from an authored material onto the one the lab renders with
+const COPIED_VALUES = [
+  'metalness', 'roughness', 'aoMapIntensity', 'emissiveIntensity', 'opacity', 'transparent', 'alphaTest', 'depthWrite',
+  'clearcoat', 'clearcoatRoughness', 'transmission', 'thickness', 'attenuationDistance', 'ior', 'sheen', 'sheenRoughness',
+  'specularIntensity', 'iridescence', 'iridescenceIOR', 'anisotropy', 'anisotropyRotation', 'dispersion'
+];
+const COPIED_COLORS = ['color', 'emissive', 'sheenColor', 'attenuationColor', 'specularColor'];
+const COPIED_TEXTURES = MATERIAL_TEXTURE_SLOTS.map((slot) => slot.id)
+  .concat(['alphaMap', 'specularIntensityMap', 'specularColorMap', 'iridescenceMap', 'iridescenceThicknessMap', 'anisotropyMap']);
+
+let physicalDefaults: THREE.MeshPhysicalMaterial | null = null;
+
+export const isPbrMaterial = (material: THREE.Material | null | undefined): material is THREE.MeshStandardMaterial =>
+  !!(material as THREE.MeshStandardMaterial | null)?.isMeshStandardMaterial;
+
+/**
+ * Gives `target` every PBR channel of `source`. Channels a metallic-roughness material
+ * lacks fall back to physical defaults, so a standard source renders without coat or
+ * sheen. `withBaseColorMap` false leaves the color texture off, for untextured views.
+ */
+export const applyPbrChannels = (target: THREE.MeshPhysicalMaterial, source: THREE.MeshStandardMaterial, withBaseColorMap = true) => {
+  physicalDefaults ??= new THREE.MeshPhysicalMaterial();
+  const from = source as unknown as Record<string, any>;
+  const to = target as unknown as Record<string, any>;
+  const defaults = physicalDefaults as unknown as Record<string, any>;
+  COPIED_VALUES.forEach((key) => { to[key] = from[key] ?? defaults[key]; });
+  COPIED_COLORS.forEach((key) => to[key].copy(from[key] ?? defaults[key]));
+  COPIED_TEXTURES.forEach((key) => { to[key] = from[key] ?? null; });
+  target.normalScale.copy(source.normalScale);
+  if (from.clearcoatNormalScale) target.clearcoatNormalScale.copy(from.clearcoatNormalScale);
+  if (!withBaseColorMap) target.map = null;
+};
+
+// A standard stand-in for a plain material, starting from the lab's own look with
+// the name, color and maps the plain one had, so loose textures have slots to go into
+export const toPbrMaterial = (material: THREE.Material | null): THREE.MeshStandardMaterial => {
+  const source = material as THREE.MeshPhongMaterial | null;
+  const pbr = new THREE.MeshStandardMaterial({ color: 0xe0e0e0, metalness: 0.2, roughness: 0.4 });
+  pbr.name = source?.name ?? '';
+  if (source?.color) pbr.color.copy(source.color);
+  pbr.map = source?.map ?? null;
+  pbr.normalMap = source?.normalMap ?? null;
+  pbr.alphaMap = source?.alphaMap ?? null;
+  pbr.transparent = source?.transparent ?? false;
+  pbr.opacity = source?.opacity ?? 1;
+  return pbr;
+};
+
+// Swaps every plain material under `root` for its standard stand-in, once per material.
+// Returns false when there was nothing to swap.
+export const promoteSceneMaterials = (root: THREE.Object3D) => {
+  const promoted = new Map<THREE.Material, THREE.MeshStandardMaterial>();
+  const promote = (material: THREE.Material) => {
+    if (isPbrMaterial(material)) return material;
+    if (!promoted.has(material)) promoted.set(material, toPbrMaterial(material));
+    return promoted.get(material)!;
+  };
+  root.traverse((child) => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh || !mesh.material) return;
+    mesh.material = Array.isArray(mesh.material) ? mesh.material.map(promote) : promote(mesh.material);
+  });
+  return promoted.size > 0;
+};
+
+export interface MaterialEntry {
+  material: THREE.MeshStandardMaterial;
+  name: string;
+  meshCount: number;
+}
+
+// Metallic-roughness materials of the tree, in the order their meshes come
+export const listSceneMaterials = (root: THREE.Object3D | null): MaterialEntry[] => {
+  const entries = new Map<THREE.Material, MaterialEntry>();
+  root?.traverse((child) => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh) return;
+    (Array.isArray(mesh.material) ? mesh.material : [mesh.material]).forEach((material) => {
+      if (!isPbrMaterial(material)) return;
+      const entry = entries.get(material);
+      if (entry) entry.meshCount++;
+      else entries.set(material, { material, name: material.name || `MATERIAL ${entries.size + 1}`, meshCount: 1 });
+    });
+  });
+  return [...entries.values()];
+};
+
+export const getAlphaMode = (material: THREE.Material): AlphaMode =>
+  material.transparent ? 'BLEND' : material.alphaTest > 0 ? 'MASK' : 'OPAQUE';
+
+// Mirrors how the glTF loader sets each mode up; MASK starts from the spec's 0.5 cutoff
+export const setAlphaMode = (material: THREE.Material, mode: AlphaMode) => {
+  material.transparent = mode === 'BLEND';
+  material.depthWrite = mode !== 'BLEND';
+  material.alphaTest = mode === 'MASK' ? (material.alphaTest || 0.5) : 0;
+  material.needsUpdate = true;
+};
+
+const THUMBNAIL_SIZE = 48;
+const thumbnails = new WeakMap<THREE.Texture, string>();
+
+/**
+ * A small data URL preview of the texture's image, or null when there is no drawable
+ * image (data textures, images still loading). Previews are cached per texture.
+ */
+export const getTextureThumbnail = (texture: THREE.Texture): string | null => {
+  const cached = thumbnails.get(texture);
+  if (cached) return cached;
+  const image = texture.image as CanvasImageSource & { width?: number; height?: number } | null;
+  const drawable = typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap
+    || typeof HTMLImageElement !== 'undefined' && image instanceof HTMLImageElement && image.complete
+    || typeof HTMLCanvasElement !== 'undefined' && image instanceof HTMLCanvasElement;
+  if (!drawable || !image?.width || !image.height) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = THUMBNAIL_SIZE;
+  canvas.getContext('2d')!.drawImage(image, 0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+  const url = canvas.toDataURL();
+  thumbnails.set(texture, url);
+  return url;
+};
+
+export interface MaterialInspection {
+  name: string;
+  type: string;
+  alphaMode: AlphaMode;
+  groups: Array<{
+    id: MaterialGroup;
+    label: string;
+    slots: Array<{ id: string; label: string; thumbnail: string | null; size: string | null }>; // size null for an empty slot
+    factors: Array<{ id: string; label: string; min: number; max: number; step: number; value: number }>;
+    colors: Array<{ id: string; label: string; hex: string }>;
+  }>;
+}
+
+/**
+ * Everything the inspector shows, as plain values. Extension groups only appear for
+ * physical materials, which is what the glTF loader creates when an extension is used.
+ */
+export const inspectMaterial = (material: THREE.MeshStandardMaterial): MaterialInspection => {
+  const values = material as unknown as Record<string, any>;
+  const isPhysical = !!(material as THREE.MeshPhysicalMaterial).isMeshPhysicalMaterial;
+  return {
+    name: material.name || 'UNNAMED',
+    type: isPhysical ? 'PHYSICAL' : 'STANDARD',
+    alphaMode: getAlphaMode(material),
+    groups: MATERIAL_GROUPS.filter((group) => group.id === 'base' || isPhysical).map((group) => ({
+      ...group,
+      slots: MATERIAL_TEXTURE_SLOTS.filter((slot) => slot.group === group.id).map(({ id, label }) => {
+        const texture = values[id] as THREE.Texture | null;
+        const image = texture?.image as { width?: number; height?: number } | null;
+        return {
+          id,
+          label,
+          thumbnail: texture ? getTextureThumbnail(texture) : null,
+          size: texture ? (image?.width ? `${image.width}×${image.height}` : '?') : null
+        };
+      }),
+      factors: MATERIAL_FACTORS.filter((factor) => factor.group === group.id && typeof values[factor.id] === 'number')
+        .map(({ id, label, min, max, step }) => ({ id, label, min, max, step, value: values[id] as number })),
+      colors: MATERIAL_COLORS.filter((color) => color.group === group.id && values[color.id]?.isColor)
+        .map(({ id, label }) => ({ id, label, hex: `#${(values[id] as THREE.Color).getHexString()}` }))
+    }))
+  };
+};
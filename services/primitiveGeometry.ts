@@ -0,0 +1,48 @@
+
+import * as THREE from 'three';
+
+export type PrimitiveModel = 'cube' | 'sphere' | 'helix';
+
+export const isPrimitiveModel = (model: string | null | undefined): model is PrimitiveModel =>
+  model === 'cube' || model === 'sphere' || model === 'helix';
+
+// The helix is a tube when it needs faces, otherwise a bare polyline of samples
+const createHelix = (solid: boolean) => {
+  if (solid) {
+    const curve = new THREE.CatmullRomCurve3(
+      new Array(100).fill(0).map((_, i) => {
+        const t = i / 100;
+        const angle = t * Math.PI * 20;
+        const y = (t - 0.5) * 600;
+        const r = 150;
+        return new THREE.Vector3(Math.cos(angle) * r, y, Math.sin(angle) * r);
+      })
+    );
+    return new THREE.TubeGeometry(curve, 300, 20, 8, false);
+  }
+
+  const segments = 3000;
+  const points = []; const uvs = [];
+  for (let i = 0; i < segments; i++) {
+    const t = i / segments;
+    const angle = t * Math.PI * 20;
+    points.push(Math.cos(angle) * 150, (t - 0.5) * 600, Math.sin(angle) * 150);
+    uvs.push(t, (Math.sin(angle) + 1) / 2);
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(points, 3));
+  geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+  return geometry;
+};
+
+/**
+ * Builds one of the lab's procedural shapes. `solid` requests triangles, which only
+ * changes the helix (tube vs polyline).
+ */
+export const createPrimitiveGeometry = (model: PrimitiveModel, solid: boolean): THREE.BufferGeometry => {
+  switch (model) {
+    case 'cube': return new THREE.BoxGeometry(300, 300, 300, 20, 20, 20);
+    case 'sphere': return new THREE.SphereGeometry(200, 60, 60);
+    case 'helix': return createHelix(solid);
+  }
+};
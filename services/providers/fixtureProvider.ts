@@ -0,0 +1,84 @@
+
+import { AIProvider } from '../aiProvider';
+import { LabContent } from '../../types';
+
+// Canned insights for offline demos, matched against the topic in order
+const INSIGHT_FIXTURES: Array<{ match: RegExp; content: LabContent }> = [
+  {
+    match: /cartesian|origin|empty space/i,
+    content: {
+      title: "Orthonormal Basis",
+      explanation: "Three perpendicular unit vectors span every reachable point; each coordinate is a projection onto one axis.",
+      subtext: "Every model begins at the origin."
+    }
+  },
+  {
+    match: /cube/i,
+    content: {
+      title: "Hexahedral Topology",
+      explanation: "Six quads, twelve edges, eight corners: the cube is the minimal closed manifold with axis-aligned faces.",
+      subtext: "Voxels are cubes all the way down."
+    }
+  },
+  {
+    match: /sphere/i,
+    content: {
+      title: "Constant Gaussian Curvature",
+      explanation: "A UV sphere approximates uniform curvature with latitude rings that crowd toward the poles.",
+      subtext: "Icospheres trade seams for even density."
+    }
+  },
+  {
+    match: /helix/i,
+    content: {
+      title: "Parametric Sweep",
+      explanation: "A helix advances linearly along its axis while rotating at constant angular speed, giving constant torsion.",
+      subtext: "Sweeps turn curves into surfaces."
+    }
+  },
+  {
+    match: /error/i,
+    content: {
+      title: "Parse Failure",
+      explanation: "The file could not be decoded into vertices and faces. Check the format and any companion files.",
+      subtext: "Data must be readable before it is spatial."
+    }
+  },
+  {
+    match: /import/i,
+    content: {
+      title: "Foreign Geometry",
+      explanation: "Imported meshes are re-centered and scaled to a 400-unit envelope so every asset shares one frame.",
+      subtext: "Normalization precedes comparison."
+    }
+  }
+];
+
+const DEFAULT_INSIGHT: LabContent = {
+  title: "Volumetric Theory",
+  explanation: "3D modeling transcends static pixels, enabling the simulation of physical reality within a digital vacuum.",
+  subtext: "Dimension is not a limit, but a canvas."
+};
+
+/**
+ * Deterministic backend for offline demos and tests: same request, same answer,
+ * no network. Benchmark prose is derived from the locally computed criteria.
+ */
+export const createFixtureProvider = (): AIProvider => ({
+  id: 'fixture',
+  model: 'fixture',
+  consultsModel: false,
+  generate: async (request) => {
+    if (request.task === 'insight') {
+      const fixture = INSIGHT_FIXTURES.find((entry) => entry.match.test(request.topic));
+      return JSON.stringify(fixture ? fixture.content : DEFAULT_INSIGHT);
+    }
+
+    const { local, modelType } = request;
+    const weakest = local.criteria.reduce((worst, c) => (c.score < worst.score ? c : worst), local.criteria[0]);
+    return JSON.stringify({
+      analysis: `Fixture review of ${modelType}: grade ${local.grade}, lowest criterion ${weakest.label} (${weakest.score}/100).`,
+      recommendation: local.recommendation
+    });
+  }
+});
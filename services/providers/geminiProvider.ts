@@ -0,0 +1,43 @@
+
+import { GoogleGenAI, Type } from "@google/genai";
+import { AIConfig, AIProvider, AIResponseSchema } from '../aiProvider';
+
+const DEFAULT_MODEL = "gemini-3-flash-preview";
+
+const GEMINI_TYPES = {
+  string: Type.STRING,
+  integer: Type.INTEGER,
+  number: Type.NUMBER
+};
+
+const toGeminiSchema = (schema: AIResponseSchema) => ({
+  type: Type.OBJECT,
+  properties: Object.fromEntries(
+    Object.entries(schema.properties).map(([key, prop]) => [key, { type: GEMINI_TYPES[prop.type] }])
+  ),
+  required: schema.required
+});
+
+export const createGeminiProvider = (config: AIConfig): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+  const model = config.model ?? DEFAULT_MODEL;
+
+  return {
+    id: 'gemini',
+    model,
+    consultsModel: true,
+    generate: async (request) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: request.prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(request.schema)
+        }
+      });
+      const text = response.text?.trim();
+      if (!text) throw new Error("Empty response");
+      return text;
+    }
+  };
+};
@@ -0,0 +1,46 @@
+
+import { AIConfig, AIProvider } from '../aiProvider';
+
+// LM Studio, llama.cpp server, Ollama and vLLM all expose this route
+const DEFAULT_BASE_URL = "http://localhost:1234/v1";
+const DEFAULT_MODEL = "local-model";
+
+export const createOpenAICompatibleProvider = (config: AIConfig): AIProvider => {
+  const baseUrl = (config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const model = config.model ?? DEFAULT_MODEL;
+
+  return {
+    id: 'openai',
+    model,
+    consultsModel: true,
+    generate: async (request) => {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: 'system', content: 'Respond only with a JSON object matching the requested schema.' },
+            { role: 'user', content: request.prompt }
+          ],
+          response_format: {
+            type: 'json_schema',
+            // Strict mode only accepts closed objects
+            json_schema: { name: request.task, schema: { ...request.schema, additionalProperties: false }, strict: true }
+          }
+        })
+      });
+
+      // Keep the status in the message so callers can recognise quota errors (429)
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+
+      const data = await response.json();
+      const text = data.choices?.[0]?.message?.content?.trim();
+      if (!text) throw new Error("Empty response");
+      return text;
+    }
+  };
+};
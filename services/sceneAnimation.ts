@@ -0,0 +1,55 @@
+
+import * as THREE from 'three';
+
+// Playback rates offered by the UI
+export const ANIMATION_SPEEDS = [0.25, 0.5, 1, 1.5, 2];
+export const DEFAULT_ANIMATION_SPEED = 1;
+
+export interface AnimationClipEntry {
+  index: number; // Position in the scene's `animations`
+  name: string;
+  duration: number; // seconds
+}
+
+export interface MorphTargetEntry {
+  mesh: THREE.Mesh;
+  index: number; // Slot in the mesh's morphTargetInfluences
+  name: string;
+  weight: number; // As authored
+}
+
+export const listAnimationClips = (root: THREE.Object3D | null): AnimationClipEntry[] =>
+  (root?.animations ?? []).map((clip, index) => ({ index, name: clip.name || `CLIP ${index + 1}`, duration: clip.duration }));
+
+/**
+ * Every morph target in the tree, in traversal order. Names come from the mesh's
+ * dictionary and are prefixed with the mesh name when several meshes have targets.
+ */
+export const listMorphTargets = (root: THREE.Object3D | null): MorphTargetEntry[] => {
+  const meshes: THREE.Mesh[] = [];
+  root?.traverse((child) => {
+    const mesh = child as THREE.Mesh;
+    if (mesh.isMesh && mesh.morphTargetInfluences?.length && mesh.geometry.morphAttributes.position) meshes.push(mesh);
+  });
+  return meshes.flatMap((mesh, m) => {
+    const names = Object.entries(mesh.morphTargetDictionary ?? {});
+    return mesh.morphTargetInfluences!.map((weight, index) => {
+      const name = names.find(([, i]) => i === index)?.[0] ?? `${index}`;
+      return { mesh, index, name: meshes.length > 1 ? `${mesh.name || `MESH ${m + 1}`} / ${name}` : name, weight };
+    });
+  });
+};
+
+export const hasSkeleton = (root: THREE.Object3D | null) => {
+  let found = false;
+  root?.traverse((child) => { if ((child as THREE.SkinnedMesh).isSkinnedMesh) found = true; });
+  return found;
+};
+
+// Nodes whose morph weights the clip animates; manual weights leave those alone
+export const getMorphDrivenNodes = (clip: THREE.AnimationClip) => new Set(
+  clip.tracks
+    .map((track) => THREE.PropertyBinding.parseTrackName(track.name))
+    .filter((parsed) => parsed.propertyName === 'morphTargetInfluences')
+    .map((parsed) => parsed.nodeName as string)
+);
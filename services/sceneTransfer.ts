@@ -0,0 +1,356 @@
+
+import * as THREE from 'three';
+
+// Plain, structured-clonable description of a node tree. Vertex data stays in typed
+// arrays and images in ImageBitmaps so both can be transferred instead of copied.
+
+type TypedArray = Float32Array | Uint32Array | Uint16Array | Uint8Array | Int8Array | Int16Array | Int32Array;
+
+export interface TransferAttribute {
+  array: TypedArray;
+  itemSize: number;
+  normalized: boolean;
+}
+
+export interface TransferGeometry {
+  name: string;
+  attributes: Record<string, TransferAttribute>;
+  morphAttributes: Record<string, TransferAttribute[]>;
+  morphTargetsRelative: boolean;
+  index: TransferAttribute | null;
+  groups: Array<{ start: number; count: number; materialIndex?: number }>;
+}
+
+export interface TransferTexture {
+  name: string;
+  image: ImageBitmap | null;
+  flipY: boolean;
+  wrapS: number;
+  wrapT: number;
+  magFilter: number;
+  minFilter: number;
+  colorSpace: string;
+  channel: number;
+  offset: number[];
+  repeat: number[];
+  center: number[];
+  rotation: number;
+}
+
+export interface TransferMaterial {
+  type: string;
+  values: Record<string, string | number | boolean>;
+  colors: Record<string, number[]>;
+  vectors: Record<string, number[]>;
+  textures: Record<string, number>;
+}
+
+export type TransferNodeType = 'Group' | 'Bone' | 'Mesh' | 'SkinnedMesh' | 'Line' | 'LineSegments' | 'LineLoop' | 'Points';
+
+export interface TransferSkin {
+  bones: number[]; // node indices
+  boneInverses: number[][];
+  bindMatrix: number[];
+  bindMode: string;
+}
+
+export interface TransferNode {
+  type: TransferNodeType;
+  name: string;
+  uuid: string; // Animation tracks address unnamed nodes by uuid
+  parent: number; // -1 for the root
+  position: number[];
+  quaternion: number[];
+  scale: number[];
+  visible: boolean;
+  geometry?: number;
+  material?: number | number[];
+  skin?: TransferSkin;
+  morphTargets?: { dictionary: Record<string, number>; influences: number[] };
+}
+
+export interface TransferScene {
+  nodes: TransferNode[];
+  geometries: TransferGeometry[];
+  materials: TransferMaterial[];
+  textures: TransferTexture[];
+  animations: unknown[]; // AnimationClip.toJSON records
+}
+
+// Material fields that never travel. Underscored fields do: several public
+// properties (alphaTest, clearcoat, transmission...) are accessors over them.
+const SKIPPED_MATERIAL_KEYS = new Set(['uuid', 'id', 'type', 'version']);
+
+// Interleaved data is unpacked so every attribute owns a tightly packed array
+const packAttribute = (attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute): TransferAttribute => {
+  if (!(attribute as THREE.InterleavedBufferAttribute).isInterleavedBufferAttribute) {
+    return { array: attribute.array as TypedArray, itemSize: attribute.itemSize, normalized: attribute.normalized };
+  }
+  const interleaved = attribute as THREE.InterleavedBufferAttribute;
+  const { data, offset, itemSize, count } = interleaved;
+  const source = data.array as TypedArray;
+  const array = new (source.constructor as new (length: number) => TypedArray)(count * itemSize);
+  for (let i = 0; i < count; i++) {
+    for (let c = 0; c < itemSize; c++) array[i * itemSize + c] = source[i * data.stride + offset + c];
+  }
+  return { array, itemSize, normalized: interleaved.normalized };
+};
+
+const unpackAttribute = (attribute: TransferAttribute) =>
+  new THREE.BufferAttribute(attribute.array, attribute.itemSize, attribute.normalized);
+
+const nodeType = (object: THREE.Object3D): TransferNodeType => {
+  const any = object as THREE.Object3D & Record<string, boolean>;
+  if (any.isSkinnedMesh) return 'SkinnedMesh';
+  if (any.isMesh) return 'Mesh';
+  if (any.isBone) return 'Bone';
+  if (any.isLineSegments) return 'LineSegments';
+  if (any.isLineLoop) return 'LineLoop';
+  if (any.isLine) return 'Line';
+  if (any.isPoints) return 'Points';
+  return 'Group';
+};
+
+/**
+ * Flattens a node tree into transferable records. Skeletons are stored as node indices
+ * and every clip found on the tree is gathered onto the root.
+ */
+export const serializeScene = (root: THREE.Object3D): { scene: TransferScene; transfer: Transferable[] } => {
+  const scene: TransferScene = { nodes: [], geometries: [], materials: [], textures: [], animations: [] };
+  const nodeIds = new Map<THREE.Object3D, number>();
+  const skinned: Array<[TransferNode, THREE.SkinnedMesh]> = [];
+  const geometryIds = new Map<THREE.BufferGeometry, number>();
+  const materialIds = new Map<THREE.Material, number>();
+  const textureIds = new Map<THREE.Texture, number>();
+  const transfer = new Set<Transferable>();
+
+  const addTexture = (texture: THREE.Texture) => {
+    let id = textureIds.get(texture);
+    if (id !== undefined) return id;
+    // Loaders in the worker decode through ImageBitmapLoader; anything else stays behind
+    const image = typeof ImageBitmap !== 'undefined' && texture.image instanceof ImageBitmap ? texture.image : null;
+    if (image) transfer.add(image);
+    id = scene.textures.length;
+    scene.textures.push({
+      name: texture.name,
+      image,
+      flipY: texture.flipY,
+      wrapS: texture.wrapS,
+      wrapT: texture.wrapT,
+      magFilter: texture.magFilter,
+      minFilter: texture.minFilter,
+      colorSpace: texture.colorSpace,
+      channel: texture.channel,
+      offset: texture.offset.toArray(),
+      repeat: texture.repeat.toArray(),
+      center: texture.center.toArray(),
+      rotation: texture.rotation
+    });
+    textureIds.set(texture, id);
+    return id;
+  };
+
+  const addMaterial = (material: THREE.Material) => {
+    let id = materialIds.get(material);
+    if (id !== undefined) return id;
+    const record: TransferMaterial = { type: material.type, values: {}, colors: {}, vectors: {}, textures: {} };
+    Object.entries(material as unknown as Record<string, any>).forEach(([key, value]) => {
+      if (SKIPPED_MATERIAL_KEYS.has(key) || key.startsWith('is') || value === null || value === undefined) return;
+      if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') record.values[key] = value;
+      else if (value.isColor) record.colors[key] = value.toArray();
+      else if (value.isVector2) record.vectors[key] = value.toArray();
+      else if (value.isTexture) record.textures[key] = addTexture(value);
+    });
+    id = scene.materials.length;
+    scene.materials.push(record);
+    materialIds.set(material, id);
+    return id;
+  };
+
+  const addGeometry = (geometry: THREE.BufferGeometry) => {
+    let id = geometryIds.get(geometry);
+    if (id !== undefined) return id;
+    const record: TransferGeometry = {
+      name: geometry.name,
+      attributes: {},
+      morphAttributes: {},
+      morphTargetsRelative: geometry.morphTargetsRelative,
+      index: geometry.index ? packAttribute(geometry.index) : null,
+      groups: geometry.groups.map((group) => ({ ...group }))
+    };
+    Object.entries(geometry.attributes).forEach(([name, attribute]) => {
+      record.attributes[name] = packAttribute(attribute as THREE.BufferAttribute);
+    });
+    Object.entries(geometry.morphAttributes).forEach(([name, attributes]) => {
+      record.morphAttributes[name] = (attributes as THREE.BufferAttribute[]).map(packAttribute);
+    });
+    // Views into one shared buffer (glTF accessors) are listed once
+    [record.index, ...Object.values(record.attributes), ...Object.values(record.morphAttributes).flat()]
+      .forEach((attribute) => { if (attribute) transfer.add(attribute.array.buffer as ArrayBuffer); });
+    id = scene.geometries.length;
+    scene.geometries.push(record);
+    geometryIds.set(geometry, id);
+    return id;
+  };
+
+  const visit = (object: THREE.Object3D, parent: number) => {
+    const type = nodeType(object);
+    const node: TransferNode = {
+      type,
+      name: object.name,
+      uuid: object.uuid,
+      parent,
+      position: object.position.toArray(),
+      quaternion: object.quaternion.toArray(),
+      scale: object.scale.toArray(),
+      visible: object.visible
+    };
+    const drawable = object as THREE.Mesh;
+    if (type !== 'Group' && drawable.geometry) {
+      node.geometry = addGeometry(drawable.geometry);
+      node.material = Array.isArray(drawable.material)
+        ? drawable.material.map(addMaterial)
+        : addMaterial(drawable.material);
+      if (drawable.morphTargetInfluences?.length) {
+        node.morphTargets = { dictionary: { ...drawable.morphTargetDictionary }, influences: [...drawable.morphTargetInfluences] };
+      }
+    }
+    if (type === 'SkinnedMesh') skinned.push([node, object as THREE.SkinnedMesh]);
+    object.animations.forEach((clip) => scene.animations.push(THREE.AnimationClip.toJSON(clip)));
+    const index = scene.nodes.length;
+    nodeIds.set(object, index);
+    scene.nodes.push(node);
+    object.children.forEach((child) => visit(child, index));
+  };
+  visit(root, -1);
+
+  // Bones can come after the mesh they deform, so skins resolve once every node has an index
+  skinned.forEach(([node, mesh]) => {
+    const bones = mesh.skeleton.bones.map((bone) => nodeIds.get(bone) ?? -1);
+    if (bones.includes(-1)) {
+      // A skeleton reaching outside the tree cannot be rebuilt; the mesh stays in bind pose
+      node.type = 'Mesh';
+      return;
+    }
+    node.skin = {
+      bones,
+      boneInverses: mesh.skeleton.boneInverses.map((matrix) => matrix.toArray()),
+      bindMatrix: mesh.bindMatrix.toArray(),
+      bindMode: mesh.bindMode
+    };
+  });
+
+  return { scene, transfer: [...transfer] };
+};
+
+const MATERIAL_CLASSES: Record<string, new () => THREE.Material> = {
+  MeshStandardMaterial: THREE.MeshStandardMaterial,
+  MeshPhysicalMaterial: THREE.MeshPhysicalMaterial,
+  MeshPhongMaterial: THREE.MeshPhongMaterial,
+  MeshLambertMaterial: THREE.MeshLambertMaterial,
+  MeshBasicMaterial: THREE.MeshBasicMaterial,
+  LineBasicMaterial: THREE.LineBasicMaterial,
+  LineDashedMaterial: THREE.LineDashedMaterial,
+  PointsMaterial: THREE.PointsMaterial
+};
+
+const NODE_CLASSES: Record<TransferNodeType, new (geometry?: THREE.BufferGeometry, material?: THREE.Material | THREE.Material[]) => THREE.Object3D> = {
+  Group: THREE.Group,
+  Bone: THREE.Bone,
+  Mesh: THREE.Mesh,
+  SkinnedMesh: THREE.SkinnedMesh,
+  Line: THREE.Line,
+  LineSegments: THREE.LineSegments,
+  LineLoop: THREE.LineLoop,
+  Points: THREE.Points
+};
+
+/**
+ * Rebuilds the node tree described by `serializeScene`. Must run on the thread that
+ * renders it, since textures upload from the transferred bitmaps.
+ */
+export const deserializeScene = (scene: TransferScene): THREE.Object3D => {
+  const textures = scene.textures.map((record) => {
+    const texture = new THREE.Texture(record.image ?? undefined);
+    texture.name = record.name;
+    texture.flipY = record.flipY;
+    texture.wrapS = record.wrapS;
+    texture.wrapT = record.wrapT;
+    texture.magFilter = record.magFilter;
+    texture.minFilter = record.minFilter;
+    texture.colorSpace = record.colorSpace;
+    texture.channel = record.channel;
+    texture.offset.fromArray(record.offset);
+    texture.repeat.fromArray(record.repeat);
+    texture.center.fromArray(record.center);
+    texture.rotation = record.rotation;
+    if (record.image) texture.needsUpdate = true;
+    return texture;
+  });
+
+  const materials = scene.materials.map((record) => {
+    const material = new (MATERIAL_CLASSES[record.type] ?? THREE.MeshStandardMaterial)() as THREE.Material & Record<string, any>;
+    Object.entries(record.values).forEach(([key, value]) => {
+      if (key in material && typeof material[key] === typeof value) material[key] = value;
+    });
+    Object.entries(record.colors).forEach(([key, value]) => material[key]?.isColor && material[key].fromArray(value));
+    Object.entries(record.vectors).forEach(([key, value]) => material[key]?.isVector2 && material[key].fromArray(value));
+    Object.entries(record.textures).forEach(([key, id]) => {
+      // Textures without a decoded image would render black; leave the slot empty
+      if (key in material && textures[id].image) material[key] = textures[id];
+    });
+    material.needsUpdate = true;
+    return material;
+  });
+
+  const geometries = scene.geometries.map((record) => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.name = record.name;
+    Object.entries(record.attributes).forEach(([name, attribute]) => geometry.setAttribute(name, unpackAttribute(attribute)));
+    Object.entries(record.morphAttributes).forEach(([name, attributes]) => {
+      geometry.morphAttributes[name] = attributes.map(unpackAttribute);
+    });
+    geometry.morphTargetsRelative = record.morphTargetsRelative;
+    if (record.index) geometry.setIndex(unpackAttribute(record.index));
+    record.groups.forEach((group) => geometry.addGroup(group.start, group.count, group.materialIndex));
+    return geometry;
+  });
+
+  const objects: THREE.Object3D[] = [];
+  scene.nodes.forEach((node) => {
+    const object = node.geometry === undefined
+      ? new (node.type === 'Bone' ? THREE.Bone : THREE.Group)()
+      : new NODE_CLASSES[node.type](
+          geometries[node.geometry],
+          Array.isArray(node.material) ? node.material.map((id) => materials[id]) : materials[node.material ?? 0]
+        );
+    if (node.geometry !== undefined && (object as THREE.Mesh).isMesh) (object as THREE.Mesh).updateMorphTargets();
+    if (node.morphTargets && (object as THREE.Mesh).morphTargetInfluences) {
+      (object as THREE.Mesh).morphTargetDictionary = { ...node.morphTargets.dictionary };
+      (object as THREE.Mesh).morphTargetInfluences = [...node.morphTargets.influences];
+    }
+    object.name = node.name;
+    object.uuid = node.uuid;
+    object.position.fromArray(node.position);
+    object.quaternion.fromArray(node.quaternion);
+    object.scale.fromArray(node.scale);
+    object.visible = node.visible;
+    if (node.parent >= 0) objects[node.parent].add(object);
+    objects.push(object);
+  });
+
+  scene.nodes.forEach((node, i) => {
+    if (!node.skin) return;
+    const skeleton = new THREE.Skeleton(
+      node.skin.bones.map((id) => objects[id] as THREE.Bone),
+      node.skin.boneInverses.map((matrix) => new THREE.Matrix4().fromArray(matrix))
+    );
+    const mesh = objects[i] as THREE.SkinnedMesh;
+    mesh.bind(skeleton, new THREE.Matrix4().fromArray(node.skin.bindMatrix));
+    mesh.bindMode = node.skin.bindMode;
+  });
+
+  if (objects[0]) objects[0].animations = scene.animations.map((json) => THREE.AnimationClip.parse(json));
+  objects[0]?.updateMatrixWorld(true);
+  return objects[0];
+};
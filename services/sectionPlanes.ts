@@ -0,0 +1,94 @@
+
+import { SectionAxis, SectionPlane } from '../types';
+
+export const SECTION_AXES: Array<{ id: SectionAxis; label: string }> = [
+  { id: 'x', label: 'X' },
+  { id: 'y', label: 'Y' },
+  { id: 'z', label: 'Z' },
+];
+
+export const MAX_SECTION_PLANES = 3;
+
+// Cap, outline and handle color of each plane slot
+export const SECTION_COLORS = ['#f87171', '#4ade80', '#60a5fa'];
+
+// Offsets in model units; imports are normalized to a 400-unit box around the origin
+export const SECTION_OFFSET_RANGE = 250;
+
+const AXIS_VECTORS: Record<SectionAxis, [number, number, number]> = {
+  x: [1, 0, 0],
+  y: [0, 1, 0],
+  z: [0, 0, 1],
+};
+
+const clampOffset = (offset: number) => Math.min(SECTION_OFFSET_RANGE, Math.max(-SECTION_OFFSET_RANGE, offset));
+
+/**
+ * A plane through the origin on the first axis no other plane uses yet, so a
+ * fresh plane always cuts somewhere new.
+ */
+export const createSectionPlane = (existing: SectionPlane[]): SectionPlane => {
+  const axis = SECTION_AXES.find((a) => !existing.some((p) => p.axis === a.id))?.id ?? 'x';
+  return { axis, offset: 0, flipped: false, enabled: true };
+};
+
+export const moveSectionPlane = (plane: SectionPlane, offset: number): SectionPlane => ({
+  ...plane,
+  offset: Math.round(clampOffset(offset) * 10) / 10,
+});
+
+export const getAxisVector = (axis: SectionAxis) => AXIS_VECTORS[axis];
+
+/**
+ * The plane as `normal · p + constant = 0`, with the normal pointing into the
+ * half that stays visible. Unflipped planes cut away everything past the offset
+ * along the axis, so a Z plane opens the model toward the home camera.
+ */
+export const getSectionEquation = (plane: SectionPlane) => {
+  const sign = plane.flipped ? 1 : -1;
+  const [x, y, z] = AXIS_VECTORS[plane.axis];
+  return { normal: [x * sign, y * sign, z * sign] as [number, number, number], constant: -sign * plane.offset };
+};
+
+/**
+ * Segments where a triangle soup crosses `normal · p + constant = 0`, as pairs of
+ * points in the same space as `positions`. Vertices exactly on the plane count
+ * as in front of it, so an edge lying in the plane yields no segment twice.
+ */
+export const sliceTriangles = (
+  positions: ArrayLike<number>,
+  index: ArrayLike<number> | null,
+  normal: [number, number, number],
+  constant: number
+): Float32Array => {
+  const [nx, ny, nz] = normal;
+  const triangleCount = Math.floor((index ? index.length : positions.length / 3) / 3);
+  const segments: number[] = [];
+  const corners = [0, 0, 0];
+  const distances = [0, 0, 0];
+
+  for (let f = 0; f < triangleCount; f++) {
+    let above = 0;
+    for (let k = 0; k < 3; k++) {
+      const v = index ? index[f * 3 + k] : f * 3 + k;
+      corners[k] = v;
+      distances[k] = positions[v * 3] * nx + positions[v * 3 + 1] * ny + positions[v * 3 + 2] * nz + constant;
+      if (distances[k] >= 0) above++;
+    }
+    if (above === 0 || above === 3) continue;
+
+    // Exactly two edges change sides; each contributes one end of the segment
+    for (let k = 0; k < 3; k++) {
+      const a = k, b = (k + 1) % 3;
+      if ((distances[a] >= 0) === (distances[b] >= 0)) continue;
+      const t = distances[a] / (distances[a] - distances[b]);
+      const va = corners[a] * 3, vb = corners[b] * 3;
+      segments.push(
+        positions[va] + (positions[vb] - positions[va]) * t,
+        positions[va + 1] + (positions[vb + 1] - positions[va + 1]) * t,
+        positions[va + 2] + (positions[vb + 2] - positions[va + 2]) * t
+      );
+    }
+  }
+  return new Float32Array(segments);
+};
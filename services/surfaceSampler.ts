@@ -0,0 +1,251 @@
+
+import * as THREE from 'three';
+
+// Point budgets offered by the UI; the sampler itself accepts any count
+export const POINT_BUDGET_STEPS = [5000, 10000, 25000, 50000, 100000, 250000, 500000];
+export const DEFAULT_POINT_BUDGET = 50000;
+
+// Small seeded PRNG (mulberry32) so rebuilding the same model lands points in the same places
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const getCorner = (geometry: THREE.BufferGeometry, corner: number) => (geometry.index ? geometry.index.getX(corner) : corner);
+
+// Running total of triangle areas: entry t is the area of faces 0..t
+const getCumulativeAreas = (geometry: THREE.BufferGeometry, matrix?: THREE.Matrix4) => {
+  const position = geometry.attributes.position;
+  if (!position) return new Float64Array(0);
+  const triangleCount = Math.floor((geometry.index ? geometry.index.count : position.count) / 3);
+  const cumulative = new Float64Array(triangleCount);
+  const triangle = new THREE.Triangle();
+  let area = 0;
+  for (let t = 0; t < triangleCount; t++) {
+    triangle.setFromAttributeAndIndices(position, getCorner(geometry, t * 3), getCorner(geometry, t * 3 + 1), getCorner(geometry, t * 3 + 2));
+    if (matrix) {
+      triangle.a.applyMatrix4(matrix);
+      triangle.b.applyMatrix4(matrix);
+      triangle.c.applyMatrix4(matrix);
+    }
+    area += triangle.getArea();
+    cumulative[t] = area;
+  }
+  return cumulative;
+};
+
+/**
+ * Total triangle area, optionally measured after a transform so meshes placed at
+ * different scales in one scene can share a budget fairly.
+ */
+export const getSurfaceArea = (geometry: THREE.BufferGeometry, matrix?: THREE.Matrix4) => {
+  const cumulative = getCumulativeAreas(geometry, matrix);
+  return cumulative.length ? cumulative[cumulative.length - 1] : 0;
+};
+
+// First face in [start, end) whose running total passes `target`, so faces are hit in proportion to area
+const findFace = (cumulative: Float64Array, target: number, start: number, end: number) => {
+  let low = start, high = end - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (cumulative[mid] <= target) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+/**
+ * Splits `total` across parts in proportion to their weights. Largest remainders
+ * absorb the rounding, so the counts always sum to exactly `total`.
+ */
+export const distributeBudget = (weights: number[], total: number) => {
+  const sum = weights.reduce((acc, w) => acc + w, 0);
+  if (sum <= 0) return weights.map(() => 0);
+
+  const exact = weights.map((w) => (w / sum) * total);
+  const counts = exact.map(Math.floor);
+  let remaining = total - counts.reduce((acc, c) => acc + c, 0);
+  exact
+    .map((value, i) => ({ i, fraction: value - counts[i] }))
+    .sort((a, b) => b.fraction - a.fraction)
+    .forEach(({ i }) => {
+      if (remaining > 0) {
+        counts[i]++;
+        remaining--;
+      }
+    });
+  return counts;
+};
+
+interface FaceRange {
+  start: number;
+  end: number;
+  materialIndex: number;
+}
+
+// Faces of each draw group; a geometry without groups is one range over every face
+const getFaceRanges = (geometry: THREE.BufferGeometry, faceCount: number): FaceRange[] => {
+  if (!geometry.groups.length) return [{ start: 0, end: faceCount, materialIndex: 0 }];
+  return geometry.groups.map((group) => ({
+    start: Math.min(faceCount, Math.floor(group.start / 3)),
+    end: Math.min(faceCount, Math.floor((group.start + group.count) / 3)),
+    materialIndex: group.materialIndex ?? 0
+  }));
+};
+
+type TextureReader = (uv: THREE.Vector2, target: THREE.Color) => void;
+
+const textureReaders = new WeakMap<THREE.Texture, TextureReader | null>();
+
+// Reads texels on the CPU, honouring the texture's transform, wrapping and flipY.
+// Returns null when the image cannot be drawn (not loaded yet, or cross-origin).
+const getTextureReader = (texture: THREE.Texture): TextureReader | null => {
+  if (textureReaders.has(texture)) return textureReaders.get(texture) ?? null;
+
+  let reader: TextureReader | null = null;
+  const image = texture.image as CanvasImageSource & { width: number; height: number } | undefined;
+  if (image && image.width && image.height) {
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.width;
+      canvas.height = image.height;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (ctx) {
+        ctx.drawImage(image, 0, 0);
+        const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        const lookup = new THREE.Vector2();
+        texture.updateMatrix();
+        reader = (uv, target) => {
+          texture.transformUv(lookup.copy(uv));
+          const x = Math.min(width - 1, Math.max(0, Math.floor(lookup.x * width)));
+          const y = Math.min(height - 1, Math.max(0, Math.floor(lookup.y * height)));
+          const i = (y * width + x) * 4;
+          target.setRGB(data[i] / 255, data[i + 1] / 255, data[i + 2] / 255, texture.colorSpace === THREE.SRGBColorSpace ? THREE.SRGBColorSpace : THREE.LinearSRGBColorSpace);
+        };
+      }
+    } catch {
+      reader = null;
+    }
+  }
+  textureReaders.set(texture, reader);
+  return reader;
+};
+
+export interface SurfaceSampleOptions {
+  // Color each point with the texel under its UV, multiplied by any vertex color.
+  // An array holds one texture per material index of the geometry's groups.
+  texture?: THREE.Texture | null | Array<THREE.Texture | null>;
+  seed?: number;
+  // Record where each point lies on its triangle, in `userData.surfaceAnchors`
+  anchors?: boolean;
+}
+
+// Each point's triangle corners and barycentric weights, three per point, so the
+// cloud can follow the surface when skinning or morphs move its vertices
+export interface SurfaceAnchors {
+  corners: Uint32Array;
+  weights: Float32Array;
+}
+
+/**
+ * Draws exactly `count` points spread over the surface by triangle area, so the
+ * cloud follows the shape rather than the vertex layout. Normals, UVs and colors are
+ * interpolated from the source where present. Draw groups split the budget by area and
+ * carry over to the points, so a material array still lines up.
+ */
+export const sampleSurface = (geometry: THREE.BufferGeometry, count: number, options: SurfaceSampleOptions = {}) => {
+  const source = geometry.attributes;
+  const cumulative = getCumulativeAreas(geometry);
+  const ranges = getFaceRanges(geometry, cumulative.length);
+  const areaBefore = (face: number) => (face > 0 ? cumulative[face - 1] : 0);
+  // Lines, points and fully collapsed meshes have no surface to draw from
+  const counts = distributeBudget(ranges.map(({ start, end }) => (end > start ? areaBefore(end) - areaBefore(start) : 0)), count);
+  count = counts.reduce((acc, c) => acc + c, 0);
+  const readers = ranges.map(({ materialIndex }) => {
+    const texture = Array.isArray(options.texture) ? options.texture[materialIndex] : options.texture;
+    return texture && source.uv ? getTextureReader(texture) : null;
+  });
+  const hasColor = !!source.color || readers.some((reader) => !!reader);
+
+  const positions = new Float32Array(count * 3);
+  const normals = new Float32Array(count * 3);
+  const uvs = source.uv ? new Float32Array(count * 2) : null;
+  const colors = hasColor ? new Float32Array(count * 3) : null;
+  const anchors: SurfaceAnchors | null = options.anchors ? { corners: new Uint32Array(count * 3), weights: new Float32Array(count * 3) } : null;
+
+  if (count > 0) {
+    const random = createRandom(options.seed ?? 1);
+    const corners = [0, 0, 0];
+    const weights = [0, 0, 0];
+    const normal = new THREE.Vector3();
+    const color = new THREE.Color();
+    const texel = new THREE.Color();
+    const uv = new THREE.Vector2();
+    const triangle = new THREE.Triangle();
+    // Weighted sum of one attribute over the picked triangle's corners
+    const interpolate = (attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute, component: number) =>
+      weights[0] * attribute.getComponent(corners[0], component)
+      + weights[1] * attribute.getComponent(corners[1], component)
+      + weights[2] * attribute.getComponent(corners[2], component);
+
+    let i = 0;
+    ranges.forEach(({ start, end }, r) => {
+      const readTexel = readers[r];
+      const base = areaBefore(start);
+      const area = areaBefore(end) - base;
+      for (const last = i + counts[r]; i < last; i++) {
+        const face = findFace(cumulative, base + random() * area, start, end);
+        for (let k = 0; k < 3; k++) corners[k] = getCorner(geometry, face * 3 + k);
+        // Folding the unit square onto its lower triangle keeps the barycentrics uniform
+        let u = random(), v = random();
+        if (u + v > 1) {
+          u = 1 - u;
+          v = 1 - v;
+        }
+        weights[0] = 1 - u - v;
+        weights[1] = u;
+        weights[2] = v;
+
+        for (let k = 0; k < 3; k++) positions[i * 3 + k] = interpolate(source.position, k);
+        if (source.normal) {
+          normal.set(interpolate(source.normal, 0), interpolate(source.normal, 1), interpolate(source.normal, 2)).normalize();
+        } else {
+          triangle.setFromAttributeAndIndices(source.position, corners[0], corners[1], corners[2]).getNormal(normal);
+        }
+        normal.toArray(normals, i * 3);
+        if (anchors) {
+          anchors.corners.set(corners, i * 3);
+          anchors.weights.set(weights, i * 3);
+        }
+        if (source.uv) uv.set(interpolate(source.uv, 0), interpolate(source.uv, 1));
+        if (uvs) uv.toArray(uvs, i * 2);
+        if (colors) {
+          if (source.color) color.setRGB(interpolate(source.color, 0), interpolate(source.color, 1), interpolate(source.color, 2));
+          else color.setRGB(1, 1, 1);
+          if (readTexel) {
+            readTexel(uv, texel);
+            color.multiply(texel);
+          }
+          color.toArray(colors, i * 3);
+        }
+      }
+    });
+  }
+
+  const points = new THREE.BufferGeometry();
+  points.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  points.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+  if (uvs) points.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+  if (colors) points.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  if (anchors) points.userData.surfaceAnchors = anchors;
+  if (geometry.groups.length) {
+    let offset = 0;
+    ranges.forEach(({ materialIndex }, r) => {
+      points.addGroup(offset, counts[r], materialIndex);
+      offset += counts[r];
+    });
+  }
+  return points;
+};
@@ -0,0 +1,131 @@
+
+import * as THREE from 'three';
+import { KTX2Loader } from 'three/addons/loaders/KTX2Loader.js';
+
+export const TEXTURE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.ktx2'];
+
+// Which way the green channel of a normal map points: up (OpenGL, glTF) or down (DirectX)
+export type NormalConvention = 'opengl' | 'directx';
+
+export const NORMAL_CONVENTIONS: Array<{ id: NormalConvention; label: string }> = [
+  { id: 'opengl', label: 'OPENGL' },
+  { id: 'directx', label: 'DIRECTX' },
+];
+
+// The Basis transcoder ships with the installed three.js; the build serves both files as assets
+const TRANSCODER_URLS: Record<string, string> = {
+  'basis_transcoder.js': new URL('../node_modules/three/examples/jsm/libs/basis/basis_transcoder.js', import.meta.url).href,
+  'basis_transcoder.wasm': new URL('../node_modules/three/examples/jsm/libs/basis/basis_transcoder.wasm', import.meta.url).href,
+};
+
+// File-name suffixes, separators removed, and the slots each fills. ORM packs occlusion (R),
+// roughness (G) and metalness (B) the way glTF does, so one texture serves all three.
+const SLOT_SUFFIXES: Array<{ slots: string[]; suffixes: string[] }> = [
+  { slots: ['map'], suffixes: ['basecolor', 'albedo', 'diffuse', 'diff', 'color', 'col', 'd'] },
+  { slots: ['normalMap'], suffixes: ['normal', 'nrm', 'nor', 'n'] },
+  { slots: ['roughnessMap'], suffixes: ['roughness', 'rough', 'rgh', 'r'] },
+  { slots: ['metalnessMap'], suffixes: ['metallic', 'metalness', 'metal', 'm'] },
+  { slots: ['aoMap'], suffixes: ['ambientocclusion', 'occlusion', 'ao'] },
+  { slots: ['emissiveMap'], suffixes: ['emissive', 'emission', 'e'] },
+  { slots: ['aoMap', 'roughnessMap', 'metalnessMap'], suffixes: ['orm', 'arm', 'occlusionroughnessmetallic'] },
+];
+
+const CONVENTION_TOKENS: Record<string, NormalConvention> = { gl: 'opengl', opengl: 'opengl', dx: 'directx', directx: 'directx' };
+
+// Slots whose texels are colors rather than data
+const COLOR_SLOTS = ['map', 'emissiveMap', 'sheenColorMap', 'specularColorMap'];
+
+// Scalar factors a map multiplies; they go to 1 when a map arrives so it reads as authored
+const SLOT_FACTORS: Record<string, string> = { roughnessMap: 'roughness', metalnessMap: 'metalness', aoMap: 'aoMapIntensity' };
+
+let ktx2Loader: KTX2Loader | null = null;
+
+export const isTextureFile = (fileName: string) => TEXTURE_EXTENSIONS.some((ext) => fileName.toLowerCase().endsWith(ext));
+
+// Name tokens with resolution ("2k", "4096") and convention ("gl", "dx") tags split off the end
+const getNameTokens = (fileName: string) => {
+  const tokens = fileName.replace(/\.[^.]*$/, '').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  let convention: NormalConvention | null = null;
+  while (tokens.length > 1) {
+    const last = tokens[tokens.length - 1];
+    if (CONVENTION_TOKENS[last]) convention = CONVENTION_TOKENS[last];
+    else if (!/^\d+k?$/.test(last)) break;
+    tokens.pop();
+  }
+  return { tokens, convention };
+};
+
+/**
+ * The slots a loose texture most likely belongs in, from suffixes such as `_basecolor`,
+ * `_n` or `_orm`. Empty when the name does not say.
+ */
+export const guessTextureSlots = (fileName: string): string[] => {
+  const { tokens } = getNameTokens(fileName);
+  // "base_color" splits in two, so the last pair is tried joined as well
+  const candidates = [tokens.slice(-2).join(''), tokens[tokens.length - 1]];
+  for (const candidate of candidates) {
+    const match = SLOT_SUFFIXES.find((entry) => entry.suffixes.includes(candidate));
+    if (match) return match.slots;
+  }
+  return [];
+};
+
+// An explicit `_gl` or `_dx` tag, as texture libraries name their normal map variants
+export const guessNormalConvention = (fileName: string) => getNameTokens(fileName).convention;
+
+// KTX2 transcodes to whichever compressed format the GPU takes, so it needs the renderer
+export const detectTextureSupport = (renderer: THREE.WebGLRenderer) => {
+  ktx2Loader?.dispose();
+  // KTX2Loader asks for the transcoder by file name; the asset URLs are hashed
+  const manager = new THREE.LoadingManager();
+  manager.setURLModifier((url: string) => TRANSCODER_URLS[url] ?? url);
+  ktx2Loader = new KTX2Loader(manager).detectSupport(renderer);
+};
+
+export const disposeTextureSupport = () => {
+  ktx2Loader?.dispose();
+  ktx2Loader = null;
+};
+
+/**
+ * Loads a PNG, JPG, WebP or KTX2 file for `slot`. `flipY` should match the textures
+ * the model was authored with: glTF UVs expect unflipped images. KTX2 keeps the
+ * orientation it was encoded with.
+ */
+export const loadTextureFile = async (file: File, slot: string, flipY: boolean): Promise<THREE.Texture> => {
+  const isKtx2 = file.name.toLowerCase().endsWith('.ktx2');
+  if (isKtx2 && !ktx2Loader) throw new Error("KTX2 support has not been detected yet");
+  const url = URL.createObjectURL(file);
+  try {
+    const texture = isKtx2 ? await ktx2Loader!.loadAsync(url) : await new THREE.TextureLoader().loadAsync(url);
+    if (!isKtx2) texture.flipY = flipY;
+    texture.colorSpace = COLOR_SLOTS.includes(slot) ? THREE.SRGBColorSpace : THREE.NoColorSpace;
+    texture.wrapS = texture.wrapT = THREE.RepeatWrapping;
+    texture.name = file.name;
+    texture.userData.looseFile = true;
+    texture.needsUpdate = true;
+    return texture;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Puts `texture` into `slots` of `material`. Factors the maps multiply go to 1, and a
+ * loose texture that no slot uses any more is disposed; authored ones are left alone.
+ */
+export const assignTexture = (material: THREE.MeshStandardMaterial, slots: string[], texture: THREE.Texture) => {
+  const values = material as unknown as Record<string, any>;
+  const replaced = new Set<THREE.Texture>();
+  slots.forEach((slot) => {
+    if (values[slot] && values[slot] !== texture) replaced.add(values[slot]);
+    values[slot] = texture;
+    if (SLOT_FACTORS[slot]) values[SLOT_FACTORS[slot]] = 1;
+  });
+  if (slots.includes('map')) material.color.setHex(0xffffff);
+  if (slots.includes('emissiveMap')) material.emissive.setHex(0xffffff);
+
+  const inUse = new Set(Object.values(values).filter((value) => (value as THREE.Texture | null)?.isTexture));
+  replaced.forEach((old) => { if (old.userData.looseFile && !inUse.has(old)) old.dispose(); });
+  material.needsUpdate = true;
+};
@@ -0,0 +1,250 @@
+
+import { cornerIndex, getBoundingDiagonal, getTriangleCount, getVertexCount, weldByPosition } from './meshBuffer';
+import { CustomMeshBuffer, TopologyReport } from '../types';
+
+export type TopologyIssueKind = 'nonManifold' | 'boundary' | 'winding' | 'zeroArea' | 'duplicate' | 'island';
+
+// Display order, overlay colors and what each overlay draws
+export const TOPOLOGY_ISSUES: Array<{ id: TopologyIssueKind; label: string; color: string; draws: 'edges' | 'faces' | 'points' }> = [
+  { id: 'nonManifold', label: 'NON-MANIFOLD EDGES', color: '#f43f5e', draws: 'edges' },
+  { id: 'boundary', label: 'OPEN BOUNDARIES', color: '#facc15', draws: 'edges' },
+  { id: 'winding', label: 'FLIPPED WINDING', color: '#d946ef', draws: 'faces' },
+  { id: 'zeroArea', label: 'ZERO-AREA FACES', color: '#fb923c', draws: 'points' },
+  { id: 'duplicate', label: 'DUPLICATE VERTICES', color: '#38bdf8', draws: 'points' },
+  { id: 'island', label: 'LOOSE ISLANDS', color: '#34d399', draws: 'faces' },
+];
+
+export interface TopologyIssueEntry {
+  label: string;
+  position: [number, number, number]; // where to look, in the mesh's space
+}
+
+// Attributes are compared after rounding, so float noise from exporters still matches
+const ATTRIBUTE_PRECISION = 1e4;
+
+// Union-find over welded vertices; islands are faces connected through any shared corner
+const createUnionFind = (size: number) => {
+  const parent = Int32Array.from({ length: size }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const ra = find(a), rb = find(b);
+    if (ra !== rb) parent[rb] = ra;
+  };
+  return { find, union };
+};
+
+const findDuplicateVertices = (mesh: CustomMeshBuffer, welded: Uint32Array) => {
+  const attributes = [mesh.normals && { data: mesh.normals, size: 3 }, mesh.tangents && { data: mesh.tangents, size: 4 }, mesh.uvs && { data: mesh.uvs, size: 2 }, mesh.colors && { data: mesh.colors, size: 3 }]
+    .filter((attribute): attribute is { data: Float32Array; size: number } => !!attribute);
+  const firstSeen = new Map<string, number>();
+  const pairs: number[] = [];
+  for (let v = 0; v < welded.length; v++) {
+    let key = `${welded[v]}`;
+    attributes.forEach(({ data, size }) => {
+      for (let c = 0; c < size; c++) key += `,${Math.round(data[v * size + c] * ATTRIBUTE_PRECISION)}`;
+    });
+    const first = firstSeen.get(key);
+    if (first === undefined) firstSeen.set(key, v);
+    else pairs.push(v, first);
+  }
+  return Uint32Array.from(pairs);
+};
+
+/**
+ * Checks the surface the way a DCC cleanup pass would. Vertices split at UV or
+ * normal seams are welded by position first, so seams are not reported as open
+ * boundaries. Winding is judged per edge-connected patch: closed patches must
+ * enclose positive volume, open ones follow their majority.
+ */
+export const validateTopology = (mesh: CustomMeshBuffer): TopologyReport => {
+  const { positions } = mesh;
+  const vertexCount = getVertexCount(mesh);
+  const triangleCount = getTriangleCount(mesh);
+
+  const diagonal = getBoundingDiagonal(positions);
+  const areaEpsilon = (diagonal * 1e-6) ** 2;
+  const welded = weldByPosition(positions, diagonal * 1e-5);
+
+  // Zero-area faces take no further part: they have no winding and no surface
+  const corners = new Uint32Array(triangleCount * 3);
+  const valid = new Uint8Array(triangleCount);
+  const zeroAreaFaces: number[] = [];
+  for (let t = 0; t < triangleCount; t++) {
+    const a = cornerIndex(mesh, t * 3), b = cornerIndex(mesh, t * 3 + 1), c = cornerIndex(mesh, t * 3 + 2);
+    corners[t * 3] = a; corners[t * 3 + 1] = b; corners[t * 3 + 2] = c;
+    const e1x = positions[b * 3] - positions[a * 3], e1y = positions[b * 3 + 1] - positions[a * 3 + 1], e1z = positions[b * 3 + 2] - positions[a * 3 + 2];
+    const e2x = positions[c * 3] - positions[a * 3], e2y = positions[c * 3 + 1] - positions[a * 3 + 1], e2z = positions[c * 3 + 2] - positions[a * 3 + 2];
+    const doubleArea = Math.hypot(e1y * e2z - e1z * e2y, e1z * e2x - e1x * e2z, e1x * e2y - e1y * e2x);
+    const wa = welded[a], wb = welded[b], wc = welded[c];
+    if (wa === wb || wb === wc || wc === wa || doubleArea * 0.5 <= areaEpsilon) zeroAreaFaces.push(t);
+    else valid[t] = 1;
+  }
+
+  // Half-edges are face * 3 + corner, running from that corner to the next
+  const edgeUses = new Map<number, number[]>();
+  const nextCorner = (halfEdge: number) => halfEdge - (halfEdge % 3) + ((halfEdge + 1) % 3);
+  const edgeKey = (halfEdge: number) => {
+    const from = welded[corners[halfEdge]], to = welded[corners[nextCorner(halfEdge)]];
+    return Math.min(from, to) * welded.length + Math.max(from, to);
+  };
+  const runsForward = (halfEdge: number) => welded[corners[halfEdge]] < welded[corners[nextCorner(halfEdge)]];
+  for (let t = 0; t < triangleCount; t++) {
+    if (!valid[t]) continue;
+    for (let k = 0; k < 3; k++) {
+      const key = edgeKey(t * 3 + k);
+      const uses = edgeUses.get(key);
+      if (uses) uses.push(t * 3 + k);
+      else edgeUses.set(key, [t * 3 + k]);
+    }
+  }
+
+  const edgeVertices = (halfEdge: number) => [corners[halfEdge], corners[nextCorner(halfEdge)]];
+  const nonManifoldEdges: number[] = [];
+  const boundaryEdges: number[] = [];
+  edgeUses.forEach((uses) => {
+    if (uses.length === 1) boundaryEdges.push(...edgeVertices(uses[0]));
+    else if (uses.length > 2) nonManifoldEdges.push(...edgeVertices(uses[0]));
+  });
+
+  // Orient each patch reachable across manifold edges relative to its first face
+  const orientation = new Int8Array(triangleCount);
+  const flippedFaces: number[] = [];
+  for (let seed = 0; seed < triangleCount; seed++) {
+    if (!valid[seed] || orientation[seed] !== 0) continue;
+    orientation[seed] = 1;
+    const patch = [seed];
+    let closed = true;
+    for (let i = 0; i < patch.length; i++) {
+      const face = patch[i];
+      for (let k = 0; k < 3; k++) {
+        const halfEdge = face * 3 + k;
+        const uses = edgeUses.get(edgeKey(halfEdge))!;
+        if (uses.length !== 2) {
+          closed = false;
+          continue;
+        }
+        const other = uses[0] === halfEdge ? uses[1] : uses[0];
+        const neighbour = Math.floor(other / 3);
+        if (orientation[neighbour] !== 0) continue;
+        // Agreeing faces walk a shared edge in opposite directions
+        orientation[neighbour] = runsForward(halfEdge) !== runsForward(other) ? orientation[face] : -orientation[face];
+        patch.push(neighbour);
+      }
+    }
+
+    let volume = 0, forward = 0;
+    patch.forEach((face) => {
+      const a = corners[face * 3] * 3, b = corners[face * 3 + 1] * 3, c = corners[face * 3 + 2] * 3;
+      const signedVolume = positions[a] * (positions[b + 1] * positions[c + 2] - positions[b + 2] * positions[c + 1])
+        - positions[a + 1] * (positions[b] * positions[c + 2] - positions[b + 2] * positions[c])
+        + positions[a + 2] * (positions[b] * positions[c + 1] - positions[b + 1] * positions[c]);
+      volume += signedVolume * orientation[face];
+      if (orientation[face] > 0) forward++;
+    });
+    const outward = closed ? (volume >= 0 ? 1 : -1) : (forward * 2 >= patch.length ? 1 : -1);
+    patch.forEach((face) => {
+      if (orientation[face] !== outward) flippedFaces.push(face);
+    });
+  }
+  flippedFaces.sort((a, b) => a - b);
+
+  const islands = createUnionFind(vertexCount ? welded.reduce((max, id) => Math.max(max, id), 0) + 1 : 0);
+  for (let t = 0; t < triangleCount; t++) {
+    if (!valid[t]) continue;
+    islands.union(welded[corners[t * 3]], welded[corners[t * 3 + 1]]);
+    islands.union(welded[corners[t * 3]], welded[corners[t * 3 + 2]]);
+  }
+  const rootSizes = new Map<number, number>();
+  for (let t = 0; t < triangleCount; t++) {
+    if (!valid[t]) continue;
+    const root = islands.find(welded[corners[t * 3]]);
+    rootSizes.set(root, (rootSizes.get(root) ?? 0) + 1);
+  }
+  const ranked = [...rootSizes.entries()].sort((a, b) => b[1] - a[1]);
+  const islandOf = new Map(ranked.map(([root], i) => [root, i]));
+  const faceIslands = new Int32Array(triangleCount).fill(-1);
+  for (let t = 0; t < triangleCount; t++) {
+    if (valid[t]) faceIslands[t] = islandOf.get(islands.find(welded[corners[t * 3]]))!;
+  }
+
+  return {
+    mesh,
+    nonManifoldEdges: Uint32Array.from(nonManifoldEdges),
+    boundaryEdges: Uint32Array.from(boundaryEdges),
+    flippedFaces: Uint32Array.from(flippedFaces),
+    zeroAreaFaces: Uint32Array.from(zeroAreaFaces),
+    duplicateVertices: findDuplicateVertices(mesh, welded),
+    faceIslands,
+    islandSizes: ranked.map(([, size]) => size)
+  };
+};
+
+// Faces outside the largest island
+export const getLooseIslandFaces = (report: TopologyReport) => {
+  const faces: number[] = [];
+  report.faceIslands.forEach((island, face) => {
+    if (island > 0) faces.push(face);
+  });
+  return Uint32Array.from(faces);
+};
+
+export const countTopologyIssues = (report: TopologyReport): Record<TopologyIssueKind, number> => ({
+  nonManifold: report.nonManifoldEdges.length / 2,
+  boundary: report.boundaryEdges.length / 2,
+  winding: report.flippedFaces.length,
+  zeroArea: report.zeroAreaFaces.length,
+  duplicate: report.duplicateVertices.length / 2,
+  // A single connected surface is not a problem; every extra island is
+  island: Math.max(0, report.islandSizes.length - 1)
+});
+
+/**
+ * The first `limit` findings of one kind, each with a point to focus the camera on.
+ */
+export const listTopologyIssues = (report: TopologyReport, kind: TopologyIssueKind, limit = 50): TopologyIssueEntry[] => {
+  const { mesh } = report;
+  const vertex = (v: number): [number, number, number] => [mesh.positions[v * 3], mesh.positions[v * 3 + 1], mesh.positions[v * 3 + 2]];
+  const centroid = (vertices: number[]): [number, number, number] => {
+    const sum: [number, number, number] = [0, 0, 0];
+    vertices.forEach((v) => vertex(v).forEach((value, axis) => { sum[axis] += value / vertices.length; }));
+    return sum;
+  };
+  const faceCorners = (face: number) => [cornerIndex(mesh, face * 3), cornerIndex(mesh, face * 3 + 1), cornerIndex(mesh, face * 3 + 2)];
+
+  const edges = (pairs: Uint32Array) => Array.from({ length: Math.min(limit, pairs.length / 2) }, (_, i) => ({
+    label: `EDGE ${pairs[i * 2]}–${pairs[i * 2 + 1]}`,
+    position: centroid([pairs[i * 2], pairs[i * 2 + 1]])
+  }));
+  const faces = (list: Uint32Array) => Array.from(list.subarray(0, limit), (face) => ({
+    label: `FACE #${face}`,
+    position: centroid(faceCorners(face))
+  }));
+
+  switch (kind) {
+    case 'nonManifold': return edges(report.nonManifoldEdges);
+    case 'boundary': return edges(report.boundaryEdges);
+    case 'winding': return faces(report.flippedFaces);
+    case 'zeroArea': return faces(report.zeroAreaFaces);
+    case 'duplicate':
+      return Array.from({ length: Math.min(limit, report.duplicateVertices.length / 2) }, (_, i) => ({
+        label: `VERTEX #${report.duplicateVertices[i * 2]} = #${report.duplicateVertices[i * 2 + 1]}`,
+        position: vertex(report.duplicateVertices[i * 2])
+      }));
+    case 'island': {
+      const members = report.islandSizes.slice(1, limit + 1).map(() => [] as number[]);
+      report.faceIslands.forEach((island, face) => {
+        if (island > 0 && island <= members.length) members[island - 1].push(...faceCorners(face));
+      });
+      return members.map((vertices, i) => ({
+        label: `ISLAND ${i + 2} · ${report.islandSizes[i + 1].toLocaleString()} TRIS`,
+        position: centroid(vertices)
+      }));
+    }
+  }
+};
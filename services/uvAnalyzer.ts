@@ -0,0 +1,212 @@
+
+import { cornerIndex, getTriangleCount } from './meshBuffer';
+import { CustomMeshBuffer, UvAnalysis } from '../types';
+
+export type UvHeatmapKind = 'area' | 'angle' | 'overlap' | 'bounds' | 'density';
+
+export const UV_HEATMAPS: Array<{ id: UvHeatmapKind; label: string; legend: string }> = [
+  { id: 'area', label: 'AREA STRETCH', legend: 'BLUE EVEN // RED SCALED' },
+  { id: 'angle', label: 'ANGLE STRETCH', legend: 'BLUE SQUARE // RED SHEARED' },
+  { id: 'overlap', label: 'OVERLAP', legend: 'RED SHARES UV SPACE' },
+  { id: 'bounds', label: 'OUT OF 0-1', legend: 'RED LEAVES THE TILE' },
+  { id: 'density', label: 'TEXEL DENSITY', legend: 'BLUE SPARSE // RED DENSE' },
+];
+
+export const TEXTURE_RESOLUTIONS = [512, 1024, 2048, 4096];
+export const DEFAULT_TEXTURE_RESOLUTION = 1024;
+
+// Resolution of the grid the UV triangles are rasterized into for coverage/overlap
+const UV_GRID = 256;
+
+// Distortion past which a face reads fully red: 4x area, 2:1 aspect
+const AREA_HEAT_RANGE = 2; // in doublings
+const ANGLE_HEAT_RANGE = 1; // aspect above 1:1
+// Texel density heat spans this many doublings either side of the median
+const DENSITY_HEAT_RANGE = 2;
+// Caps for faces whose UVs collapse to a line or a point
+const MAX_AREA_DISTORTION = 10;
+const MAX_ANGLE_DISTORTION = 100;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// Top-left fill rule so cells on an edge shared by two triangles are counted once
+const edgeFunction = (ax: number, ay: number, bx: number, by: number, px: number, py: number) => {
+  const e = (bx - ax) * (py - ay) - (by - ay) * (px - ax);
+  if (e !== 0) return e > 0;
+  const dy = by - ay;
+  return dy > 0 || (dy === 0 && bx - ax < 0);
+};
+
+// Calls `visit` for every grid cell whose center the face's UV triangle covers
+const rasterizeFace = (mesh: CustomMeshBuffer, uvs: Float32Array, face: number, visit: (cell: number) => void) => {
+  const a = cornerIndex(mesh, face * 3), b = cornerIndex(mesh, face * 3 + 1), c = cornerIndex(mesh, face * 3 + 2);
+  let ax = uvs[a * 2] * UV_GRID, ay = uvs[a * 2 + 1] * UV_GRID;
+  let bx = uvs[b * 2] * UV_GRID, by = uvs[b * 2 + 1] * UV_GRID;
+  const cx = uvs[c * 2] * UV_GRID, cy = uvs[c * 2 + 1] * UV_GRID;
+
+  // Mirrored charts rasterize the same way as regular ones
+  const area = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+  if (area === 0) return;
+  if (area < 0) { [ax, bx] = [bx, ax]; [ay, by] = [by, ay]; }
+
+  const minX = Math.max(0, Math.floor(Math.min(ax, bx, cx))), maxX = Math.min(UV_GRID - 1, Math.ceil(Math.max(ax, bx, cx)));
+  const minY = Math.max(0, Math.floor(Math.min(ay, by, cy))), maxY = Math.min(UV_GRID - 1, Math.ceil(Math.max(ay, by, cy)));
+  for (let y = minY; y <= maxY; y++) {
+    const py = y + 0.5;
+    for (let x = minX; x <= maxX; x++) {
+      const px = x + 0.5;
+      if (edgeFunction(ax, ay, bx, by, px, py) && edgeFunction(bx, by, cx, cy, px, py) && edgeFunction(cx, cy, ax, ay, px, py)) {
+        visit(y * UV_GRID + x);
+      }
+    }
+  }
+};
+
+// Area-weighted quantile of `values` over the faces in `faces`
+const weightedQuantile = (values: Float32Array, weights: Float32Array, faces: number[], q: number) => {
+  if (faces.length === 0) return 0;
+  const sorted = [...faces].sort((a, b) => values[a] - values[b]);
+  const total = sorted.reduce((sum, f) => sum + weights[f], 0);
+  let running = 0;
+  for (const f of sorted) {
+    running += weights[f];
+    if (running >= total * q) return values[f];
+  }
+  return values[sorted[sorted.length - 1]];
+};
+
+/**
+ * Measures the UV layout face by face: how much each face is scaled and sheared
+ * against the 3D surface, whether it shares UV space with another face or leaves
+ * the 0-1 tile, and how many texels per model unit it gets at `resolution`.
+ * Returns null when the mesh has no UVs.
+ */
+export const analyzeUVs = (mesh: CustomMeshBuffer, resolution = DEFAULT_TEXTURE_RESOLUTION): UvAnalysis | null => {
+  const { positions, uvs } = mesh;
+  if (!uvs) return null;
+  const faceCount = getTriangleCount(mesh);
+
+  const surfaceArea = new Float32Array(faceCount);
+  const uvArea = new Float32Array(faceCount);
+  const angle = new Float32Array(faceCount).fill(1);
+  const outOfBounds = new Uint8Array(faceCount);
+  let totalSurface = 0, totalUv = 0;
+
+  for (let f = 0; f < faceCount; f++) {
+    const a = cornerIndex(mesh, f * 3), b = cornerIndex(mesh, f * 3 + 1), c = cornerIndex(mesh, f * 3 + 2);
+    for (const v of [a, b, c]) {
+      const u = uvs[v * 2], w = uvs[v * 2 + 1];
+      if (u < 0 || u > 1 || w < 0 || w > 1) outOfBounds[f] = 1;
+    }
+
+    const e1x = positions[b * 3] - positions[a * 3], e1y = positions[b * 3 + 1] - positions[a * 3 + 1], e1z = positions[b * 3 + 2] - positions[a * 3 + 2];
+    const e2x = positions[c * 3] - positions[a * 3], e2y = positions[c * 3 + 1] - positions[a * 3 + 1], e2z = positions[c * 3 + 2] - positions[a * 3 + 2];
+    const nx = e1y * e2z - e1z * e2y, ny = e1z * e2x - e1x * e2z, nz = e1x * e2y - e1y * e2x;
+    const doubleArea = Math.hypot(nx, ny, nz);
+    const d1u = uvs[b * 2] - uvs[a * 2], d1v = uvs[b * 2 + 1] - uvs[a * 2 + 1];
+    const d2u = uvs[c * 2] - uvs[a * 2], d2v = uvs[c * 2 + 1] - uvs[a * 2 + 1];
+    const doubleUvArea = Math.abs(d1u * d2v - d2u * d1v);
+    surfaceArea[f] = doubleArea / 2;
+    uvArea[f] = doubleUvArea / 2;
+    totalSurface += surfaceArea[f];
+    totalUv += uvArea[f];
+    if (doubleArea === 0) continue;
+
+    // Lay the face flat with its first edge on x: q1 = (l1, 0), q2 = (q2x, q2y)
+    const l1 = Math.hypot(e1x, e1y, e1z);
+    const q2x = (e1x * e2x + e1y * e2y + e1z * e2z) / l1;
+    const q2y = doubleArea / l1;
+    // Jacobian from the flat face to UV space, J = [d1 d2] * inverse([q1 q2])
+    const j00 = d1u / l1, j10 = d1v / l1;
+    const j01 = (d2u - j00 * q2x) / q2y, j11 = (d2v - j10 * q2x) / q2y;
+    // Singular values of a 2x2 matrix in closed form
+    const e = (j00 + j11) / 2, g = (j00 - j11) / 2, h = (j10 + j01) / 2, k = (j10 - j01) / 2;
+    const p = Math.hypot(e, k), r = Math.hypot(g, h);
+    const major = p + r, minor = Math.abs(p - r);
+    angle[f] = minor > 0 ? Math.min(MAX_ANGLE_DISTORTION, major / minor) : MAX_ANGLE_DISTORTION;
+  }
+
+  // Area distortion is relative to the layout's own scale, so uniformly small UVs are fine
+  const scale = totalSurface > 0 ? totalUv / totalSurface : 0;
+  const area = new Float32Array(faceCount);
+  const density = new Float32Array(faceCount);
+  const measured: number[] = []; // Faces with a density; collapsed UVs show up as stretch instead
+  for (let f = 0; f < faceCount; f++) {
+    if (surfaceArea[f] === 0) continue;
+    if (uvArea[f] > 0) measured.push(f);
+    const ratio = uvArea[f] / surfaceArea[f];
+    area[f] = ratio > 0 && scale > 0 ? Math.min(MAX_AREA_DISTORTION, Math.abs(Math.log2(ratio / scale))) : MAX_AREA_DISTORTION;
+    density[f] = Math.sqrt(ratio) * resolution;
+  }
+
+  const hits = new Uint8Array(UV_GRID * UV_GRID);
+  for (let f = 0; f < faceCount; f++) {
+    rasterizeFace(mesh, uvs, f, (cell) => { if (hits[cell] < 2) hits[cell]++; });
+  }
+  const overlap = new Uint8Array(faceCount);
+  for (let f = 0; f < faceCount; f++) {
+    rasterizeFace(mesh, uvs, f, (cell) => { if (hits[cell] > 1) overlap[f] = 1; });
+  }
+  let covered = 0, overlapped = 0;
+  for (let i = 0; i < hits.length; i++) {
+    if (hits[i] > 0) covered++;
+    if (hits[i] > 1) overlapped++;
+  }
+
+  let weightedArea = 0, weightedAngle = 0, weightedStretch = 0;
+  let overlappingFaces = 0, outOfBoundsFaces = 0;
+  for (let f = 0; f < faceCount; f++) {
+    overlappingFaces += overlap[f];
+    outOfBoundsFaces += outOfBounds[f];
+    const w = surfaceArea[f];
+    weightedArea += area[f] * w;
+    weightedAngle += angle[f] * w;
+    weightedStretch += Math.max(clamp01(area[f] / AREA_HEAT_RANGE), clamp01((angle[f] - 1) / ANGLE_HEAT_RANGE)) * w;
+  }
+  const p10 = weightedQuantile(density, surfaceArea, measured, 0.1);
+  const p90 = weightedQuantile(density, surfaceArea, measured, 0.9);
+
+  return {
+    mesh,
+    resolution,
+    faceArea: area,
+    faceAngle: angle,
+    faceOverlap: overlap,
+    faceOutOfBounds: outOfBounds,
+    faceDensity: density,
+    summary: {
+      coverage: covered / hits.length,
+      overlap: covered ? overlapped / covered : 0,
+      overlappingFaces,
+      outOfBoundsFaces,
+      outOfBounds: faceCount ? outOfBoundsFaces / faceCount : 0,
+      areaDistortion: totalSurface > 0 ? weightedArea / totalSurface : 0,
+      angleDistortion: totalSurface > 0 ? weightedAngle / totalSurface : 1,
+      stretch: totalSurface > 0 ? weightedStretch / totalSurface : 0,
+      texelDensity: weightedQuantile(density, surfaceArea, measured, 0.5),
+      densitySpread: p10 > 0 ? p90 / p10 : 0
+    }
+  };
+};
+
+/**
+ * Per-face heat for one heatmap, 0 (fine) to 1 (worst). Density is centered on
+ * the median, so 0.5 is on target and both ends are problems.
+ */
+export const getUvHeat = (analysis: UvAnalysis, kind: UvHeatmapKind): Float32Array => {
+  const faceCount = analysis.faceArea.length;
+  const median = analysis.summary.texelDensity;
+  return Float32Array.from({ length: faceCount }, (_, f) => {
+    switch (kind) {
+      case 'area': return clamp01(analysis.faceArea[f] / AREA_HEAT_RANGE);
+      case 'angle': return clamp01((analysis.faceAngle[f] - 1) / ANGLE_HEAT_RANGE);
+      case 'overlap': return analysis.faceOverlap[f];
+      case 'bounds': return analysis.faceOutOfBounds[f];
+      case 'density': {
+        const d = analysis.faceDensity[f];
+        if (d <= 0 || median <= 0) return 0;
+        return clamp01(0.5 + Math.log2(d / median) / (DENSITY_HEAT_RANGE * 2));
+      }
+    }
+  });
+};
@@ -0,0 +1,280 @@
+
+import { getBoundingDiagonal, getTriangleCount, getVertexCount, readCorners, weldByPosition } from './meshBuffer';
+import { CustomMeshBuffer } from '../types';
+
+export type UvProjection = 'planar' | 'box' | 'cylindrical' | 'spherical' | 'charts';
+
+export const UV_PROJECTIONS: Array<{ id: UvProjection; label: string }> = [
+  { id: 'planar', label: 'PLANAR' },
+  { id: 'box', label: 'BOX' },
+  { id: 'cylindrical', label: 'CYLINDER' },
+  { id: 'spherical', label: 'SPHERE' },
+  { id: 'charts', label: 'CHARTS' },
+];
+
+// Used by the canvas for meshes imported without UVs
+export const DEFAULT_UV_PROJECTION: UvProjection = 'charts';
+
+// Faces join a chart while within this angle of its seed face
+const CHART_ANGLE_COS = Math.cos((60 * Math.PI) / 180);
+// Gap around each packed chart, as a share of the layout's side
+const CHART_PADDING = 0.005;
+
+// Unit normal (zero for degenerate faces) and area of every face
+const getFaceFrames = (positions: Float32Array, corners: Uint32Array) => {
+  const faceCount = corners.length / 3;
+  const normals = new Float32Array(faceCount * 3);
+  const areas = new Float32Array(faceCount);
+  for (let f = 0; f < faceCount; f++) {
+    const a = corners[f * 3] * 3, b = corners[f * 3 + 1] * 3, c = corners[f * 3 + 2] * 3;
+    const e1x = positions[b] - positions[a], e1y = positions[b + 1] - positions[a + 1], e1z = positions[b + 2] - positions[a + 2];
+    const e2x = positions[c] - positions[a], e2y = positions[c + 1] - positions[a + 1], e2z = positions[c + 2] - positions[a + 2];
+    const nx = e1y * e2z - e1z * e2y, ny = e1z * e2x - e1x * e2z, nz = e1x * e2y - e1y * e2x;
+    const length = Math.hypot(nx, ny, nz);
+    areas[f] = length / 2;
+    if (length > 0) normals.set([nx / length, ny / length, nz / length], f * 3);
+  }
+  return { normals, areas };
+};
+
+// Right-handed tangent and bitangent for a plane, so projected faces keep their winding
+const planeBasis = (nx: number, ny: number, nz: number) => {
+  // Up is +y unless the plane faces up, then -z; box faces get the usual axis-aligned layout
+  const [ux, uy, uz] = Math.abs(ny) < 0.99 ? [0, 1, 0] : [0, 0, -1];
+  let tx = uy * nz - uz * ny, ty = uz * nx - ux * nz, tz = ux * ny - uy * nx;
+  const length = Math.hypot(tx, ty, tz) || 1;
+  tx /= length; ty /= length; tz /= length;
+  return [tx, ty, tz, ny * tz - nz * ty, nz * tx - nx * tz, nx * ty - ny * tx];
+};
+
+/**
+ * Flattens each chart onto its plane and shelf-packs the charts, tallest first, into
+ * the unit square. Every chart shares one scale, so texel density stays even.
+ */
+const packCharts = (positions: Float32Array, corners: Uint32Array, chartOfFace: Int32Array, chartNormals: Float64Array) => {
+  const chartCount = chartNormals.length / 3;
+  const bases = Array.from({ length: chartCount }, (_, c) => planeBasis(chartNormals[c * 3], chartNormals[c * 3 + 1], chartNormals[c * 3 + 2]));
+  const uvs = new Float32Array(corners.length * 2);
+  const bounds = new Float64Array(chartCount * 4);
+  for (let c = 0; c < chartCount; c++) bounds.set([Infinity, Infinity, -Infinity, -Infinity], c * 4);
+
+  for (let corner = 0; corner < corners.length; corner++) {
+    const chart = chartOfFace[Math.floor(corner / 3)];
+    const [tx, ty, tz, bx, by, bz] = bases[chart];
+    const p = corners[corner] * 3;
+    const u = positions[p] * tx + positions[p + 1] * ty + positions[p + 2] * tz;
+    const v = positions[p] * bx + positions[p + 1] * by + positions[p + 2] * bz;
+    uvs[corner * 2] = u;
+    uvs[corner * 2 + 1] = v;
+    const b = chart * 4;
+    bounds[b] = Math.min(bounds[b], u); bounds[b + 1] = Math.min(bounds[b + 1], v);
+    bounds[b + 2] = Math.max(bounds[b + 2], u); bounds[b + 3] = Math.max(bounds[b + 3], v);
+  }
+
+  const order = Array.from({ length: chartCount }, (_, c) => c)
+    .filter((c) => bounds[c * 4] <= bounds[c * 4 + 2])
+    .sort((a, b) => (bounds[b * 4 + 3] - bounds[b * 4 + 1]) - (bounds[a * 4 + 3] - bounds[a * 4 + 1]));
+  let area = 0;
+  order.forEach((c) => { area += (bounds[c * 4 + 2] - bounds[c * 4]) * (bounds[c * 4 + 3] - bounds[c * 4 + 1]); });
+  const padding = Math.sqrt(area) * CHART_PADDING || 1e-6;
+  const widest = order.reduce((w, c) => Math.max(w, bounds[c * 4 + 2] - bounds[c * 4]), 0);
+  const shelfWidth = Math.max(widest + padding * 2, Math.sqrt(area) * 1.1);
+
+  const offsets = new Float64Array(chartCount * 2);
+  let x = 0, y = 0, shelfHeight = 0, width = 0;
+  order.forEach((c) => {
+    const w = bounds[c * 4 + 2] - bounds[c * 4] + padding * 2;
+    const h = bounds[c * 4 + 3] - bounds[c * 4 + 1] + padding * 2;
+    if (x > 0 && x + w > shelfWidth) {
+      y += shelfHeight;
+      x = 0;
+      shelfHeight = 0;
+    }
+    offsets[c * 2] = x + padding - bounds[c * 4];
+    offsets[c * 2 + 1] = y + padding - bounds[c * 4 + 1];
+    x += w;
+    width = Math.max(width, x);
+    shelfHeight = Math.max(shelfHeight, h);
+  });
+
+  const scale = 1 / (Math.max(width, y + shelfHeight) || 1);
+  for (let corner = 0; corner < corners.length; corner++) {
+    const chart = chartOfFace[Math.floor(corner / 3)];
+    uvs[corner * 2] = (uvs[corner * 2] + offsets[chart * 2]) * scale;
+    uvs[corner * 2 + 1] = (uvs[corner * 2 + 1] + offsets[chart * 2 + 1]) * scale;
+  }
+  return uvs;
+};
+
+// Grows charts from the largest faces outward across welded edges. Each chart
+// keeps to faces within CHART_ANGLE_COS of its seed and is flattened along the
+// seed's normal, so no face in it can turn over.
+const growCharts = (positions: Float32Array, corners: Uint32Array, normals: Float32Array, areas: Float32Array) => {
+  const faceCount = corners.length / 3;
+  const welded = weldByPosition(positions, getBoundingDiagonal(positions) * 1e-5);
+  const edgeFaces = new Map<number, number[]>();
+  const edgeKey = (a: number, b: number) => Math.min(a, b) * welded.length + Math.max(a, b);
+  for (let f = 0; f < faceCount; f++) {
+    for (let k = 0; k < 3; k++) {
+      const key = edgeKey(welded[corners[f * 3 + k]], welded[corners[f * 3 + (k + 1) % 3]]);
+      const list = edgeFaces.get(key);
+      if (list) list.push(f);
+      else edgeFaces.set(key, [f]);
+    }
+  }
+
+  const chartOfFace = new Int32Array(faceCount).fill(-1);
+  const chartNormals: number[] = [];
+  const seeds = Array.from({ length: faceCount }, (_, f) => f).sort((a, b) => areas[b] - areas[a]);
+  seeds.forEach((seed) => {
+    if (chartOfFace[seed] >= 0) return;
+    const chart = chartNormals.length / 3;
+    const nx = normals[seed * 3], ny = normals[seed * 3 + 1], nz = normals[seed * 3 + 2];
+    const queue = [seed];
+    chartOfFace[seed] = chart;
+    for (let head = 0; head < queue.length; head++) {
+      const f = queue[head];
+      for (let k = 0; k < 3; k++) {
+        edgeFaces.get(edgeKey(welded[corners[f * 3 + k]], welded[corners[f * 3 + (k + 1) % 3]]))!.forEach((g) => {
+          if (chartOfFace[g] >= 0) return;
+          // Degenerate faces have no normal and ride along with any neighbour
+          const dot = normals[g * 3] * nx + normals[g * 3 + 1] * ny + normals[g * 3 + 2] * nz;
+          if (areas[g] > 0 && dot < CHART_ANGLE_COS) return;
+          chartOfFace[g] = chart;
+          queue.push(g);
+        });
+      }
+    }
+    // A degenerate seed only gathers other degenerate faces; any plane will do
+    if (nx === 0 && ny === 0 && nz === 0) chartNormals.push(0, 0, 1);
+    else chartNormals.push(nx, ny, nz);
+  });
+  return { chartOfFace, chartNormals: Float64Array.from(chartNormals) };
+};
+
+// One chart per axis direction the face normals lean toward most
+const boxCharts = (normals: Float32Array) => {
+  const faceCount = normals.length / 3;
+  const chartOfFace = new Int32Array(faceCount);
+  for (let f = 0; f < faceCount; f++) {
+    const ax = Math.abs(normals[f * 3]), ay = Math.abs(normals[f * 3 + 1]), az = Math.abs(normals[f * 3 + 2]);
+    const axis = ax >= ay && ax >= az ? 0 : (ay >= az ? 1 : 2);
+    chartOfFace[f] = axis * 2 + (normals[f * 3 + axis] < 0 ? 1 : 0);
+  }
+  const chartNormals = new Float64Array(18);
+  for (let c = 0; c < 6; c++) chartNormals[c * 3 + (c >> 1)] = c % 2 ? -1 : 1;
+  return { chartOfFace, chartNormals };
+};
+
+// Projects along the axis the bounding box is thinnest on
+const planarChart = (positions: Float32Array, faceCount: number) => {
+  const min = [Infinity, Infinity, Infinity], max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i++) {
+    min[i % 3] = Math.min(min[i % 3], positions[i]);
+    max[i % 3] = Math.max(max[i % 3], positions[i]);
+  }
+  const extents = max.map((value, axis) => value - min[axis]);
+  const thinnest = extents.indexOf(Math.min(...extents));
+  const chartNormals = new Float64Array(3);
+  chartNormals[thinnest] = 1;
+  return { chartOfFace: new Int32Array(faceCount), chartNormals };
+};
+
+/**
+ * Wraps the mesh around a vertical axis through its bounding-box center. Faces that
+ * straddle the back seam take the far side's copy of u, and the few that reach past 1
+ * are scaled back into the unit square.
+ */
+const wrapAroundAxis = (positions: Float32Array, corners: Uint32Array, spherical: boolean) => {
+  const min = [Infinity, Infinity, Infinity], max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i++) {
+    min[i % 3] = Math.min(min[i % 3], positions[i]);
+    max[i % 3] = Math.max(max[i % 3], positions[i]);
+  }
+  const center = min.map((value, axis) => (value + max[axis]) / 2);
+  const height = max[1] - min[1] || 1;
+  const uvs = new Float32Array(corners.length * 2);
+  const onAxis = new Uint8Array(3);
+  let maxU = 1;
+
+  for (let f = 0; f < corners.length / 3; f++) {
+    for (let k = 0; k < 3; k++) {
+      const p = corners[f * 3 + k] * 3;
+      const x = positions[p] - center[0], y = positions[p + 1] - center[1], z = positions[p + 2] - center[2];
+      const radial = Math.hypot(x, z);
+      onAxis[k] = radial < height * 1e-6 ? 1 : 0;
+      uvs[(f * 3 + k) * 2] = Math.atan2(x, z) / (Math.PI * 2) + 0.5;
+      uvs[(f * 3 + k) * 2 + 1] = spherical
+        ? 1 - Math.atan2(radial, y) / Math.PI
+        : (positions[p + 1] - min[1]) / height;
+    }
+    const u = (k: number) => uvs[(f * 3 + k) * 2];
+    const offAxis = [0, 1, 2].filter((k) => !onAxis[k]);
+    const lowest = Math.min(...offAxis.map(u)), highest = Math.max(...offAxis.map(u));
+    if (highest - lowest > 0.5) offAxis.forEach((k) => { if (u(k) < 0.5) uvs[(f * 3 + k) * 2] += 1; });
+    // A pole has no angle of its own; it sits between the corners beside it
+    const poleU = offAxis.length > 0 ? offAxis.reduce((sum, k) => sum + u(k), 0) / offAxis.length : 0.5;
+    [0, 1, 2].forEach((k) => {
+      if (onAxis[k]) uvs[(f * 3 + k) * 2] = poleU;
+      maxU = Math.max(maxU, u(k));
+    });
+  }
+
+  if (maxU > 1) for (let i = 0; i < uvs.length; i += 2) uvs[i] /= maxU;
+  return uvs;
+};
+
+// Gives every distinct (vertex, uv) pair its own vertex; tangents no longer match and are dropped
+const splitByCornerUVs = (mesh: CustomMeshBuffer, corners: Uint32Array, cornerUVs: Float32Array): CustomMeshBuffer => {
+  const lookup = new Map<string, number>();
+  const source: number[] = [];
+  const index = new Uint32Array(corners.length);
+  for (let corner = 0; corner < corners.length; corner++) {
+    const key = `${corners[corner]},${Math.round(cornerUVs[corner * 2] * 1e6)},${Math.round(cornerUVs[corner * 2 + 1] * 1e6)}`;
+    let v = lookup.get(key);
+    if (v === undefined) {
+      v = source.length;
+      lookup.set(key, v);
+      source.push(corner);
+    }
+    index[corner] = v;
+  }
+  const pick = (data: Float32Array | null, size: number) => {
+    if (!data) return null;
+    const out = new Float32Array(source.length * size);
+    source.forEach((corner, i) => out.set(data.subarray(corners[corner] * size, corners[corner] * size + size), i * size));
+    return out;
+  };
+  const uvs = new Float32Array(source.length * 2);
+  source.forEach((corner, i) => uvs.set(cornerUVs.subarray(corner * 2, corner * 2 + 2), i * 2));
+  return { positions: pick(mesh.positions, 3)!, index, normals: pick(mesh.normals, 3), tangents: null, uvs, colors: pick(mesh.colors, 3) };
+};
+
+// Without faces there is nothing to unfold; vertices keep their order and get the planar layout
+const projectVertices = (mesh: CustomMeshBuffer): CustomMeshBuffer => {
+  const vertexCount = getVertexCount(mesh);
+  const corners = Uint32Array.from({ length: vertexCount }, (_, v) => v);
+  const uvs = packCharts(mesh.positions, corners, new Int32Array(vertexCount), planarChart(mesh.positions, 0).chartNormals);
+  return { ...mesh, tangents: null, uvs };
+};
+
+/**
+ * Replaces the mesh's UVs with a generated layout. Vertices are split wherever the
+ * layout cuts the surface (chart borders, box edges, the wrap seam), so the result
+ * may have more vertices than the input. The input buffers are never modified.
+ */
+export const generateUVs = (mesh: CustomMeshBuffer, projection: UvProjection): CustomMeshBuffer => {
+  if (getTriangleCount(mesh) === 0) return projectVertices(mesh);
+  const { positions } = mesh;
+  const corners = readCorners(mesh);
+
+  if (projection === 'cylindrical' || projection === 'spherical') {
+    return splitByCornerUVs(mesh, corners, wrapAroundAxis(positions, corners, projection === 'spherical'));
+  }
+
+  const { normals, areas } = getFaceFrames(positions, corners);
+  const { chartOfFace, chartNormals } = projection === 'planar'
+    ? planarChart(positions, corners.length / 3)
+    : projection === 'box' ? boxCharts(normals) : growCharts(positions, corners, normals, areas);
+  return splitByCornerUVs(mesh, corners, packCharts(positions, corners, chartOfFace, chartNormals));
+};
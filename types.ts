@@ -20,19 +20,116 @@ export interface Particle {
   density: number;
 }
 
+// How the lab draws the current model. The last six are inspection shaders that
+// each show a single property of the surface.
+export type RenderMode =
+  | 'point' | 'line' | 'surface' | 'texture' | 'heatmap'
+  | 'normals' | 'matcap' | 'depth' | 'vertexColor' | 'tangent' | 'orientation';
+
+export type SectionAxis = 'x' | 'y' | 'z';
+
+// One clipping plane, perpendicular to `axis` at `offset` model units from the origin
+export interface SectionPlane {
+  axis: SectionAxis;
+  offset: number;
+  flipped: boolean; // Keep the far side instead of the near one
+  enabled: boolean;
+}
+
 export interface LabContent {
   title: string;
   explanation: string;
   subtext: string;
 }
 
+// Raw measurements taken from the mesh buffers by the local benchmark engine
+export interface BenchmarkMetrics {
+  vertexCount: number;
+  triangleCount: number;
+  degenerateFaces: number;
+  hasUVs: boolean;
+  uvCoverage: number; // 0-1 share of the unit square covered by UV triangles
+  uvOverlap: number; // 0-1 share of covered UV area hit by more than one triangle
+  uvStretch: number; // 0-1 area-weighted share of faces' worst area or angle distortion
+  uvOutOfBounds: number; // 0-1 share of faces with a corner outside the 0-1 tile
+  textureResolution: number; // texture side the density figures assume
+  texelDensity: number; // median texels per model unit at textureResolution
+  texelDensitySpread: number; // 90th over 10th percentile density; 1 is perfectly even
+  boundingBoxRatio: number; // shortest / longest bounding-box side
+  normalConsistency: number; // 0-1 share of faces agreeing with their neighbours and authored normals
+}
+
+export interface BenchmarkCriterion {
+  id: string;
+  label: string;
+  score: number; // 0-100
+  weight: number;
+  measured: string;
+}
+
 export interface BenchmarkResult {
   score: number;
-  grade: string; // S, A, B, C, F
+  grade: string; // S, A, B, C, D, F
   analysis: string;
   recommendation: string;
+  metrics: BenchmarkMetrics;
+  criteria: BenchmarkCriterion[];
+  // Who wrote the prose: a language model, the offline fixture backend, or the local
+  // template. Score and grade are always computed locally.
+  source: 'ai' | 'fixture' | 'local';
+  provider?: string; // e.g. "gemini:gemini-3-flash-preview"
+}
+
+// Topology problems found by the validator. Edges are pairs and faces are triangle
+// indices into `mesh`, so overlays and listings can be rebuilt from the report alone.
+export interface TopologyReport {
+  mesh: CustomMeshBuffer;
+  nonManifoldEdges: Uint32Array; // vertex pairs of edges shared by more than two faces
+  boundaryEdges: Uint32Array; // vertex pairs of edges used by a single face
+  flippedFaces: Uint32Array; // faces wound against the rest of their surface
+  zeroAreaFaces: Uint32Array;
+  duplicateVertices: Uint32Array; // vertex pairs identical in every attribute, later one first
+  faceIslands: Int32Array; // island per face, largest island 0; -1 for zero-area faces
+  islandSizes: number[]; // faces per island, largest first
+}
+
+export interface UvQualitySummary {
+  coverage: number; // 0-1 share of the unit square covered by UV triangles
+  overlap: number; // 0-1 share of covered UV area hit by more than one triangle
+  overlappingFaces: number;
+  outOfBoundsFaces: number;
+  outOfBounds: number; // 0-1 share of faces
+  areaDistortion: number; // area-weighted mean |log2| of each face's scale against the layout's
+  angleDistortion: number; // area-weighted mean aspect of each face's stretch; 1 is undistorted
+  stretch: number; // area-weighted mean of the worse of both distortions, 0-1
+  texelDensity: number; // area-weighted median texels per model unit
+  densitySpread: number; // 90th over 10th percentile density
+}
+
+// Per-face UV measurements indexing the triangles of `mesh`, so heatmaps can be
+// rebuilt from the analysis alone
+export interface UvAnalysis {
+  mesh: CustomMeshBuffer;
+  resolution: number; // texture side the density figures assume
+  faceArea: Float32Array; // |log2| of the face's UV scale against the layout's
+  faceAngle: Float32Array; // ratio of the face's largest to smallest stretch
+  faceOverlap: Uint8Array;
+  faceOutOfBounds: Uint8Array;
+  faceDensity: Float32Array; // texels per model unit; 0 for zero-area faces
+  summary: UvQualitySummary;
 }
 
-// Update: Using Float32Array for high-performance geometry data
-export type CustomMeshBuffer = Float32Array;
 export type CustomMeshUVs = Float32Array;
+// Per-vertex RGB (0-1), e.g. from scanner PLY output
+export type CustomMeshColors = Float32Array;
+
+// Geometry handed from the importer to the canvas. Attributes are tightly packed
+// floats in model space and stay indexed, so authored normals and seams survive.
+export interface CustomMeshBuffer {
+  positions: Float32Array;
+  index: Uint32Array | null;
+  normals: Float32Array | null;
+  tangents: Float32Array | null; // xyzw, w = handedness
+  uvs: CustomMeshUVs | null;
+  colors: CustomMeshColors | null;
+}